@@ -0,0 +1,269 @@
+import * as fs from 'fs';
+import { PackageDependencyResult, MethodCallSite, getPackageName } from './package-dependencies';
+import { LibraryCatalog } from './library-catalog';
+import { isWithinPackage } from './classification';
+import { ClassNameOptions, normalizeClassName } from './class-names';
+
+// The subset of the OSV schema (https://ossf.github.io/osv-schema/) used for matching. Which code
+// is affected is read from `ecosystem_specific` of each affected entry; without it, a Maven
+// package name found in the library catalog stands for all of that library's packages.
+export interface AdvisoryEvent {
+    introduced?: string;
+    fixed?: string;
+    last_affected?: string;
+}
+
+export interface AdvisoryRange {
+    type: string;
+    events: AdvisoryEvent[];
+}
+
+export interface AffectedCode {
+    // Package prefixes, e.g. `org.apache.log4j.net`
+    packages?: string[];
+    // Fully qualified class names
+    classes?: string[];
+    // Methods as `Class#method`, e.g. `org.apache.log4j.net.SocketServer#main`
+    methods?: string[];
+}
+
+export interface AdvisoryAffected {
+    package?: { ecosystem?: string; name: string };
+    ranges?: AdvisoryRange[];
+    versions?: string[];
+    ecosystem_specific?: AffectedCode;
+}
+
+export interface Advisory {
+    id: string;
+    summary?: string;
+    aliases?: string[];
+    severity?: Array<{ type: string; score: string }>;
+    affected: AdvisoryAffected[];
+    database_specific?: { severity?: string };
+}
+
+// An advisory whose affected code is called from internal code
+export interface AdvisoryFinding {
+    id: string;
+    summary: string;
+    aliases: string[];
+    severity?: string;
+    // Affected classes that are called, sorted
+    classes: string[];
+    // Affected versions of those classes found among the analyzed artifacts. Empty when the
+    // version could not be determined, in which case the finding needs to be checked manually.
+    versions: string[];
+    // Internal call sites reaching the affected code
+    callSites: MethodCallSite[];
+}
+
+// Compare two version strings segment by segment, numerically where both segments are numbers.
+// A qualifier sorts before the release it qualifies, so `2.0-beta9` < `2.0` < `2.0.1`.
+export function compareVersions(a: string, b: string): number {
+    const segmentsA = a.split(/[.-]/);
+    const segmentsB = b.split(/[.-]/);
+    const isNumber = (segment: string) => /^\d+$/.test(segment);
+
+    for (let i = 0; i < Math.max(segmentsA.length, segmentsB.length); i++) {
+        const segmentA = segmentsA[i];
+        const segmentB = segmentsB[i];
+        if (segmentA === undefined || segmentB === undefined) {
+            const other = (segmentA ?? segmentB)!;
+            const sign = segmentA === undefined ? 1 : -1;
+            // A missing segment equals a zero, but is newer than a qualifier
+            if (!isNumber(other)) {
+                return sign;
+            }
+            if (Number(other) !== 0) {
+                return -sign;
+            }
+            continue;
+        }
+
+        if (isNumber(segmentA) && isNumber(segmentB)) {
+            const difference = Number(segmentA) - Number(segmentB);
+            if (difference !== 0) {
+                return Math.sign(difference);
+            }
+        } else if (isNumber(segmentA) !== isNumber(segmentB)) {
+            return isNumber(segmentA) ? 1 : -1;
+        } else if (segmentA !== segmentB) {
+            return segmentA.localeCompare(segmentB);
+        }
+    }
+    return 0;
+}
+
+// Check whether a version is affected according to the explicit versions and ranges of an
+// affected entry. An entry without versions or ranges affects every version.
+export function isVersionAffected(version: string, affected: AdvisoryAffected): boolean {
+    const ranges = affected.ranges ?? [];
+    if ((affected.versions ?? []).length === 0 && ranges.length === 0) {
+        return true;
+    }
+    if ((affected.versions ?? []).includes(version)) {
+        return true;
+    }
+
+    return ranges.some(range => {
+        let isAffected = false;
+        range.events.forEach(event => {
+            if (event.introduced !== undefined && (event.introduced === '0' || compareVersions(version, event.introduced) >= 0)) {
+                isAffected = true;
+            } else if (event.fixed !== undefined && compareVersions(version, event.fixed) >= 0) {
+                isAffected = false;
+            } else if (event.last_affected !== undefined && compareVersions(version, event.last_affected) > 0) {
+                isAffected = false;
+            }
+        });
+        return isAffected;
+    });
+}
+
+// Check the structure of parsed advisories, throwing on the first problem found
+export function validateAdvisories(advisories: unknown): Advisory[] {
+    // A bundle is an array of advisories or an OSV query response ({ "vulns": [...] })
+    let list: unknown = advisories;
+    if (typeof advisories === 'object' && advisories !== null && !Array.isArray(advisories)) {
+        list = 'vulns' in advisories ? (advisories as { vulns: unknown }).vulns : [advisories];
+    }
+    if (!Array.isArray(list)) {
+        throw new Error('Advisories must be an advisory object or an array of advisories');
+    }
+
+    list.forEach((advisory, index) => {
+        if (typeof advisory !== 'object' || advisory === null || typeof advisory.id !== 'string') {
+            throw new Error(`Advisory ${index} must be an object with a string 'id'`);
+        }
+        if (!Array.isArray(advisory.affected)) {
+            throw new Error(`Advisory '${advisory.id}' must have an 'affected' array`);
+        }
+        advisory.affected.forEach((affected: AdvisoryAffected) => {
+            (affected.ranges ?? []).forEach(range => {
+                if (!Array.isArray(range.events)) {
+                    throw new Error(`Advisory '${advisory.id}' has a range without an 'events' array`);
+                }
+            });
+
+            const code: unknown = affected.ecosystem_specific;
+            if (code === undefined) {
+                return;
+            }
+            if (typeof code !== 'object' || code === null || Array.isArray(code)) {
+                throw new Error(`Advisory '${advisory.id}' has an 'ecosystem_specific' that is not an object`);
+            }
+            (['classes', 'methods', 'packages'] as const).forEach(key => {
+                const names: unknown = (code as AffectedCode)[key];
+                if (names !== undefined && !(Array.isArray(names) && names.every(name => typeof name === 'string'))) {
+                    throw new Error(`Advisory '${advisory.id}' has an 'ecosystem_specific.${key}' that is not an array of strings`);
+                }
+            });
+        });
+    });
+
+    return list as Advisory[];
+}
+
+// Load and validate an advisory file. Nothing is fetched: the file is the whole database.
+export function loadAdvisories(filePath: string): Advisory[] {
+    let advisories: unknown;
+    try {
+        advisories = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Could not read advisory file '${filePath}': ${error instanceof Error ? error.message : error}`);
+    }
+
+    try {
+        return validateAdvisories(advisories);
+    } catch (error) {
+        throw new Error(`Invalid advisory file '${filePath}': ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+// Match advisories against the called external classes and methods. The version of a library
+// class is taken from the analyzed artifacts containing it, if any; classes whose version is
+// known and not affected are skipped.
+export function findAdvisoryFindings(
+    advisories: Advisory[],
+    result: PackageDependencyResult,
+    catalog: LibraryCatalog,
+    classNameOptions: ClassNameOptions = {}
+): AdvisoryFinding[] {
+    const classVersions = new Map<string, Set<string>>();
+    result.artifactInfo.forEach(artifact => {
+        artifact.classes.forEach(className => {
+            if (!classVersions.has(className)) {
+                classVersions.set(className, new Set());
+            }
+            classVersions.get(className)!.add(artifact.version);
+        });
+    });
+    const findings: AdvisoryFinding[] = [];
+    advisories.forEach(advisory => {
+        const classes = new Set<string>();
+        const versions = new Set<string>();
+        const callSites: MethodCallSite[] = [];
+
+        advisory.affected.forEach(affected => {
+            const code = affected.ecosystem_specific ?? {};
+            const library = affected.package ? catalog.findLibraryByCoordinates(affected.package.name) : undefined;
+            const packages = code.packages ?? (code.classes || code.methods ? [] : library?.packages ?? []);
+            // Affected nested classes are matched like the records' class names, i.e. usually as their outer class
+            const affectedClasses = new Set((code.classes ?? []).map(className => normalizeClassName(className, classNameOptions)));
+            const affectedMethods = new Set((code.methods ?? []).map(method => {
+                const separatorIndex = method.lastIndexOf('#');
+                return separatorIndex > 0
+                    ? `${normalizeClassName(method.substring(0, separatorIndex), classNameOptions)}${method.substring(separatorIndex)}`
+                    : method;
+            }));
+
+            result.externalMethodUsage.forEach(classUsage => {
+                const packageName = getPackageName(classUsage.className);
+                const isClassAffected = affectedClasses.has(classUsage.className) ||
+                    packages.some(prefix => isWithinPackage(packageName, prefix));
+                const matchingCallSites: MethodCallSite[] = [];
+                classUsage.methods.forEach(method => {
+                    if (isClassAffected || affectedMethods.has(`${classUsage.className}#${method.methodName}`)) {
+                        matchingCallSites.push(...method.callers);
+                    }
+                });
+                if (matchingCallSites.length === 0) {
+                    return;
+                }
+
+                const knownVersions = Array.from(classVersions.get(classUsage.className) ?? []);
+                const affectedVersions = knownVersions.filter(version => isVersionAffected(version, affected));
+                if (knownVersions.length > 0 && affectedVersions.length === 0) {
+                    return;
+                }
+
+                classes.add(classUsage.className);
+                affectedVersions.forEach(version => versions.add(version));
+                matchingCallSites.forEach(callSite => {
+                    if (!callSites.includes(callSite)) {
+                        callSites.push(callSite);
+                    }
+                });
+            });
+        });
+
+        if (callSites.length > 0) {
+            findings.push({
+                id: advisory.id,
+                summary: advisory.summary ?? '',
+                aliases: advisory.aliases ?? [],
+                severity: advisory.database_specific?.severity ?? advisory.severity?.[0]?.score,
+                classes: Array.from(classes).sort(),
+                versions: Array.from(versions).sort(compareVersions),
+                callSites: callSites.sort((a, b) =>
+                    a.sourceClass.localeCompare(b.sourceClass) ||
+                    a.sourceMethod.localeCompare(b.sourceMethod) ||
+                    a.targetClass.localeCompare(b.targetClass) ||
+                    a.targetMethod.localeCompare(b.targetMethod))
+            });
+        }
+    });
+
+    return findings.sort((a, b) => a.id.localeCompare(b.id));
+}
@@ -0,0 +1,110 @@
+import { compilePackagePattern } from './classification';
+import { MethodCallSite, PackageDependencyResult } from './package-dependencies';
+
+// Graph a rule is checked against: package dependencies or base package dependencies
+export type RuleLevel = 'package' | 'base-package';
+
+// A dependency rule. Patterns use the same syntax as classification patterns. Rules only apply to
+// dependencies of internal packages; what external code depends on isn't under our control.
+//
+// - `forbidden` (default): packages matching `from` must not depend on packages matching `to`.
+//   Without `from` the rule applies to every internal package.
+// - `only`: only packages matching `from` may depend on packages matching `to`.
+export interface ArchitectureRule {
+    // Shown in the report instead of the generated description
+    name?: string;
+    type?: 'forbidden' | 'only';
+    from?: string[];
+    to: string[];
+    // Default: package
+    level?: RuleLevel;
+}
+
+// A dependency that breaks a rule, with the calls behind it
+export interface RuleViolation {
+    rule: string;
+    level: RuleLevel;
+    source: string;
+    target: string;
+    callSites: MethodCallSite[];
+}
+
+// Look up the calls from classes in one set of packages to classes in another
+export type CallSiteLookup = (sourcePackages: Iterable<string>, targetPackages: Iterable<string>) => MethodCallSite[];
+
+interface CompiledRule {
+    description: string;
+    isOnly: boolean;
+    level: RuleLevel;
+    from?: RegExp[];
+    to: RegExp[];
+}
+
+// Describe a rule for the report, e.g. "`**.web` must not depend on `**.dao`"
+export function describeRule(rule: ArchitectureRule): string {
+    if (rule.name) {
+        return rule.name;
+    }
+
+    const list = (patterns: string[]) => patterns.map(pattern => `\`${pattern}\``).join(', ');
+    const from = rule.from ? list(rule.from) : 'internal packages';
+    return rule.type === 'only'
+        ? `only ${from} may depend on ${list(rule.to)}`
+        : `${from} must not depend on ${list(rule.to)}`;
+}
+
+export class ArchitectureRuleChecker {
+    private rules: CompiledRule[];
+
+    constructor(rules: ArchitectureRule[] = []) {
+        this.rules = rules.map(rule => {
+            if (rule.type === 'only' && !rule.from) {
+                throw new Error(`Rule '${describeRule(rule)}' of type 'only' needs 'from' patterns`);
+            }
+            return {
+                description: describeRule(rule),
+                isOnly: rule.type === 'only',
+                level: rule.level ?? 'package',
+                from: rule.from?.map(compilePackagePattern),
+                to: rule.to.map(compilePackagePattern)
+            };
+        });
+    }
+
+    // Check every rule against the dependency graph of its level, sorted by rule, source and target
+    findViolations(result: PackageDependencyResult, findCallSites: CallSiteLookup): RuleViolation[] {
+        const violations: RuleViolation[] = [];
+        const matches = (patterns: RegExp[], name: string) => patterns.some(pattern => pattern.test(name));
+
+        this.rules.forEach(rule => {
+            const isPackageLevel = rule.level === 'package';
+            const graph = isPackageLevel ? result.dependencies : result.basePackageDependencies;
+            const isInternal = (node: string) => isPackageLevel
+                ? !result.packages.get(node)?.isExternal
+                : !result.externalBasePackages.has(node);
+            const packagesOf = (node: string) => isPackageLevel ? [node] : result.basePackages.get(node) ?? [];
+
+            Array.from(graph.keys()).filter(isInternal).sort().forEach(source => {
+                // A forbidden rule applies to the matching sources, an only rule to all other sources
+                const sourceMatches = !rule.from || matches(rule.from, source);
+                if (sourceMatches === rule.isOnly) {
+                    return;
+                }
+
+                Array.from(graph.get(source)!).sort().forEach(target => {
+                    if (matches(rule.to, target)) {
+                        violations.push({
+                            rule: rule.description,
+                            level: rule.level,
+                            source,
+                            target,
+                            callSites: findCallSites(packagesOf(source), packagesOf(target))
+                        });
+                    }
+                });
+            });
+        });
+
+        return violations;
+    }
+}
@@ -0,0 +1,67 @@
+// Canonicalization of the class name forms found in bytecode analysis output. Jarviz reports
+// class names the way the JVM sees them, so besides `com.example.Foo` a record may contain
+// array descriptors (`[Lcom.example.Foo;`, `[[I`), internal names (`com/example/Foo`), field
+// descriptors (`Lcom/example/Foo;`) and nested classes (`com.example.Foo$Bar`, `com.example.Foo$1`).
+
+export interface ClassNameOptions {
+    // Keep nested, inner and anonymous classes (`Outer$Inner`, `Outer$1`) as classes of their own
+    // instead of folding them into their outer class
+    keepInnerClasses?: boolean;
+}
+
+// Descriptor characters of the primitive types, and their Java names
+const PRIMITIVE_DESCRIPTORS: { [descriptor: string]: string } = {
+    B: 'byte',
+    C: 'char',
+    D: 'double',
+    F: 'float',
+    I: 'int',
+    J: 'long',
+    S: 'short',
+    Z: 'boolean',
+    V: 'void'
+};
+const PRIMITIVE_TYPES = new Set(Object.keys(PRIMITIVE_DESCRIPTORS).map(descriptor => PRIMITIVE_DESCRIPTORS[descriptor]));
+
+// Convert any descriptor form to a dotted Java name: array dimensions and the `L...;` wrapper are
+// removed and slashes become dots. Primitive arrays become the Java name of their element type
+// (`[[I` is `int`); a single letter outside an array descriptor is a class name (`C` is class `C`).
+// Nested classes are kept.
+export function canonicalizeClassName(name: string): string {
+    let canonicalName = name.trim();
+
+    // Descriptor arrays (`[[Lcom.example.Foo;`) and source arrays (`com.example.Foo[][]`)
+    const isArrayDescriptor = canonicalName.startsWith('[');
+    canonicalName = canonicalName.replace(/^\[+/, '').replace(/(\[\])+$/, '');
+    if (isArrayDescriptor && canonicalName.length === 1 && PRIMITIVE_DESCRIPTORS[canonicalName]) {
+        return PRIMITIVE_DESCRIPTORS[canonicalName];
+    }
+    if (canonicalName.startsWith('L') && canonicalName.endsWith(';')) {
+        canonicalName = canonicalName.substring(1, canonicalName.length - 1);
+    }
+
+    return canonicalName.replace(/\//g, '.');
+}
+
+// Check whether a canonical name is a primitive type
+export function isPrimitiveType(canonicalName: string): boolean {
+    return PRIMITIVE_TYPES.has(canonicalName);
+}
+
+// Fold a nested class into its top-level class: `com.example.Foo$Bar$1` becomes `com.example.Foo`.
+// A `$` at the start of the simple name, as in generated `$Proxy12` classes, is part of the name.
+export function getOuterClassName(canonicalName: string): string {
+    const simpleNameStart = canonicalName.lastIndexOf('.') + 1;
+    const separatorIndex = canonicalName.indexOf('$', simpleNameStart + 1);
+    return separatorIndex > 0 ? canonicalName.substring(0, separatorIndex) : canonicalName;
+}
+
+// Normalize a class name as reported in a record to the class it is counted as, or undefined for
+// primitive types, which belong to no package
+export function normalizeClassName(name: string, options: ClassNameOptions = {}): string | undefined {
+    const canonicalName = canonicalizeClassName(name);
+    if (isPrimitiveType(canonicalName)) {
+        return undefined;
+    }
+    return options.keepInnerClasses ? canonicalName : getOuterClassName(canonicalName);
+}
@@ -0,0 +1,90 @@
+// User-supplied package patterns that override the default internal/external classification.
+// A pattern is a package prefix such as `com.example`, which matches `com.example` and every
+// package below it (but not `com.examplefoo`). Patterns may use `*` for exactly one package
+// segment and `**` for any number of segments, e.g. `com.*.internal` or `**.generated`.
+export interface ClassificationOptions {
+    internal?: string[];
+    external?: string[];
+}
+
+interface CompiledPattern {
+    pattern: string;
+    regex: RegExp;
+    // Number of literal segments; the most specific matching pattern wins
+    specificity: number;
+    isExternal: boolean;
+}
+
+const SEGMENT_PATTERN = /^(\*\*?|[A-Za-z0-9_$]+)$/;
+
+// Compile a package pattern into a regular expression matching the package and its sub-packages
+export function compilePackagePattern(pattern: string): RegExp {
+    const segments = pattern.trim().split('.');
+    if (pattern.trim() === '' || !segments.every(segment => SEGMENT_PATTERN.test(segment))) {
+        throw new Error(`Invalid package pattern '${pattern}'`);
+    }
+
+    const parts = segments.map(segment => {
+        if (segment === '**') {
+            return '[^.]+(?:\\.[^.]+)*';
+        }
+        if (segment === '*') {
+            return '[^.]+';
+        }
+        return segment.replace(/\$/g, '\\$');
+    });
+
+    return new RegExp(`^${parts.join('\\.')}(?:\\..+)?$`);
+}
+
+// Check whether a package is the given package or one of its sub-packages, respecting segment boundaries
+export function isWithinPackage(packageName: string, parentPackage: string): boolean {
+    return parentPackage !== '' &&
+        (packageName === parentPackage || packageName.startsWith(`${parentPackage}.`));
+}
+
+export class PackageClassifier {
+    private patterns: CompiledPattern[] = [];
+
+    constructor(options: ClassificationOptions = {}) {
+        const compile = (pattern: string, isExternal: boolean): CompiledPattern => ({
+            pattern,
+            regex: compilePackagePattern(pattern),
+            specificity: pattern.split('.').filter(segment => !segment.startsWith('*')).length,
+            isExternal
+        });
+
+        this.patterns = [
+            ...(options.internal ?? []).map(pattern => compile(pattern, false)),
+            ...(options.external ?? []).map(pattern => compile(pattern, true))
+        ];
+    }
+
+    // Decide whether a package is external. User patterns take precedence: the most specific
+    // matching pattern wins, with external winning ties. Without a matching pattern a package is
+    // internal when it lies within one of the artifact groups of the analyzed artifacts.
+    isExternal(packageName: string, artifactGroups: Iterable<string>): boolean {
+        let bestMatch: CompiledPattern | undefined;
+        this.patterns.forEach(pattern => {
+            if (!pattern.regex.test(packageName)) {
+                return;
+            }
+            if (!bestMatch ||
+                pattern.specificity > bestMatch.specificity ||
+                (pattern.specificity === bestMatch.specificity && pattern.isExternal)) {
+                bestMatch = pattern;
+            }
+        });
+
+        if (bestMatch) {
+            return bestMatch.isExternal;
+        }
+
+        for (const artifactGroup of artifactGroups) {
+            if (isWithinPackage(packageName, artifactGroup)) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
@@ -0,0 +1,718 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractorOptions, PackageDependencyExtractor, PackageDependencyResult } from './package-dependencies';
+import { DiagramOptions } from './diagrams';
+import { MapperConfig, loadConfig } from './config';
+import { Advisory, loadAdvisories } from './advisories';
+import { resolveInputFiles } from './input-files';
+import { ReadOptions, formatInputSummary } from './jsonl-input';
+import { METRIC_NAMES, MetricName, MetricsOptions } from './metrics';
+import { MIN_TARGET_JDK } from './jdk-compatibility';
+import { PortfolioAnalyzer } from './portfolio';
+import { createDiffMarkdown, diffReports, hasChanges, loadSnapshot } from './report-diff';
+import { checkMaxDepth, compileQueryPattern, createDependencyQueryText } from './dependency-query';
+import { createImpactText, createTransitiveDependenciesText } from './impact-analysis';
+import { compilePackagePattern } from './classification';
+
+// Supported output formats and the file extension used for the default output path
+const OUTPUT_FORMATS: { [format: string]: string } = {
+    markdown: 'md',
+    json: 'json',
+    dot: 'dot',
+    html: 'html'
+};
+
+// Split a comma-separated option value into trimmed, non-empty items
+function splitList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+// Options that shape the dependency model, accepted by the main command and the graph queries
+interface ModelOptions {
+    configFilePath: string;
+    internalPatterns: string[];
+    externalPatterns: string[];
+    depth?: number;
+    keepInnerClasses: boolean;
+}
+
+const MODEL_OPTIONS = ['--config', '-c', '--internal', '--external', '--depth', '--keep-inner-classes'];
+
+// Read the model option at index i, returning the number of values it took from the following arguments
+function readModelOption(args: string[], i: number, options: ModelOptions, readOptionValue: (i: number, option: string) => string, usage: string): number {
+    if (args[i] === '--internal') {
+        options.internalPatterns.push(...splitList(readOptionValue(i, '--internal')));
+        return 1;
+    }
+    if (args[i] === '--external') {
+        options.externalPatterns.push(...splitList(readOptionValue(i, '--external')));
+        return 1;
+    }
+    if (args[i] === '--depth') {
+        const value = readOptionValue(i, '--depth');
+        options.depth = Number(value);
+        if (!Number.isInteger(options.depth) || options.depth < 1) {
+            console.error(`Error: Invalid depth '${value}', must be a positive integer`);
+            console.error(usage);
+            process.exit(1);
+        }
+        return 1;
+    }
+    if (args[i] === '--keep-inner-classes') {
+        options.keepInnerClasses = true;
+        return 0;
+    }
+    // --config or -c
+    options.configFilePath = readOptionValue(i, '--config');
+    return 1;
+}
+
+// Add the patterns given on the command line to the configured ones and apply --depth to the configured grouping
+function createModelSettings(config: MapperConfig, options: ModelOptions): Pick<ExtractorOptions, 'classification' | 'grouping' | 'keepInnerClasses'> {
+    const classification = {
+        internal: [...(config.classification?.internal ?? []), ...options.internalPatterns],
+        external: [...(config.classification?.external ?? []), ...options.externalPatterns]
+    };
+    
+    // --depth replaces the default depth and the built-in depths, but not configured prefix depths
+    const grouping = { ...config.grouping };
+    if (options.depth !== undefined) {
+        grouping.defaultDepth = options.depth;
+        grouping.useBuiltInDepths = false;
+    }
+    return { classification, grouping, keepInnerClasses: options.keepInnerClasses };
+}
+
+// Create a directory (and its parents) if it doesn't exist, exiting on failure
+function ensureDirectory(directory: string): void {
+    if (directory !== '.' && directory !== '') {
+        try {
+            fs.mkdirSync(directory, { recursive: true });
+        } catch (error) {
+            console.error(`Error creating output directory '${directory}': ${error}`);
+            process.exit(1);
+        }
+    }
+}
+
+// Write the report of one extractor in the requested format from its already built result
+function writeReport(extractor: PackageDependencyExtractor, result: PackageDependencyResult, format: string, outputFilePath: string, diagramOptions: DiagramOptions): void {
+    if (format === 'json') {
+        console.log(`Generating JSON output to ${outputFilePath}...`);
+        extractor.generateJsonOutput(outputFilePath, result);
+    } else if (format === 'dot') {
+        console.log(`Generating DOT output to ${outputFilePath}...`);
+        extractor.generateDotOutput(outputFilePath, diagramOptions, result);
+    } else if (format === 'html') {
+        console.log(`Generating HTML output to ${outputFilePath}...`);
+        extractor.generateHtmlOutput(outputFilePath, result);
+    } else {
+        console.log(`Generating Markdown output to ${outputFilePath}...`);
+        extractor.generateMarkdownOutput(outputFilePath, diagramOptions, result);
+    }
+}
+
+// Turn application names into file names. Names that would collide with each other or with the
+// portfolio summary (compared case-insensitively, for case-insensitive file systems) get a numeric suffix.
+function toFileNames(names: string[]): Map<string, string> {
+    const usedFileNames = new Set(['portfolio']);
+    const fileNames = new Map<string, string>();
+    names.forEach(name => {
+        const baseFileName = name.replace(/[^A-Za-z0-9._-]+/g, '_');
+        let fileName = baseFileName;
+        for (let suffix = 2; usedFileNames.has(fileName.toLowerCase()); suffix++) {
+            fileName = `${baseFileName}_${suffix}`;
+        }
+        usedFileNames.add(fileName.toLowerCase());
+        fileNames.set(name, fileName);
+    });
+    return fileNames;
+}
+
+// Compare two snapshots (JSONL files or saved JSON reports) and write the changes
+async function runDiff(args: string[]): Promise<void> {
+    const usage = `Usage: java-dependency-mapper diff <before> <after> [options]
+
+Compares two snapshots of an application. Each snapshot is a JSONL file or a JSON report
+written with --format json (recognized by the .json extension).
+
+Options:
+  --output, -o <file>  Specify output file path (default: dependency-diff.<md|json> for the format)
+  --format, -f <fmt>   Output format: markdown or json (default: markdown)
+  --config, -c <file>  Read classification, grouping and library settings for JSONL snapshots from a JSON configuration file
+  --help, -h           Display this help information
+`;
+    
+    if (args.includes('--help') || args.includes('-h')) {
+        console.log(usage);
+        process.exit(0);
+    }
+    
+    const snapshotPaths: string[] = [];
+    let outputFilePath = '';
+    let format = 'markdown';
+    let configFilePath = '';
+    
+    const readOptionValue = (i: number, option: string): string => {
+        if (i + 1 >= args.length) {
+            console.error(`Error: Missing value for ${option} parameter`);
+            console.error(usage);
+            process.exit(1);
+        }
+        return args[i + 1];
+    };
+    
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--output' || args[i] === '-o') {
+            outputFilePath = readOptionValue(i, '--output');
+            i++;
+        } else if (args[i] === '--format' || args[i] === '-f') {
+            format = readOptionValue(i, '--format').toLowerCase();
+            i++;
+            
+            if (format !== 'markdown' && format !== 'json') {
+                console.error(`Error: Unknown diff format '${format}'`);
+                console.error(usage);
+                process.exit(1);
+            }
+        } else if (args[i] === '--config' || args[i] === '-c') {
+            configFilePath = readOptionValue(i, '--config');
+            i++;
+        } else {
+            snapshotPaths.push(args[i]);
+        }
+    }
+    
+    if (snapshotPaths.length !== 2) {
+        console.error('Error: diff needs exactly two snapshots to compare');
+        console.error(usage);
+        process.exit(1);
+    }
+    if (!outputFilePath) {
+        outputFilePath = `dependency-diff.${OUTPUT_FORMATS[format]}`;
+    }
+    
+    let diff;
+    try {
+        const config: MapperConfig = configFilePath ? loadConfig(configFilePath) : {};
+        const options = { classification: config.classification, grouping: config.grouping, libraries: config.libraries };
+        const before = await loadSnapshot(snapshotPaths[0], options);
+        const after = await loadSnapshot(snapshotPaths[1], options);
+        diff = diffReports(before, after, snapshotPaths[0], snapshotPaths[1]);
+    } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+    }
+    
+    ensureDirectory(path.dirname(outputFilePath));
+    fs.writeFileSync(outputFilePath, format === 'json' ? JSON.stringify(diff, null, 2) + '\n' : createDiffMarkdown(diff));
+    console.log(`${hasChanges(diff) ? 'Changes' : 'No changes'} found, written to ${outputFilePath}`);
+}
+
+// Run a command querying the dependency graph: parse its arguments, read the inputs and write the
+// result as text or JSON, to the console unless an output file is given
+async function runGraphQuery<T>(
+    args: string[],
+    usage: string,
+    command: string,
+    // What the first argument names, e.g. "a pattern"
+    subject: string,
+    // Throws when the first argument is invalid, before any input is read
+    validate: (value: string) => void,
+    query: (extractor: PackageDependencyExtractor, value: string, maxDepth: number | undefined) => T,
+    createText: (result: T) => string
+): Promise<void> {
+    if (args.includes('--help') || args.includes('-h')) {
+        console.log(usage);
+        process.exit(0);
+    }
+    
+    const positional: string[] = [];
+    let outputFilePath = '';
+    let format = 'text';
+    const modelOptions: ModelOptions = { configFilePath: '', internalPatterns: [], externalPatterns: [], keepInnerClasses: false };
+    let maxDepth: number | undefined;
+    
+    const readOptionValue = (i: number, option: string): string => {
+        if (i + 1 >= args.length) {
+            console.error(`Error: Missing value for ${option} parameter`);
+            console.error(usage);
+            process.exit(1);
+        }
+        return args[i + 1];
+    };
+    
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--output' || args[i] === '-o') {
+            outputFilePath = readOptionValue(i, '--output');
+            i++;
+        } else if (args[i] === '--format' || args[i] === '-f') {
+            format = readOptionValue(i, '--format').toLowerCase();
+            i++;
+            
+            if (format !== 'text' && format !== 'json') {
+                console.error(`Error: Unknown ${command} format '${format}'`);
+                console.error(usage);
+                process.exit(1);
+            }
+        } else if (MODEL_OPTIONS.includes(args[i])) {
+            i += readModelOption(args, i, modelOptions, readOptionValue, usage);
+        } else if (args[i] === '--max-depth') {
+            maxDepth = Number(readOptionValue(i, '--max-depth'));
+            i++;
+            
+            try {
+                checkMaxDepth(maxDepth);
+            } catch (error) {
+                console.error(`Error: ${error instanceof Error ? error.message : error}`);
+                console.error(usage);
+                process.exit(1);
+            }
+        } else {
+            positional.push(args[i]);
+        }
+    }
+    
+    if (positional.length < 2) {
+        console.error(`Error: ${command} needs ${subject} and at least one input`);
+        console.error(usage);
+        process.exit(1);
+    }
+    
+    let output: string;
+    try {
+        validate(positional[0]);
+        const inputFiles = resolveInputFiles(positional.slice(1));
+        const config: MapperConfig = modelOptions.configFilePath ? loadConfig(modelOptions.configFilePath) : {};
+        const extractor = new PackageDependencyExtractor(undefined, {
+            ...createModelSettings(config, modelOptions),
+            libraries: config.libraries
+        });
+        for (const inputFile of inputFiles) {
+            await extractor.parseJsonlFile(inputFile);
+        }
+        const result = query(extractor, positional[0], maxDepth);
+        output = format === 'json' ? JSON.stringify(result, null, 2) + '\n' : createText(result);
+    } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+    }
+    
+    if (outputFilePath) {
+        ensureDirectory(path.dirname(outputFilePath));
+        fs.writeFileSync(outputFilePath, output);
+        console.log(`Result written to ${outputFilePath}`);
+    } else {
+        process.stdout.write(output);
+    }
+}
+
+const GRAPH_QUERY_OPTIONS = `  --format, -f <fmt>   Output format: text or json (default: text)
+  --output, -o <file>  Write the result to a file instead of the console
+  --config, -c <file>  Read classification, grouping and library settings from a JSON configuration file
+  --internal <patterns>  Comma-separated package patterns to treat as internal (e.g. com.acme,org.acme.*)
+  --external <patterns>  Comma-separated package patterns to treat as external
+  --depth <n>          Group all packages into base packages of n segments, replacing the built-in depths
+  --keep-inner-classes  Count nested and anonymous classes (Outer$Inner) separately instead of as their outer class
+  --help, -h           Display this help information
+`;
+
+// List the internal classes and methods depending on a class, package or prefix
+async function runQuery(args: string[]): Promise<void> {
+    const usage = `Usage: java-dependency-mapper query <pattern> <input>... [options]
+
+Lists every internal class and method that calls the classes matching the pattern, directly
+or through other internal methods. The pattern is a class, package or prefix such as
+org.apache.struts or com.acme.*Dao; * matches within a package segment and ** any number of segments.
+
+Options:
+  --max-depth <n>      Follow at most n calls back from the matched classes (default: no limit; 1 lists direct callers)
+${GRAPH_QUERY_OPTIONS}`;
+    
+    await runGraphQuery(args, usage, 'query', 'a pattern',
+        pattern => compileQueryPattern(pattern),
+        (extractor, pattern, maxDepth) => extractor.findDependents(pattern, { maxDepth }),
+        createDependencyQueryText);
+}
+
+// List every package an internal package reaches through its class dependencies
+async function runReach(args: string[]): Promise<void> {
+    const usage = `Usage: java-dependency-mapper reach <package> <input>... [options]
+
+Lists every package the internal classes of a package (and its sub-packages) depend on, directly
+or through other internal classes, each with the shortest chain of classes leading to it. The
+package may be a package pattern such as com.acme.*.web.
+
+Options:
+  --max-depth <n>      Follow at most n class dependencies (default: no limit; 1 lists direct dependencies)
+${GRAPH_QUERY_OPTIONS}`;
+    
+    await runGraphQuery(args, usage, 'reach', 'a package',
+        packageName => compilePackagePattern(packageName),
+        (extractor, packageName, maxDepth) => extractor.findTransitiveDependencies(packageName, { maxDepth }),
+        createTransitiveDependenciesText);
+}
+
+// List the internal packages affected by changing or removing a class, package or library
+async function runImpact(args: string[]): Promise<void> {
+    const usage = `Usage: java-dependency-mapper impact <target> <input>... [options]
+
+Lists the blast radius of changing or removing the target: every internal package whose classes
+depend on it, directly or through other internal classes, each with the shortest chain of classes
+leading to it. The target is a class, package or prefix (as for query, e.g. cryptix) or the Maven
+coordinates of a catalogued library (e.g. log4j:log4j).
+
+Options:
+  --max-depth <n>      Follow at most n class dependencies back from the target (default: no limit; 1 lists direct dependents)
+${GRAPH_QUERY_OPTIONS}`;
+    
+    await runGraphQuery(args, usage, 'impact', 'a target',
+        target => {
+            // Library coordinates are checked against the configured catalog once it's loaded
+            if (!target.includes(':')) {
+                compileQueryPattern(target);
+            }
+        },
+        (extractor, target, maxDepth) => extractor.findImpact(target, { maxDepth }),
+        createImpactText);
+}
+
+async function main() {
+    // Define usage information
+    const usage = `Usage: java-dependency-mapper <input>... [options]
+       java-dependency-mapper diff <before> <after> [options]  (see diff --help)
+       java-dependency-mapper query <pattern> <input>... [options]  (see query --help)
+       java-dependency-mapper reach <package> <input>... [options]  (see reach --help)
+       java-dependency-mapper impact <target> <input>... [options]  (see impact --help)
+
+Inputs are JSONL files, directories (all .jsonl files below them) or quoted glob patterns
+such as "exports/**/*.jsonl". Records are grouped into applications by appSetName and
+applicationName; with more than one application, one report per application and a portfolio
+summary are written to the output directory.
+
+Options:
+  --output, -o <path>  Output file path (default: package-dependencies.<md|json|dot|html> for the format),
+                       or output directory with more than one application (default: package-dependencies)
+  --format, -f <fmt>   Output format: markdown, json, dot or html (default: markdown)
+  --diagram-level <level>  Graph drawn by the dot format and the Markdown diagram: base-package or package (default: base-package)
+  --hide-external      Leave external packages out of diagrams
+  --dsm <file>         Also write the dependency structure matrix of the diagram graph, as CSV (.csv), HTML (.html)
+                       or Markdown (any other extension); named <application>-dsm.<ext> with more than one application
+  --libraries, -l <libs>  Comma-separated list of libraries to count (default: struts,commons,log4j,cryptix)
+  --config, -c <file>  Read settings from a JSON configuration file
+  --advisories <file>  Match the advisories in a local OSV-style JSON file against the called code
+  --internal <patterns>  Comma-separated package patterns to treat as internal (e.g. com.acme,org.acme.*)
+  --external <patterns>  Comma-separated package patterns to treat as external
+  --depth <n>          Group all packages into base packages of n segments, replacing the built-in depths
+  --keep-inner-classes  Count nested and anonymous classes (Outer$Inner) separately instead of as their outer class
+  --sort-metrics <metric>  Sort the coupling metrics by afferent, efferent, instability or external-ratio (default: efferent)
+  --top <n>            Number of packages listed as metric hotspots (default: 10)
+  --target-jdk <n>     Check the called JDK APIs for removals and encapsulation up to JDK n (e.g. 17)
+  --fail-on-cycles     Exit with a non-zero status if cycles between internal packages are found
+  --strict             Abort at the first input line that isn't a valid dependency record
+  --max-errors <n>     Number of invalid input lines printed before the rest are only counted (default: 20)
+  --help, -h           Display this help information
+
+The exit status is non-zero when architecture rules from the configuration file are violated.
+`;
+    
+    // Parse command line arguments
+    const args = process.argv.slice(2);
+    
+    if (args[0] === 'diff') {
+        await runDiff(args.slice(1));
+        return;
+    }
+    if (args[0] === 'query') {
+        await runQuery(args.slice(1));
+        return;
+    }
+    if (args[0] === 'reach') {
+        await runReach(args.slice(1));
+        return;
+    }
+    if (args[0] === 'impact') {
+        await runImpact(args.slice(1));
+        return;
+    }
+    
+    // Check for help flag first
+    if (args.includes('--help') || args.includes('-h')) {
+        console.log(usage);
+        process.exit(0);
+    }
+    
+    // Check command line arguments
+    if (args.length < 1) {
+        console.error('Error: Missing input file path');
+        console.error(usage);
+        process.exit(1);
+    }
+
+    // Parse command line arguments
+    const inputPaths: string[] = [];
+    let outputFilePath = ''; // Defaults to package-dependencies.<ext> for the chosen format
+    let format = 'markdown';
+    let librariesToCount = ''; // Default is undefined, will use defaults in the constructor
+    let failOnCycles = false;
+    const diagramOptions: DiagramOptions = {};
+    let dsmFilePath = '';
+    const modelOptions: ModelOptions = { configFilePath: '', internalPatterns: [], externalPatterns: [], keepInnerClasses: false };
+    let advisoriesFilePath = '';
+    const metrics: MetricsOptions = {};
+    let targetJdk: number | undefined;
+    const readOptions: ReadOptions = {};
+    
+    // Read the value following the option at index i, exiting with usage information if it is missing
+    const readOptionValue = (i: number, option: string): string => {
+        if (i + 1 >= args.length) {
+            console.error(`Error: Missing value for ${option} parameter`);
+            console.error(usage);
+            process.exit(1);
+        }
+        return args[i + 1];
+    };
+    
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--output' || args[i] === '-o') {
+            outputFilePath = readOptionValue(i, '--output');
+            i++; // Skip the next argument as we've already processed it
+        } else if (args[i] === '--libraries' || args[i] === '-l') {
+            librariesToCount = readOptionValue(i, '--libraries');
+            i++;
+        } else if (args[i] === '--format' || args[i] === '-f') {
+            format = readOptionValue(i, '--format').toLowerCase();
+            i++;
+            
+            if (!(format in OUTPUT_FORMATS)) {
+                console.error(`Error: Unknown output format '${format}'`);
+                console.error(usage);
+                process.exit(1);
+            }
+        } else if (args[i] === '--diagram-level') {
+            const level = readOptionValue(i, '--diagram-level');
+            i++;
+            
+            if (level !== 'base-package' && level !== 'package') {
+                console.error(`Error: Unknown diagram level '${level}'`);
+                console.error(usage);
+                process.exit(1);
+            }
+            diagramOptions.level = level;
+        } else if (args[i] === '--hide-external') {
+            diagramOptions.includeExternal = false;
+        } else if (args[i] === '--dsm') {
+            dsmFilePath = readOptionValue(i, '--dsm');
+            i++;
+        } else if (MODEL_OPTIONS.includes(args[i])) {
+            i += readModelOption(args, i, modelOptions, readOptionValue, usage);
+        } else if (args[i] === '--advisories') {
+            advisoriesFilePath = readOptionValue(i, '--advisories');
+            i++;
+        } else if (args[i] === '--sort-metrics') {
+            const metric = readOptionValue(i, '--sort-metrics');
+            i++;
+            
+            if (!METRIC_NAMES.includes(metric as MetricName)) {
+                console.error(`Error: Unknown metric '${metric}'`);
+                console.error(usage);
+                process.exit(1);
+            }
+            metrics.sortBy = metric as MetricName;
+        } else if (args[i] === '--top') {
+            const value = readOptionValue(i, '--top');
+            i++;
+            
+            metrics.top = Number(value);
+            if (!Number.isInteger(metrics.top) || metrics.top < 1) {
+                console.error(`Error: Invalid number of hotspots '${value}', must be a positive integer`);
+                console.error(usage);
+                process.exit(1);
+            }
+        } else if (args[i] === '--target-jdk') {
+            const value = readOptionValue(i, '--target-jdk');
+            i++;
+            
+            targetJdk = Number(value);
+            if (!Number.isInteger(targetJdk) || targetJdk < MIN_TARGET_JDK) {
+                console.error(`Error: Invalid target JDK '${value}', must be a release number of ${MIN_TARGET_JDK} or later`);
+                console.error(usage);
+                process.exit(1);
+            }
+        } else if (args[i] === '--fail-on-cycles') {
+            failOnCycles = true;
+        } else if (args[i] === '--strict') {
+            readOptions.strict = true;
+        } else if (args[i] === '--max-errors') {
+            const value = readOptionValue(i, '--max-errors');
+            i++;
+            
+            readOptions.maxErrors = Number(value);
+            if (!Number.isInteger(readOptions.maxErrors) || readOptions.maxErrors < 0) {
+                console.error(`Error: Invalid error limit '${value}', must be a non-negative integer`);
+                console.error(usage);
+                process.exit(1);
+            }
+        } else {
+            // Every non-flag argument is an input file, directory or glob pattern
+            inputPaths.push(args[i]);
+        }
+    }
+    
+    // Validate input file path
+    if (inputPaths.length === 0) {
+        console.error('Error: Missing input file path');
+        console.error(usage);
+        process.exit(1);
+    }
+    
+    let inputFiles: string[];
+    try {
+        inputFiles = resolveInputFiles(inputPaths);
+    } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+    }
+    
+    // Load the configuration file; patterns given on the command line are added to its patterns
+    let config: MapperConfig = {};
+    if (modelOptions.configFilePath) {
+        try {
+            config = loadConfig(modelOptions.configFilePath);
+        } catch (error) {
+            console.error(`Error: ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    }
+    let advisories: Advisory[] = [];
+    if (advisoriesFilePath) {
+        try {
+            advisories = loadAdvisories(advisoriesFilePath);
+        } catch (error) {
+            console.error(`Error: ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    }
+    
+    // Create one extractor per application, with libraries to count (if specified)
+    const extractorOptions = { ...createModelSettings(config, modelOptions), libraries: config.libraries, advisories, rules: config.rules, metrics, targetJdk };
+    let portfolio: PortfolioAnalyzer;
+    try {
+        portfolio = new PortfolioAnalyzer(librariesToCount, extractorOptions);
+    } catch (error) {
+        // Invalid package patterns or grouping rules
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+    }
+    
+    console.log(`Parsing dependencies from ${inputFiles.join(', ')}...`);
+    try {
+        await portfolio.parseJsonlFiles(inputFiles, readOptions);
+    } catch (error) {
+        // An invalid line in strict mode
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+    }
+    console.log(formatInputSummary(portfolio.getInputSummary()!));
+    
+    const applications = portfolio.getApplications();
+    if (applications.length > 1) {
+        // One report per application plus the portfolio summary, all in the output directory
+        const outputDirectory = outputFilePath || 'package-dependencies';
+        ensureDirectory(outputDirectory);
+        const fileNames = toFileNames(applications.map(application => application.name));
+        // Build each application's result once for its reports and the violation count
+        let violationCount = 0;
+        applications.forEach(application => {
+            const result = application.extractor.getResult();
+            const reportPath = path.join(outputDirectory, `${fileNames.get(application.name)}.${OUTPUT_FORMATS[format]}`);
+            writeReport(application.extractor, result, format, reportPath, diagramOptions);
+            violationCount += result.ruleViolations.length;
+            if (dsmFilePath) {
+                const dsmPath = path.join(outputDirectory, `${fileNames.get(application.name)}-dsm${path.extname(dsmFilePath)}`);
+                application.extractor.generateDsmOutput(dsmPath, diagramOptions, result);
+            }
+        });
+        
+        const summaryPath = path.join(outputDirectory, format === 'json' ? 'portfolio.json' : 'portfolio.md');
+        fs.writeFileSync(summaryPath, format === 'json'
+            ? JSON.stringify(portfolio.getSummary(), null, 2) + '\n'
+            : portfolio.generateSummaryMarkdown());
+        console.log(`\nPortfolio summary of ${applications.length} applications written to ${summaryPath}`);
+        
+        if (violationCount > 0) {
+            console.error(`\nError: ${violationCount} architecture rule violations found (see the Architecture Rule Violations section of the application reports)`);
+        }
+        if (failOnCycles && applications.some(application => application.extractor.hasInternalPackageCycles())) {
+            console.error('\nError: Cycles between internal packages found (see the Cycles section of the application reports)');
+            process.exit(1);
+        }
+        if (violationCount > 0) {
+            process.exit(1);
+        }
+        return;
+    }
+    
+    // A single application (or no records at all) gets a single report
+    const extractor = applications.length === 1
+        ? applications[0].extractor
+        : new PackageDependencyExtractor(librariesToCount, extractorOptions);
+    if (!outputFilePath) {
+        outputFilePath = `package-dependencies.${OUTPUT_FORMATS[format]}`;
+    }
+    ensureDirectory(path.dirname(outputFilePath));
+    
+    // Build the result once for the reports and the summary below
+    const result = extractor.getResult();
+    writeReport(extractor, result, format, outputFilePath, diagramOptions);
+    if (dsmFilePath) {
+        ensureDirectory(path.dirname(dsmFilePath));
+        extractor.generateDsmOutput(dsmFilePath, diagramOptions, result);
+    }
+    
+    // Log which libraries were counted
+    console.log(`\nCounted the following libraries: ${extractor.getLibrariesToCount().join(', ')}`);
+    
+    // Log the library counts to console
+    console.log('\nSpecific Library Counts:');
+    const libraryCounts = result.libraryCounts;
+    Object.keys(libraryCounts).forEach(library => {
+        console.log(`- ${library.charAt(0).toUpperCase() + library.slice(1)}: ${libraryCounts[library]}`);
+    });
+    
+    if (advisories.length > 0) {
+        const findings = result.advisoryFindings;
+        console.log(`\nAdvisory findings: ${findings.length} of ${advisories.length} advisories reach internal code`);
+        findings.forEach(finding => console.log(`- ${finding.id}: ${finding.callSites.length} call sites`));
+    }
+    
+    const cloudReadiness = result.cloudReadiness;
+    console.log(`\nCloud readiness: containerization effort ${cloudReadiness.score}/100 (${cloudReadiness.rating})`);
+    
+    const jdkCompatibility = result.jdkCompatibility;
+    if (jdkCompatibility) {
+        console.log(`\nJDK ${jdkCompatibility.targetJdk} compatibility: ${jdkCompatibility.findings.length} changed APIs called from internal code`);
+        jdkCompatibility.findings.forEach(finding => console.log(`- ${finding.api}: ${finding.change} in JDK ${finding.since}, ${finding.callSites.length} call sites`));
+    }
+    
+    const violations = result.ruleViolations;
+    if (violations.length > 0) {
+        console.error(`\nError: ${violations.length} architecture rule violations found (see the Architecture Rule Violations section of the report)`);
+        violations.forEach(violation => console.error(`- ${violation.source} -> ${violation.target}: ${violation.rule}`));
+    }
+    
+    if (failOnCycles && extractor.hasInternalPackageCycles()) {
+        console.error('\nError: Cycles between internal packages found (see the Cycles section of the report)');
+        process.exit(1);
+    }
+    if (violations.length > 0) {
+        process.exit(1);
+    }
+}
+
+main().catch(error => {
+    console.error('Error:', error);
+    process.exit(1);
+});
@@ -0,0 +1,180 @@
+import { PackageDependencyResult, MethodCallSite, getPackageName } from './package-dependencies';
+import { isWithinPackage } from './classification';
+
+// A kind of dependency that ties an application to its application server or host
+export interface CloudReadinessCategory {
+    id: string;
+    name: string;
+    // Why the dependency makes containerization harder
+    description: string;
+    // Called code in the category: package prefixes, fully qualified classes and methods as `Class#method`
+    packages?: string[];
+    classes?: string[];
+    methods?: string[];
+    // Package prefixes left out of the category, e.g. libraries living below a vendor's packages
+    excludedPackages?: string[];
+    // Points added for each internal class using the category
+    weight: number;
+}
+
+export const BUILT_IN_CLOUD_READINESS_CATEGORIES: CloudReadinessCategory[] = [
+    {
+        id: 'server-apis',
+        name: 'Application Server APIs',
+        description: 'Vendor-specific APIs of WebSphere, WebLogic or JBoss/WildFly only work inside that server',
+        packages: ['com.ibm.websphere', 'com.ibm.ws', 'com.ibm.wsspi', 'com.ibm.ejs', 'weblogic', 'org.jboss', 'org.wildfly'],
+        // JBoss Logging is an ordinary library used by Hibernate and others
+        excludedPackages: ['org.jboss.logging'],
+        weight: 5
+    },
+    {
+        id: 'remote-ejb',
+        name: 'Remote EJBs',
+        description: 'EJB 2 homes and remote interfaces need RMI-IIOP and a server-side naming service',
+        packages: ['javax.rmi', 'org.omg'],
+        classes: [
+            'javax.ejb.EJBHome', 'javax.ejb.EJBObject', 'javax.ejb.EJBMetaData', 'javax.ejb.Handle', 'javax.ejb.HomeHandle',
+            'jakarta.ejb.EJBHome', 'jakarta.ejb.EJBObject', 'jakarta.ejb.EJBMetaData', 'jakarta.ejb.Handle', 'jakarta.ejb.HomeHandle'
+        ],
+        weight: 4
+    },
+    {
+        id: 'jndi',
+        name: 'JNDI Lookups',
+        description: 'Resources looked up in the server\'s naming service have to be replaced by configuration or injection',
+        packages: ['javax.naming'],
+        weight: 2
+    },
+    {
+        id: 'jms',
+        name: 'JMS Messaging',
+        description: 'Queues and topics are usually provided by the server and need an external broker',
+        packages: ['javax.jms', 'jakarta.jms'],
+        weight: 2
+    },
+    {
+        id: 'file-system',
+        name: 'File System Access',
+        description: 'Containers have an ephemeral file system, so files written locally are lost or not shared between instances',
+        classes: [
+            'java.io.File', 'java.io.FileInputStream', 'java.io.FileOutputStream', 'java.io.FileReader', 'java.io.FileWriter',
+            'java.io.RandomAccessFile', 'java.nio.file.Files', 'java.nio.file.Paths', 'java.nio.file.FileSystems'
+        ],
+        weight: 1
+    }
+];
+
+// Internal classes counted per category; more classes add no further points
+export const MAX_CLASSES_PER_CATEGORY = 5;
+
+// How much work containerizing an application is likely to be
+export type CloudReadinessRating = 'none' | 'low' | 'medium' | 'high';
+
+// A category used by internal code
+export interface CloudReadinessFinding {
+    category: string;
+    name: string;
+    description: string;
+    // Internal classes using the category, sorted
+    internalClasses: string[];
+    // Internal call sites, sorted
+    callSites: MethodCallSite[];
+    points: number;
+}
+
+export interface CloudReadiness {
+    // 0 (no coupling found) to 100 (every category used by many classes)
+    score: number;
+    rating: CloudReadinessRating;
+    // Findings in category order
+    findings: CloudReadinessFinding[];
+}
+
+function isInCategory(category: CloudReadinessCategory, className: string, methodName: string): boolean {
+    const packageName = getPackageName(className);
+    if ((category.excludedPackages ?? []).some(prefix => isWithinPackage(packageName, prefix))) {
+        return false;
+    }
+    return (category.packages ?? []).some(prefix => isWithinPackage(packageName, prefix)) ||
+        (category.classes ?? []).includes(className) ||
+        (category.methods ?? []).includes(`${className}#${methodName}`);
+}
+
+export function getCloudReadinessRating(score: number): CloudReadinessRating {
+    if (score === 0) {
+        return 'none';
+    }
+    return score < 20 ? 'low' : score < 50 ? 'medium' : 'high';
+}
+
+// Find the internal code coupled to the application server or host and score it. Each category
+// adds its weight for every internal class using it (up to MAX_CLASSES_PER_CATEGORY classes);
+// the score is the share of the maximum possible points.
+export function findCloudReadiness(
+    result: PackageDependencyResult,
+    categories: CloudReadinessCategory[] = BUILT_IN_CLOUD_READINESS_CATEGORIES
+): CloudReadiness {
+    const findings: CloudReadinessFinding[] = [];
+    categories.forEach(category => {
+        const callSites: MethodCallSite[] = [];
+        result.externalMethodUsage.forEach(classUsage => {
+            classUsage.methods.forEach(method => {
+                if (isInCategory(category, classUsage.className, method.methodName)) {
+                    callSites.push(...method.callers);
+                }
+            });
+        });
+        if (callSites.length === 0) {
+            return;
+        }
+
+        const internalClasses = Array.from(new Set(callSites.map(callSite => callSite.sourceClass))).sort();
+        findings.push({
+            category: category.id,
+            name: category.name,
+            description: category.description,
+            internalClasses,
+            callSites: callSites.sort((a, b) =>
+                a.sourceClass.localeCompare(b.sourceClass) ||
+                a.sourceMethod.localeCompare(b.sourceMethod) ||
+                a.targetClass.localeCompare(b.targetClass) ||
+                a.targetMethod.localeCompare(b.targetMethod)),
+            points: category.weight * Math.min(internalClasses.length, MAX_CLASSES_PER_CATEGORY)
+        });
+    });
+
+    const maximum = categories.reduce((total, category) => total + category.weight * MAX_CLASSES_PER_CATEGORY, 0);
+    const points = findings.reduce((total, finding) => total + finding.points, 0);
+    const score = maximum > 0 ? Math.round(100 * points / maximum) : 0;
+    return { score, rating: getCloudReadinessRating(score), findings };
+}
+
+// Generate the "Cloud Readiness" section of a report
+export function createCloudReadinessMarkdown(readiness: CloudReadiness): string {
+    let markdownContent = '## Cloud Readiness\n\n';
+    markdownContent += `Containerization effort: **${readiness.score}/100 (${readiness.rating})**. Each category of ` +
+        `application server or host coupling adds its weight for every internal class using it, counting up to ` +
+        `${MAX_CLASSES_PER_CATEGORY} classes per category.\n\n`;
+    if (readiness.findings.length === 0) {
+        return markdownContent + '*No application server or host coupling found.*\n\n';
+    }
+
+    markdownContent += '| Category | Internal Classes | Call Sites | Points |\n';
+    markdownContent += '|----------|------------------|------------|--------|\n';
+    readiness.findings.forEach(finding => {
+        markdownContent += `| ${finding.name} | ${finding.internalClasses.length} | ${finding.callSites.length} | ${finding.points} |\n`;
+    });
+    markdownContent += '\n';
+
+    readiness.findings.forEach(finding => {
+        markdownContent += `### ${finding.name}\n\n${finding.description}.\n\n`;
+        finding.internalClasses.forEach(className => {
+            const calls = Array.from(new Set(finding.callSites
+                .filter(callSite => callSite.sourceClass === className)
+                .map(callSite => `\`${callSite.targetClass}#${callSite.targetMethod}\``)));
+            markdownContent += `- \`${className}\`: ${calls.join(', ')}\n`;
+        });
+        markdownContent += '\n';
+    });
+    return markdownContent;
+}
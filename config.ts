@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import { ClassificationOptions } from './classification';
+import { GroupingOptions } from './grouping';
+import { LibraryDefinition } from './library-catalog';
+import { ArchitectureRule } from './architecture-rules';
+
+// Settings that can be read from a JSON configuration file with --config
+export interface MapperConfig {
+    classification?: ClassificationOptions;
+    grouping?: GroupingOptions;
+    // Libraries added to the built-in library catalog
+    libraries?: LibraryDefinition[];
+    // Dependency rules checked against the package graphs
+    rules?: ArchitectureRule[];
+}
+
+function assertStringArray(value: unknown, name: string): void {
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        throw new Error(`'${name}' must be an array of strings`);
+    }
+}
+
+function assertRecordOf(value: unknown, name: string, valueType: 'string' | 'number'): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value) ||
+        !Object.values(value).every(item => typeof item === valueType)) {
+        throw new Error(`'${name}' must be an object with ${valueType} values`);
+    }
+}
+
+// Check the structure of a parsed configuration object, throwing on the first problem found
+export function validateConfig(config: unknown): MapperConfig {
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        throw new Error('Configuration must be a JSON object');
+    }
+
+    const { classification, grouping, libraries, rules } = config as MapperConfig;
+    if (classification !== undefined) {
+        if (typeof classification !== 'object' || classification === null) {
+            throw new Error("'classification' must be an object");
+        }
+        if (classification.internal !== undefined) {
+            assertStringArray(classification.internal, 'classification.internal');
+        }
+        if (classification.external !== undefined) {
+            assertStringArray(classification.external, 'classification.external');
+        }
+    }
+
+    if (grouping !== undefined) {
+        if (typeof grouping !== 'object' || grouping === null) {
+            throw new Error("'grouping' must be an object");
+        }
+        if (grouping.defaultDepth !== undefined && typeof grouping.defaultDepth !== 'number') {
+            throw new Error("'grouping.defaultDepth' must be a number");
+        }
+        if (grouping.depths !== undefined) {
+            assertRecordOf(grouping.depths, 'grouping.depths', 'number');
+        }
+        if (grouping.aliases !== undefined) {
+            assertRecordOf(grouping.aliases, 'grouping.aliases', 'string');
+        }
+        if (grouping.useBuiltInDepths !== undefined && typeof grouping.useBuiltInDepths !== 'boolean') {
+            throw new Error("'grouping.useBuiltInDepths' must be a boolean");
+        }
+    }
+
+    if (libraries !== undefined) {
+        if (!Array.isArray(libraries)) {
+            throw new Error("'libraries' must be an array");
+        }
+        libraries.forEach((library, index) => {
+            const name = `libraries[${index}]`;
+            if (typeof library !== 'object' || library === null) {
+                throw new Error(`'${name}' must be an object`);
+            }
+            (['groupId', 'artifactId', 'name', 'license'] as const).forEach(field => {
+                if (typeof library[field] !== 'string') {
+                    throw new Error(`'${name}.${field}' must be a string`);
+                }
+            });
+            assertStringArray(library.packages, `${name}.packages`);
+        });
+    }
+
+    if (rules !== undefined) {
+        if (!Array.isArray(rules)) {
+            throw new Error("'rules' must be an array");
+        }
+        rules.forEach((rule, index) => {
+            const name = `rules[${index}]`;
+            if (typeof rule !== 'object' || rule === null) {
+                throw new Error(`'${name}' must be an object`);
+            }
+            if (rule.name !== undefined && typeof rule.name !== 'string') {
+                throw new Error(`'${name}.name' must be a string`);
+            }
+            if (rule.type !== undefined && rule.type !== 'forbidden' && rule.type !== 'only') {
+                throw new Error(`'${name}.type' must be 'forbidden' or 'only'`);
+            }
+            if (rule.level !== undefined && rule.level !== 'package' && rule.level !== 'base-package') {
+                throw new Error(`'${name}.level' must be 'package' or 'base-package'`);
+            }
+            if (rule.from !== undefined) {
+                assertStringArray(rule.from, `${name}.from`);
+            }
+            assertStringArray(rule.to, `${name}.to`);
+        });
+    }
+
+    return config as MapperConfig;
+}
+
+// Load and validate a JSON configuration file
+export function loadConfig(filePath: string): MapperConfig {
+    let config: unknown;
+    try {
+        config = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Could not read configuration file '${filePath}': ${error instanceof Error ? error.message : error}`);
+    }
+
+    try {
+        return validateConfig(config);
+    } catch (error) {
+        throw new Error(`Invalid configuration file '${filePath}': ${error instanceof Error ? error.message : error}`);
+    }
+}
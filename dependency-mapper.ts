@@ -0,0 +1,220 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import { DependencyRecord } from './types';
+import { ReadOptions, readJsonlRecords } from './jsonl-input';
+import { ClassNameOptions, normalizeClassName } from './class-names';
+import { DependencyGraph, findStronglyConnectedComponents } from './graph-utils';
+
+// Summary statistics for the class graph
+export interface DependencyStatistics {
+    totalComponents: number;
+    totalArtifacts: number;
+    totalDependencies: number;
+}
+
+// A class together with the number of distinct classes that depend on it
+export interface DependedUponClass {
+    className: string;
+    dependents: number;
+}
+
+export class DependencyAnalyzer {
+    // sourceClass -> targetClasses
+    private classGraph: DependencyGraph = new Map();
+    // targetClass -> sourceClasses
+    private reverseClassGraph: DependencyGraph = new Map();
+    // Every class seen, in the order it was first encountered
+    private components: Set<string> = new Set();
+    // Class -> artifactId of the artifact that contains it (known for source classes only)
+    private classArtifactMap: Map<string, string> = new Map();
+    private artifacts: Set<string> = new Set();
+    private classNameOptions: ClassNameOptions;
+
+    constructor(classNameOptions: ClassNameOptions = {}) {
+        this.classNameOptions = classNameOptions;
+    }
+
+    async parseJsonlFile(filePath: string, options: ReadOptions = {}): Promise<void> {
+        for await (const record of readJsonlRecords(filePath, options)) {
+            this.processRecord(record);
+        }
+    }
+
+    private processRecord(record: DependencyRecord): void {
+        const sourceClass = normalizeClassName(record.sourceClass, this.classNameOptions);
+        const targetClass = normalizeClassName(record.targetClass, this.classNameOptions);
+        if (sourceClass === undefined) {
+            return;
+        }
+
+        this.components.add(sourceClass);
+
+        // The record's artifact is the one that contains the source class
+        this.artifacts.add(record.artifactId);
+        if (!this.classArtifactMap.has(sourceClass)) {
+            this.classArtifactMap.set(sourceClass, record.artifactId);
+        }
+
+        // Primitive types aren't classes, and a class calling its own methods is not a dependency
+        if (targetClass === undefined) {
+            return;
+        }
+        this.components.add(targetClass);
+        if (sourceClass === targetClass) {
+            return;
+        }
+
+        if (!this.classGraph.has(sourceClass)) {
+            this.classGraph.set(sourceClass, new Set());
+        }
+        this.classGraph.get(sourceClass)!.add(targetClass);
+
+        if (!this.reverseClassGraph.has(targetClass)) {
+            this.reverseClassGraph.set(targetClass, new Set());
+        }
+        this.reverseClassGraph.get(targetClass)!.add(sourceClass);
+    }
+
+    getStatistics(): DependencyStatistics {
+        let totalDependencies = 0;
+        this.classGraph.forEach(targets => {
+            totalDependencies += targets.size;
+        });
+
+        return {
+            totalComponents: this.components.size,
+            totalArtifacts: this.artifacts.size,
+            totalDependencies
+        };
+    }
+
+    // Get the classes with the most distinct dependents, most depended upon first
+    getMostDependedUponClasses(limit: number = 10): DependedUponClass[] {
+        return Array.from(this.components)
+            .map(className => ({
+                className,
+                dependents: this.reverseClassGraph.get(className)?.size ?? 0
+            }))
+            .sort((a, b) => b.dependents - a.dependents)
+            .slice(0, limit);
+    }
+
+    // Get the classes a given class depends on
+    getDependencies(className: string): string[] {
+        return Array.from(this.classGraph.get(className) ?? []).sort();
+    }
+
+    // Get the classes that depend on a given class
+    getDependents(className: string): string[] {
+        return Array.from(this.reverseClassGraph.get(className) ?? []).sort();
+    }
+
+    // Get artifact -> artifacts it depends on, based on which artifact contains each target class.
+    // Target classes that are not contained in any analyzed artifact (e.g. JDK classes) are ignored.
+    getArtifactDependencySummary(): Map<string, Set<string>> {
+        const summary = new Map<string, Set<string>>();
+
+        this.classGraph.forEach((targets, sourceClass) => {
+            const sourceArtifact = this.classArtifactMap.get(sourceClass);
+            if (!sourceArtifact) {
+                return;
+            }
+
+            targets.forEach(targetClass => {
+                const targetArtifact = this.classArtifactMap.get(targetClass);
+                if (targetArtifact && targetArtifact !== sourceArtifact) {
+                    if (!summary.has(sourceArtifact)) {
+                        summary.set(sourceArtifact, new Set());
+                    }
+                    summary.get(sourceArtifact)!.add(targetArtifact);
+                }
+            });
+        });
+
+        return summary;
+    }
+
+    // Find cycles in the class graph. Each cycle is the sorted list of classes
+    // in one strongly connected component.
+    findCycles(): string[][] {
+        return findStronglyConnectedComponents(this.classGraph);
+    }
+
+    printSummary(): void {
+        const statistics = this.getStatistics();
+        console.log('\nDependency Statistics:');
+        console.log(`Total components: ${statistics.totalComponents}`);
+        console.log(`Total artifacts: ${statistics.totalArtifacts}`);
+        console.log(`Total dependencies: ${statistics.totalDependencies}`);
+
+        console.log('\nTop 10 most depended upon classes:');
+        this.getMostDependedUponClasses(10).forEach((entry, index) => {
+            console.log(`${index + 1}. ${entry.className}: ${entry.dependents} dependents`);
+        });
+
+        console.log('\nArtifact Dependencies:');
+        const artifactDependencies = Array.from(this.getArtifactDependencySummary().entries())
+            .sort((a, b) => a[0].localeCompare(b[0]));
+        if (artifactDependencies.length === 0) {
+            console.log('No inter-artifact dependencies found.');
+        } else {
+            artifactDependencies.forEach(([artifact, targets]) => {
+                console.log(`${artifact} -> ${Array.from(targets).sort().join(', ')}`);
+            });
+        }
+
+        console.log('\nCycles in Dependencies:');
+        const cycles = this.findCycles();
+        if (cycles.length === 0) {
+            console.log('No cycles found.');
+        } else {
+            cycles.forEach((cycle, index) => {
+                console.log(`${index + 1}. ${cycle.join(' <-> ')}`);
+            });
+        }
+    }
+}
+
+async function main() {
+    const usage = `Usage: ts-node dependency-mapper.ts <jsonl-file-path>
+
+Options:
+  --keep-inner-classes  Count nested and anonymous classes (Outer$Inner) separately instead of as their outer class
+  --help, -h           Display this help information
+`;
+
+    const args = process.argv.slice(2);
+
+    if (args.includes('--help') || args.includes('-h')) {
+        console.log(usage);
+        process.exit(0);
+    }
+
+    const jsonlFilePath = args.find(arg => !arg.startsWith('-'));
+    if (!jsonlFilePath) {
+        console.error('Error: Missing input file path');
+        console.error(usage);
+        process.exit(1);
+    }
+
+    if (!fs.existsSync(jsonlFilePath)) {
+        console.error(`Error: Input file '${jsonlFilePath}' does not exist`);
+        process.exit(1);
+    }
+
+    const analyzer = new DependencyAnalyzer({ keepInnerClasses: args.includes('--keep-inner-classes') });
+
+    console.log(`Parsing dependencies from ${jsonlFilePath}...`);
+    await analyzer.parseJsonlFile(jsonlFilePath);
+
+    analyzer.printSummary();
+}
+
+// Only run the CLI when executed directly, so the analyzer can be imported as a library
+if (require.main === module) {
+    main().catch(error => {
+        console.error('Error:', error);
+        process.exitCode = 1;
+    });
+}
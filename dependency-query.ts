@@ -0,0 +1,163 @@
+import { MethodCallSite, PackageInfo, getPackageName } from './package-dependencies';
+
+// A query pattern names a class (`org.apache.struts.action.Action`), a package (`org.apache.struts`)
+// or a prefix of either, and matches the named class or package and everything below it, respecting
+// segment boundaries. Within a segment `*` matches any characters (`org.apache.*Action`); a `**`
+// segment matches any number of segments (`**.crypto`).
+const QUERY_SEGMENT_PATTERN = /^(\*\*|[A-Za-z0-9_$*]+)$/;
+
+// Compile a query pattern into a regular expression matching fully qualified class names
+export function compileQueryPattern(pattern: string): RegExp {
+    const segments = pattern.trim().split('.');
+    if (pattern.trim() === '' || !segments.every(segment => QUERY_SEGMENT_PATTERN.test(segment))) {
+        throw new Error(`Invalid query pattern '${pattern}'`);
+    }
+
+    const parts = segments.map(segment => {
+        if (segment === '**') {
+            return '[^.]+(?:\\.[^.]+)*';
+        }
+        return segment.replace(/\$/g, '\\$').replace(/\*/g, '[^.]*');
+    });
+
+    return new RegExp(`^${parts.join('\\.')}(?:\\..+)?$`);
+}
+
+// Check a depth limit of a query, which must be a positive integer when given
+export function checkMaxDepth(maxDepth: number | undefined): void {
+    if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 1)) {
+        throw new Error(`Invalid maximum depth ${maxDepth}, must be a positive integer`);
+    }
+}
+
+export interface DependencyQueryOptions {
+    // Number of call steps followed back from the matched classes; 1 finds the direct callers only.
+    // Without a limit every transitive caller is found.
+    maxDepth?: number;
+}
+
+// An internal method depending on the matched classes
+export interface DependentMethod {
+    className: string;
+    methodName: string;
+    // Fewest calls from the method to a matched class
+    depth: number;
+    // Methods one step closer to the matched classes that the method calls, as `Class#method`, sorted
+    calls: string[];
+}
+
+// An internal class with methods depending on the matched classes
+export interface DependentClass {
+    className: string;
+    // Lowest depth of its methods
+    depth: number;
+    // Names of the dependent methods, sorted
+    methods: string[];
+}
+
+export interface DependencyQueryResult {
+    pattern: string;
+    maxDepth?: number;
+    // Called classes matching the pattern, sorted
+    matchedClasses: string[];
+    // Dependents sorted by depth, then by name
+    classes: DependentClass[];
+    methods: DependentMethod[];
+}
+
+// Find the internal methods calling the classes matching the pattern, directly or through other
+// internal methods. The search follows the recorded method calls backwards level by level, so each
+// method is found at its lowest depth; code matching the pattern itself is not a dependent.
+export function queryDependents(
+    callSites: MethodCallSite[],
+    packages: ReadonlyMap<string, PackageInfo>,
+    pattern: string,
+    options: DependencyQueryOptions = {}
+): DependencyQueryResult {
+    const matcher = compileQueryPattern(pattern);
+    const maxDepth = options.maxDepth;
+    checkMaxDepth(maxDepth);
+    const isInternal = (className: string) => !packages.get(getPackageName(className))?.isExternal;
+
+    // "targetClass#targetMethod" -> call sites of the method
+    const callers = new Map<string, MethodCallSite[]>();
+    const matchedClasses = new Set<string>();
+    let frontier: string[] = [];
+    callSites.forEach(callSite => {
+        const target = `${callSite.targetClass}#${callSite.targetMethod}`;
+        if (!callers.has(target)) {
+            callers.set(target, []);
+            if (matcher.test(callSite.targetClass)) {
+                matchedClasses.add(callSite.targetClass);
+                frontier.push(target);
+            }
+        }
+        callers.get(target)!.push(callSite);
+    });
+
+    const found = new Map<string, DependentMethod>();
+    for (let depth = 1; frontier.length > 0 && (maxDepth === undefined || depth <= maxDepth); depth++) {
+        const next: string[] = [];
+        frontier.forEach(target => {
+            (callers.get(target) ?? []).forEach(callSite => {
+                if (!isInternal(callSite.sourceClass) || matcher.test(callSite.sourceClass)) {
+                    return;
+                }
+
+                const source = `${callSite.sourceClass}#${callSite.sourceMethod}`;
+                let method = found.get(source);
+                if (!method) {
+                    method = { className: callSite.sourceClass, methodName: callSite.sourceMethod, depth, calls: [] };
+                    found.set(source, method);
+                    next.push(source);
+                }
+                if (method.depth === depth && !method.calls.includes(target)) {
+                    method.calls.push(target);
+                }
+            });
+        });
+        frontier = next;
+    }
+
+    const methods = Array.from(found.values()).sort((a, b) =>
+        a.depth - b.depth || a.className.localeCompare(b.className) || a.methodName.localeCompare(b.methodName));
+    const classes = new Map<string, DependentClass>();
+    methods.forEach(method => {
+        method.calls.sort();
+        if (!classes.has(method.className)) {
+            classes.set(method.className, { className: method.className, depth: method.depth, methods: [] });
+        }
+        classes.get(method.className)!.methods.push(method.methodName);
+    });
+    classes.forEach(dependentClass => dependentClass.methods.sort());
+
+    return {
+        pattern,
+        maxDepth,
+        matchedClasses: Array.from(matchedClasses).sort(),
+        classes: Array.from(classes.values()).sort((a, b) => a.depth - b.depth || a.className.localeCompare(b.className)),
+        methods
+    };
+}
+
+// Describe the query result as plain text for the console
+export function createDependencyQueryText(result: DependencyQueryResult): string {
+    const depthLimit = result.maxDepth === undefined ? 'any depth' : `up to depth ${result.maxDepth}`;
+    let text = `Internal code depending on '${result.pattern}' (${depthLimit})\n`;
+    if (result.matchedClasses.length === 0) {
+        return text + `\nNo called classes match '${result.pattern}'.\n`;
+    }
+
+    text += `Matched classes: ${result.matchedClasses.length}\n`;
+    text += `Dependent classes: ${result.classes.length}, methods: ${result.methods.length}\n`;
+    result.classes.forEach(dependentClass => {
+        text += `\n${dependentClass.className} (depth ${dependentClass.depth})\n`;
+        result.methods
+            .filter(method => method.className === dependentClass.className)
+            .sort((a, b) => a.methodName.localeCompare(b.methodName))
+            .forEach(method => {
+                text += `  ${method.methodName} (depth ${method.depth}) -> ${method.calls.join(', ')}\n`;
+            });
+    });
+    return text;
+}
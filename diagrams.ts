@@ -0,0 +1,121 @@
+import { DependencyWeight, PackageDependencyResult, formatDependencyWeight, getDependencyWeight } from './package-dependencies';
+
+// Which graph to draw: base packages (e.g. `org.apache`) or full packages (e.g. `org.apache.struts.action`)
+export type DiagramLevel = 'base-package' | 'package';
+
+export interface DiagramOptions {
+    level?: DiagramLevel;
+    // Whether external packages are drawn (default: true)
+    includeExternal?: boolean;
+}
+
+export interface DiagramNode {
+    name: string;
+    isExternal: boolean;
+}
+
+export interface DiagramEdge {
+    source: string;
+    target: string;
+    weight: DependencyWeight;
+}
+
+export interface DiagramGraph {
+    nodes: DiagramNode[];
+    edges: DiagramEdge[];
+}
+
+// Select the nodes and weighted edges to draw for the requested level
+export function buildDiagramGraph(result: PackageDependencyResult, options: DiagramOptions): DiagramGraph {
+    const level = options.level ?? 'base-package';
+    const includeExternal = options.includeExternal ?? true;
+
+    const names = level === 'package'
+        ? Array.from(result.packages.keys()).filter(name => name !== '')
+        : Array.from(result.basePackages.keys());
+    const dependencies = level === 'package' ? result.dependencies : result.basePackageDependencies;
+    const weights = level === 'package' ? result.dependencyWeights : result.basePackageDependencyWeights;
+    const isExternal = (name: string) => level === 'package'
+        ? result.packages.get(name)!.isExternal
+        : result.externalBasePackages.has(name);
+
+    const nodes = names
+        .sort()
+        .map(name => ({ name, isExternal: isExternal(name) }))
+        .filter(node => includeExternal || !node.isExternal);
+    const nodeNames = new Set(nodes.map(node => node.name));
+
+    const edges: DiagramEdge[] = [];
+    nodes.forEach(node => {
+        Array.from(dependencies.get(node.name) ?? []).sort().forEach(target => {
+            if (nodeNames.has(target)) {
+                edges.push({
+                    source: node.name,
+                    target,
+                    weight: getDependencyWeight(weights, node.name, target)
+                });
+            }
+        });
+    });
+
+    return { nodes, edges };
+}
+
+// Line width grows with the logarithm of the call count so heavy edges stand out without dominating
+function edgeWidth(callCount: number): number {
+    return Math.round((1 + Math.log10(Math.max(callCount, 1))) * 10) / 10;
+}
+
+// Generate a Graphviz DOT digraph
+export function createDotDiagram(result: PackageDependencyResult, options: DiagramOptions = {}): string {
+    const graph = buildDiagramGraph(result, options);
+
+    let dot = 'digraph dependencies {\n';
+    dot += '    rankdir=LR;\n';
+    dot += '    node [shape=box, fontname="Helvetica"];\n';
+    dot += '    edge [fontname="Helvetica", fontsize=10];\n\n';
+
+    graph.nodes.forEach(node => {
+        const style = node.isExternal
+            ? 'style="filled,dashed", fillcolor="#eeeeee"'
+            : 'style=filled, fillcolor="#cfe2ff"';
+        dot += `    "${node.name}" [${style}];\n`;
+    });
+
+    if (graph.edges.length > 0) {
+        dot += '\n';
+    }
+    graph.edges.forEach(edge => {
+        dot += `    "${edge.source}" -> "${edge.target}" [label="${edge.weight.records}", penwidth=${edgeWidth(edge.weight.records)}, ` +
+            `tooltip="${formatDependencyWeight(edge.weight)}"];\n`;
+    });
+
+    dot += '}\n';
+    return dot;
+}
+
+// Generate a Mermaid flowchart (without the surrounding Markdown code fence)
+export function createMermaidDiagram(result: PackageDependencyResult, options: DiagramOptions = {}): string {
+    const graph = buildDiagramGraph(result, options);
+
+    // Mermaid node IDs can't contain dots, so nodes get generated IDs and use the package as label
+    const nodeIds = new Map<string, string>();
+    graph.nodes.forEach((node, index) => nodeIds.set(node.name, `n${index}`));
+
+    let mermaid = 'flowchart LR\n';
+    mermaid += '    classDef internal fill:#cfe2ff,stroke:#084298\n';
+    mermaid += '    classDef external fill:#eeeeee,stroke:#6c757d,stroke-dasharray:4 2\n';
+
+    graph.nodes.forEach(node => {
+        mermaid += `    ${nodeIds.get(node.name)}["${node.name}"]:::${node.isExternal ? 'external' : 'internal'}\n`;
+    });
+
+    graph.edges.forEach(edge => {
+        mermaid += `    ${nodeIds.get(edge.source)} -->|${edge.weight.records}| ${nodeIds.get(edge.target)}\n`;
+    });
+    graph.edges.forEach((edge, index) => {
+        mermaid += `    linkStyle ${index} stroke-width:${edgeWidth(edge.weight.records)}px\n`;
+    });
+
+    return mermaid;
+}
@@ -0,0 +1,182 @@
+import { PackageDependencyResult } from './package-dependencies';
+import { DiagramGraph, DiagramLevel, DiagramNode, DiagramOptions, buildDiagramGraph } from './diagrams';
+import { DependencyGraph, findStronglyConnectedComponents } from './graph-utils';
+import { escapeHtml } from './html-utils';
+
+// Dependency structure matrix of the package or base package graph
+export interface DependencyMatrix {
+    level: DiagramLevel;
+    // Packages in partition order: each package comes after the packages it depends on, except within cycles
+    packages: DiagramNode[];
+    // cells[row][column]: records behind the dependency of the row package on the column package, 0 if there is none
+    cells: number[][];
+    // Packages depending on each other cyclically, as ranges of package indices (first and last inclusive)
+    cycles: Array<{ first: number; last: number }>;
+}
+
+// Order the nodes so that each comes after the nodes it depends on. The nodes of a cycle can't be
+// ordered that way and are kept together instead. Among the nodes that could come next, the
+// alphabetically first one is taken so the order is stable.
+function orderByPartition(graph: DiagramGraph): string[][] {
+    const dependencies: DependencyGraph = new Map(graph.nodes.map(node => [node.name, new Set<string>()]));
+    graph.edges.forEach(edge => dependencies.get(edge.source)!.add(edge.target));
+
+    const components: string[][] = findStronglyConnectedComponents(dependencies).filter(component => component.length > 1);
+    const componentIndex = new Map<string, number>();
+    components.forEach((component, index) => component.forEach(name => componentIndex.set(name, index)));
+    graph.nodes.forEach(node => {
+        if (!componentIndex.has(node.name)) {
+            componentIndex.set(node.name, components.length);
+            components.push([node.name]);
+        }
+    });
+
+    // Number of dependencies on other components that aren't placed yet
+    const pending = components.map(() => 0);
+    const dependents: number[][] = components.map(() => []);
+    graph.edges.forEach(edge => {
+        const source = componentIndex.get(edge.source)!;
+        const target = componentIndex.get(edge.target)!;
+        if (source !== target) {
+            pending[source]++;
+            dependents[target].push(source);
+        }
+    });
+
+    const order: string[][] = [];
+    let ready = components.map((_, index) => index).filter(index => pending[index] === 0);
+    while (ready.length > 0) {
+        ready.sort((a, b) => components[a][0].localeCompare(components[b][0]));
+        const next = ready.shift()!;
+        order.push(components[next]);
+        dependents[next].forEach(dependent => {
+            pending[dependent]--;
+            if (pending[dependent] === 0) {
+                ready.push(dependent);
+            }
+        });
+    }
+    return order;
+}
+
+// Build the matrix of the graph the diagram options select
+export function computeDependencyMatrix(result: PackageDependencyResult, options: DiagramOptions = {}): DependencyMatrix {
+    const graph = buildDiagramGraph(result, options);
+    const nodes = new Map(graph.nodes.map(node => [node.name, node]));
+
+    const packages: DiagramNode[] = [];
+    const cycles: Array<{ first: number; last: number }> = [];
+    orderByPartition(graph).forEach(component => {
+        if (component.length > 1) {
+            cycles.push({ first: packages.length, last: packages.length + component.length - 1 });
+        }
+        component.forEach(name => packages.push(nodes.get(name)!));
+    });
+
+    const indices = new Map(packages.map((node, index) => [node.name, index]));
+    const cells = packages.map(() => packages.map(() => 0));
+    graph.edges.forEach(edge => {
+        cells[indices.get(edge.source)!][indices.get(edge.target)!] = edge.weight.records;
+    });
+
+    return { level: options.level ?? 'base-package', packages, cells, cycles };
+}
+
+function isInCycle(matrix: DependencyMatrix, row: number, column: number): boolean {
+    return matrix.cycles.some(cycle => row >= cycle.first && row <= cycle.last && column >= cycle.first && column <= cycle.last);
+}
+
+function escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Generate the matrix as CSV: a header row of package names, then one row per package. Empty cells have no dependency.
+export function createDsmCsv(matrix: DependencyMatrix): string {
+    let csv = ['Package', ...matrix.packages.map(node => node.name)].map(escapeCsv).join(',') + '\n';
+    matrix.packages.forEach((node, row) => {
+        csv += [escapeCsv(node.name), ...matrix.cells[row].map(records => records > 0 ? String(records) : '')].join(',') + '\n';
+    });
+    return csv;
+}
+
+const DSM_DESCRIPTION = 'Each row lists the dependency records of a package on the column packages. ' +
+    'Packages come after the packages they depend on, so dependencies are below the diagonal. ' +
+    'Dependencies above the diagonal are part of a cycle, and the packages of a cycle are next to each other.';
+
+// Generate the "Dependency Structure Matrix" section of a report. Columns are numbered like the rows to keep the table narrow.
+export function createDsmMarkdown(matrix: DependencyMatrix): string {
+    let markdownContent = '## Dependency Structure Matrix\n\n';
+    if (matrix.packages.length === 0) {
+        return markdownContent + '*No packages found.*\n\n';
+    }
+    markdownContent += `${DSM_DESCRIPTION} Dependencies above the diagonal are shown in bold.\n\n`;
+
+    markdownContent += `| # | Package | ${matrix.packages.map((_, index) => index + 1).join(' | ')} |\n`;
+    markdownContent += `|---|---------|${matrix.packages.map(() => '---|').join('')}\n`;
+    matrix.packages.forEach((node, row) => {
+        const cells = matrix.cells[row].map((records, column) => {
+            if (column === row) {
+                return '-';
+            }
+            if (records === 0) {
+                return ' ';
+            }
+            return column > row ? `**${records}**` : String(records);
+        });
+        markdownContent += `| ${row + 1} | \`${node.name}\`${node.isExternal ? ' (external)' : ''} | ${cells.join(' | ')} |\n`;
+    });
+    markdownContent += '\n';
+
+    if (matrix.cycles.length > 0) {
+        markdownContent += 'Cycles:\n\n';
+        matrix.cycles.forEach(cycle => {
+            const names = matrix.packages.slice(cycle.first, cycle.last + 1).map(node => `\`${node.name}\``);
+            markdownContent += `- ${cycle.first + 1}-${cycle.last + 1}: ${names.join(', ')}\n`;
+        });
+        markdownContent += '\n';
+    }
+    return markdownContent;
+}
+
+// Styles of the table created by createDsmHtmlTable
+export const DSM_STYLE = `
+table.dsm td { text-align: center; min-width: 18px; }
+table.dsm td.diagonal { background: #dee2e6; }
+table.dsm td.cycle { background: #f8d7da; }
+table.dsm td.above { color: #dc3545; font-weight: bold; }
+table.dsm th.external { color: #6c757d; font-weight: normal; }
+`;
+
+// Generate the matrix as an HTML table. Row headers carry the package name in data-name.
+export function createDsmHtmlTable(matrix: DependencyMatrix): string {
+    let html = '<table class="dsm">\n<thead><tr><th>#</th><th>Package</th>' +
+        matrix.packages.map((_, index) => `<th>${index + 1}</th>`).join('') + '</tr></thead>\n<tbody>\n';
+    matrix.packages.forEach((node, row) => {
+        html += `<tr><th>${row + 1}</th><th data-name="${escapeHtml(node.name)}"${node.isExternal ? ' class="external"' : ''}>${escapeHtml(node.name)}</th>`;
+        matrix.cells[row].forEach((records, column) => {
+            const classes = [];
+            if (column === row) {
+                classes.push('diagonal');
+            } else if (isInCycle(matrix, row, column)) {
+                classes.push('cycle');
+            }
+            if (column > row && records > 0) {
+                classes.push('above');
+            }
+            html += `<td${classes.length > 0 ? ` class="${classes.join(' ')}"` : ''}>${records > 0 ? records : ''}</td>`;
+        });
+        html += '</tr>\n';
+    });
+    return html + '</tbody>\n</table>\n';
+}
+
+// Generate a standalone HTML page with the matrix
+export function createDsmHtmlPage(matrix: DependencyMatrix): string {
+    let html = '<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n<title>Dependency Structure Matrix</title>\n';
+    html += '<style>\nbody { font-family: Helvetica, Arial, sans-serif; font-size: 14px; }\n' +
+        'table { border-collapse: collapse; }\nth, td { border: 1px solid #dee2e6; padding: 3px 6px; }\n' +
+        `th { background: #f8f9fa; text-align: left; }${DSM_STYLE}</style>\n</head>\n<body>\n`;
+    html += `<h1>Dependency Structure Matrix</h1>\n<p>${escapeHtml(DSM_DESCRIPTION)}</p>\n`;
+    html += matrix.packages.length > 0 ? createDsmHtmlTable(matrix) : '<p>No packages found.</p>\n';
+    return html + '</body>\n</html>\n';
+}
@@ -0,0 +1,75 @@
+// Adjacency list representation shared by the class, package and artifact graphs
+export type DependencyGraph = Map<string, Set<string>>;
+
+// Find strongly connected components using Tarjan's algorithm.
+// Only components that form a cycle (more than one node, or a node that
+// depends on itself) are returned. Nodes within each component are sorted,
+// and components are sorted by their first node, so output is stable.
+export function findStronglyConnectedComponents(graph: DependencyGraph): string[][] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    // Include nodes that only appear as targets
+    const nodes = new Set<string>(graph.keys());
+    graph.forEach(targets => targets.forEach(target => nodes.add(target)));
+
+    nodes.forEach(root => {
+        if (indices.has(root)) {
+            return;
+        }
+
+        // Iterative depth-first search so large graphs don't overflow the call stack
+        const work: Array<{ node: string; neighbours: string[]; position: number }> = [];
+        const visit = (node: string) => {
+            indices.set(node, nextIndex);
+            lowLinks.set(node, nextIndex);
+            nextIndex++;
+            stack.push(node);
+            onStack.add(node);
+            work.push({ node, neighbours: Array.from(graph.get(node) ?? []), position: 0 });
+        };
+        visit(root);
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+
+            if (frame.position < frame.neighbours.length) {
+                const neighbour = frame.neighbours[frame.position++];
+                if (!indices.has(neighbour)) {
+                    visit(neighbour);
+                } else if (onStack.has(neighbour)) {
+                    lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indices.get(neighbour)!));
+                }
+                continue;
+            }
+
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].node;
+                lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!));
+            }
+
+            // Root of a component: pop every node belonging to it
+            if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.node);
+
+                const isSelfLoop = component.length === 1 && (graph.get(frame.node)?.has(frame.node) ?? false);
+                if (component.length > 1 || isSelfLoop) {
+                    components.push(component.sort());
+                }
+            }
+        }
+    });
+
+    return components.sort((a, b) => a[0].localeCompare(b[0]));
+}
@@ -0,0 +1,87 @@
+import { compilePackagePattern, isWithinPackage } from './classification';
+
+// Rules for grouping packages into base packages
+export interface GroupingOptions {
+    // Number of leading segments used for packages no prefix rule applies to (default: 3)
+    defaultDepth?: number;
+    // Package prefix -> number of leading segments to keep, e.g. { "org.apache": 3 }.
+    // The longest matching prefix wins.
+    depths?: { [prefix: string]: number };
+    // Package pattern -> base package name, e.g. { "org.apache.commons": "Apache Commons" }.
+    // Patterns use the same syntax as classification patterns; the most specific match wins.
+    aliases?: { [pattern: string]: string };
+    // Whether the built-in depths for java, javax, org, com and net apply (default: true)
+    useBuiltInDepths?: boolean;
+}
+
+// Top-level packages whose second segment already identifies the vendor or API, e.g. `org.apache`
+export const BUILT_IN_DEPTHS: { [prefix: string]: number } = {
+    java: 2,
+    javax: 2,
+    org: 2,
+    com: 2,
+    net: 2
+};
+
+export const DEFAULT_DEPTH = 3;
+
+interface Alias {
+    regex: RegExp;
+    specificity: number;
+    name: string;
+}
+
+function assertDepth(depth: number, name: string): void {
+    if (!Number.isInteger(depth) || depth < 1) {
+        throw new Error(`Invalid ${name} '${depth}': must be a positive integer`);
+    }
+}
+
+export class PackageGrouper {
+    private defaultDepth: number;
+    private depths: Array<[string, number]>;
+    private aliases: Alias[];
+
+    constructor(options: GroupingOptions = {}) {
+        this.defaultDepth = options.defaultDepth ?? DEFAULT_DEPTH;
+        assertDepth(this.defaultDepth, 'default depth');
+
+        const depths = {
+            ...(options.useBuiltInDepths === false ? {} : BUILT_IN_DEPTHS),
+            ...(options.depths ?? {})
+        };
+        // Longest prefixes first so the first match is the most specific one
+        this.depths = Object.keys(depths)
+            .sort((a, b) => b.split('.').length - a.split('.').length)
+            .map(prefix => {
+                assertDepth(depths[prefix], `depth for '${prefix}'`);
+                return [prefix, depths[prefix]];
+            });
+
+        this.aliases = Object.keys(options.aliases ?? {})
+            .map(pattern => ({
+                regex: compilePackagePattern(pattern),
+                specificity: pattern.split('.').filter(segment => !segment.startsWith('*')).length,
+                name: options.aliases![pattern]
+            }))
+            .sort((a, b) => b.specificity - a.specificity);
+    }
+
+    // Get the base package a package belongs to. Packages with fewer than two segments
+    // (including the default package) don't belong to any base package.
+    getBasePackage(packageName: string): string | undefined {
+        const segments = packageName.split('.');
+        if (segments.length < 2) {
+            return undefined;
+        }
+
+        const alias = this.aliases.find(candidate => candidate.regex.test(packageName));
+        if (alias) {
+            return alias.name;
+        }
+
+        const depthRule = this.depths.find(([prefix]) => isWithinPackage(packageName, prefix));
+        const depth = depthRule ? depthRule[1] : this.defaultDepth;
+        return segments.slice(0, Math.min(depth, segments.length)).join('.');
+    }
+}
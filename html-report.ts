@@ -0,0 +1,349 @@
+import { PackageDependencyResult, LibraryUsage } from './package-dependencies';
+import { JsonWeightedDependencyEdge, PackageType, createWeightedEdges } from './json-report';
+import { InputSummary, formatInputSummary } from './jsonl-input';
+import { DSM_STYLE, computeDependencyMatrix, createDsmHtmlTable } from './dsm';
+import { escapeHtml } from './html-utils';
+
+// Everything the interactive report shows, embedded in the page as JSON
+export interface HtmlReportData {
+    title: string;
+    basePackages: Array<{
+        name: string;
+        type: PackageType;
+        subPackages: Array<{ name: string; classes: string[] }>;
+    }>;
+    // Dependencies between base packages and between packages
+    dependencies: JsonWeightedDependencyEdge[];
+    packageDependencies: JsonWeightedDependencyEdge[];
+    libraryCounts: { [key: string]: number };
+    externalLibraries: LibraryUsage[];
+    inputSummary?: InputSummary;
+}
+
+// Select the data shown by the report. Lists are sorted by name.
+export function createHtmlReportData(result: PackageDependencyResult, title: string = 'Project Package Dependencies'): HtmlReportData {
+    return {
+        title,
+        basePackages: Array.from(result.basePackages.keys()).sort().map(basePackage => ({
+            name: basePackage,
+            type: result.externalBasePackages.has(basePackage) ? 'external' : 'internal',
+            subPackages: Array.from(result.basePackages.get(basePackage)!).sort().map(subPackage => ({
+                name: subPackage,
+                classes: Array.from(result.packages.get(subPackage)!.classes).sort()
+            }))
+        })),
+        dependencies: createWeightedEdges(result.basePackageDependencyWeights),
+        packageDependencies: createWeightedEdges(result.dependencyWeights),
+        libraryCounts: result.libraryCounts,
+        externalLibraries: result.externalLibraries,
+        inputSummary: result.inputSummary
+    };
+}
+
+const STYLE = `
+body { margin: 0; font-family: Helvetica, Arial, sans-serif; font-size: 14px; color: #212529; }
+header { padding: 12px 20px; background: #084298; color: #fff; }
+header h1 { margin: 0; font-size: 20px; }
+header p { margin: 4px 0 0; }
+.warning { background: #fff3cd; color: #664d03; padding: 8px 20px; }
+main { display: grid; grid-template-columns: 300px 1fr 360px; height: calc(100vh - 70px); }
+main > section { overflow: auto; padding: 12px; border-right: 1px solid #dee2e6; }
+h2 { font-size: 16px; margin: 8px 0; }
+h3 { font-size: 14px; margin: 12px 0 4px; }
+input[type=search] { width: 100%; box-sizing: border-box; padding: 6px; margin-bottom: 8px; }
+details { margin: 2px 0; }
+summary { cursor: pointer; }
+ul { margin: 2px 0; padding-left: 20px; }
+a { color: #0a58ca; cursor: pointer; text-decoration: none; }
+a:hover { text-decoration: underline; }
+.external { color: #6c757d; }
+.badge { font-size: 11px; padding: 1px 4px; border-radius: 3px; background: #e9ecef; color: #495057; margin-left: 4px; }
+#graph { width: 100%; height: calc(100% - 40px); border: 1px solid #dee2e6; }
+#graph circle { cursor: pointer; stroke: #084298; }
+#graph circle.external { fill: #eeeeee; stroke: #6c757d; stroke-dasharray: 3 2; }
+#graph circle.internal { fill: #cfe2ff; }
+#graph circle.selected { stroke: #dc3545; stroke-width: 3; }
+#graph line { stroke: #adb5bd; }
+#graph text { font-size: 11px; pointer-events: none; }
+table { border-collapse: collapse; margin: 4px 0 12px; }
+th, td { border: 1px solid #dee2e6; padding: 3px 6px; text-align: left; }
+th { background: #f8f9fa; }
+table.sortable th { cursor: pointer; }
+td.number { text-align: right; }
+#libraries, #matrix { padding: 12px 20px; border-top: 1px solid #dee2e6; overflow-x: auto; }
+#matrix th[data-name] { cursor: pointer; }
+`;
+
+// Runs in the browser. Builds the package tree, the graph and the details panel from the embedded data.
+const SCRIPT = `
+(function () {
+    var data = JSON.parse(document.getElementById('report-data').textContent);
+    var basePackages = {};
+    var packages = {};
+    data.basePackages.forEach(function (basePackage) {
+        basePackages[basePackage.name] = basePackage;
+        basePackage.subPackages.forEach(function (subPackage) {
+            packages[subPackage.name] = { name: subPackage.name, classes: subPackage.classes, basePackage: basePackage };
+        });
+    });
+
+    function element(tag, text, className) {
+        var node = document.createElement(tag);
+        if (text !== undefined) node.textContent = text;
+        if (className) node.className = className;
+        return node;
+    }
+
+    function packageLink(kind, name) {
+        var link = element('a', name);
+        link.onclick = function (event) { event.preventDefault(); select(kind, name); };
+        return link;
+    }
+
+    function edgeTable(edges, otherEnd, kind) {
+        if (edges.length === 0) return element('p', 'None');
+        var table = element('table');
+        var header = element('tr');
+        ['Package', 'Records', 'Source Classes', 'Target Classes'].forEach(function (title) { header.appendChild(element('th', title)); });
+        table.appendChild(header);
+        edges.slice().sort(function (a, b) { return b.records - a.records || a[otherEnd].localeCompare(b[otherEnd]); }).forEach(function (edge) {
+            var row = element('tr');
+            var cell = element('td');
+            cell.appendChild(packageLink(kind, edge[otherEnd]));
+            row.appendChild(cell);
+            [edge.records, edge.sourceClasses, edge.targetClasses].forEach(function (value) { row.appendChild(element('td', String(value), 'number')); });
+            table.appendChild(row);
+        });
+        return table;
+    }
+
+    // Show a base package ('base') or package ('package') with its contents and edges
+    function select(kind, name) {
+        var panel = document.getElementById('details');
+        panel.innerHTML = '';
+        panel.appendChild(element('h2', name));
+        var edges = kind === 'base' ? data.dependencies : data.packageDependencies;
+
+        if (kind === 'base') {
+            var basePackage = basePackages[name];
+            panel.appendChild(element('p', (basePackage.type === 'external' ? 'External' : 'Internal') + ' base package'));
+            panel.appendChild(element('h3', 'Sub-packages (' + basePackage.subPackages.length + ')'));
+            var list = element('ul');
+            basePackage.subPackages.forEach(function (subPackage) {
+                var item = element('li');
+                item.appendChild(packageLink('package', subPackage.name));
+                item.appendChild(element('span', String(subPackage.classes.length), 'badge'));
+                list.appendChild(item);
+            });
+            panel.appendChild(list);
+        } else {
+            // Packages without a base package, such as one-segment packages, only appear as edge ends
+            var pkg = packages[name] || { name: name, classes: [] };
+            if (pkg.basePackage) {
+                var baseParagraph = element('p', 'In base package ');
+                baseParagraph.appendChild(packageLink('base', pkg.basePackage.name));
+                panel.appendChild(baseParagraph);
+            }
+            panel.appendChild(element('h3', 'Classes (' + pkg.classes.length + ')'));
+            var classList = element('ul');
+            pkg.classes.forEach(function (className) { classList.appendChild(element('li', className)); });
+            panel.appendChild(classList);
+        }
+
+        panel.appendChild(element('h3', 'Depends on'));
+        panel.appendChild(edgeTable(edges.filter(function (edge) { return edge.source === name; }), 'target', kind));
+        panel.appendChild(element('h3', 'Used by'));
+        panel.appendChild(edgeTable(edges.filter(function (edge) { return edge.target === name; }), 'source', kind));
+
+        var selectedName = kind === 'base' || !packages[name] || !packages[name].basePackage ? name : packages[name].basePackage.name;
+        Array.prototype.forEach.call(document.querySelectorAll('#graph circle'), function (circle) {
+            circle.classList.toggle('selected', circle.getAttribute('data-name') === selectedName);
+        });
+    }
+
+    // Package tree, filtered by package and class names
+    function renderTree() {
+        var filter = document.getElementById('search').value.trim().toLowerCase();
+        var matches = function (text) { return text.toLowerCase().indexOf(filter) >= 0; };
+        var tree = document.getElementById('tree');
+        tree.innerHTML = '';
+        data.basePackages.forEach(function (basePackage) {
+            var baseMatches = !filter || matches(basePackage.name);
+            var subPackages = basePackage.subPackages.filter(function (subPackage) {
+                return baseMatches || matches(subPackage.name) || subPackage.classes.some(matches);
+            });
+            if (!baseMatches && subPackages.length === 0) return;
+
+            var details = element('details');
+            details.open = !!filter && subPackages.length > 0;
+            var summary = element('summary', undefined, basePackage.type);
+            summary.appendChild(packageLink('base', basePackage.name));
+            details.appendChild(summary);
+            var list = element('ul');
+            subPackages.forEach(function (subPackage) {
+                var item = element('li');
+                item.appendChild(packageLink('package', subPackage.name));
+                item.appendChild(element('span', String(subPackage.classes.length), 'badge'));
+                list.appendChild(item);
+            });
+            details.appendChild(list);
+            tree.appendChild(details);
+        });
+    }
+
+    // Force-directed layout of the base package graph (Fruchterman-Reingold), starting from a circle
+    // so the same report always gets the same layout
+    function renderGraph() {
+        var showExternal = document.getElementById('show-external').checked;
+        var nodes = data.basePackages.filter(function (basePackage) { return showExternal || basePackage.type === 'internal'; })
+            .map(function (basePackage, index, all) {
+                var angle = 2 * Math.PI * index / all.length;
+                return { name: basePackage.name, type: basePackage.type, x: 300 * Math.cos(angle), y: 300 * Math.sin(angle), dx: 0, dy: 0 };
+            });
+        var nodeIndex = {};
+        nodes.forEach(function (node) { nodeIndex[node.name] = node; });
+        var links = data.dependencies.filter(function (edge) { return nodeIndex[edge.source] && nodeIndex[edge.target]; });
+
+        var width = 1000, height = 700;
+        var k = Math.sqrt(width * height / Math.max(nodes.length, 1));
+        var temperature = width / 10;
+        for (var iteration = 0; iteration < 300; iteration++) {
+            nodes.forEach(function (node) { node.dx = -node.x * 0.01; node.dy = -node.y * 0.01; });
+            for (var i = 0; i < nodes.length; i++) {
+                for (var j = i + 1; j < nodes.length; j++) {
+                    var dx = nodes[i].x - nodes[j].x, dy = nodes[i].y - nodes[j].y;
+                    var distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+                    var repulsion = k * k / distance;
+                    nodes[i].dx += dx / distance * repulsion; nodes[i].dy += dy / distance * repulsion;
+                    nodes[j].dx -= dx / distance * repulsion; nodes[j].dy -= dy / distance * repulsion;
+                }
+            }
+            links.forEach(function (link) {
+                var source = nodeIndex[link.source], target = nodeIndex[link.target];
+                var dx = source.x - target.x, dy = source.y - target.y;
+                var distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+                var attraction = distance * distance / k;
+                source.dx -= dx / distance * attraction; source.dy -= dy / distance * attraction;
+                target.dx += dx / distance * attraction; target.dy += dy / distance * attraction;
+            });
+            nodes.forEach(function (node) {
+                var length = Math.max(Math.sqrt(node.dx * node.dx + node.dy * node.dy), 0.01);
+                node.x = Math.max(-width / 2, Math.min(width / 2, node.x + node.dx / length * Math.min(length, temperature)));
+                node.y = Math.max(-height / 2, Math.min(height / 2, node.y + node.dy / length * Math.min(length, temperature)));
+            });
+            temperature *= 0.98;
+        }
+
+        var svgNamespace = 'http://www.w3.org/2000/svg';
+        var svg = document.getElementById('graph');
+        svg.innerHTML = '<defs><marker id="arrow" viewBox="0 0 10 10" refX="18" refY="5" markerWidth="6" markerHeight="6" orient="auto">' +
+            '<path d="M 0 0 L 10 5 L 0 10 z" fill="#adb5bd"/></marker></defs>';
+        svg.setAttribute('viewBox', (-width / 2 - 100) + ' ' + (-height / 2 - 40) + ' ' + (width + 200) + ' ' + (height + 80));
+        links.forEach(function (link) {
+            var line = document.createElementNS(svgNamespace, 'line');
+            line.setAttribute('x1', nodeIndex[link.source].x); line.setAttribute('y1', nodeIndex[link.source].y);
+            line.setAttribute('x2', nodeIndex[link.target].x); line.setAttribute('y2', nodeIndex[link.target].y);
+            line.setAttribute('stroke-width', 1 + Math.log(link.records) / Math.LN10);
+            line.setAttribute('marker-end', 'url(#arrow)');
+            var title = document.createElementNS(svgNamespace, 'title');
+            title.textContent = link.source + ' \\u2192 ' + link.target + ': ' + link.records + ' records, ' +
+                link.sourceClasses + ' source classes, ' + link.targetClasses + ' target classes';
+            line.appendChild(title);
+            svg.appendChild(line);
+        });
+        nodes.forEach(function (node) {
+            var circle = document.createElementNS(svgNamespace, 'circle');
+            circle.setAttribute('cx', node.x); circle.setAttribute('cy', node.y); circle.setAttribute('r', 8);
+            circle.setAttribute('class', node.type);
+            circle.setAttribute('data-name', node.name);
+            circle.onclick = function () { select('base', node.name); };
+            svg.appendChild(circle);
+            var label = document.createElementNS(svgNamespace, 'text');
+            label.setAttribute('x', node.x + 11); label.setAttribute('y', node.y + 4);
+            label.textContent = node.name;
+            svg.appendChild(label);
+        });
+    }
+
+    // Sort a table by the clicked column; clicking again reverses the order
+    function makeSortable(table) {
+        Array.prototype.forEach.call(table.querySelectorAll('th'), function (header, column) {
+            header.onclick = function () {
+                var descending = header.getAttribute('data-order') !== 'descending';
+                Array.prototype.forEach.call(table.querySelectorAll('th'), function (other) { other.removeAttribute('data-order'); });
+                header.setAttribute('data-order', descending ? 'descending' : 'ascending');
+                var rows = Array.prototype.slice.call(table.querySelectorAll('tbody tr'));
+                rows.sort(function (a, b) {
+                    var x = a.cells[column].textContent, y = b.cells[column].textContent;
+                    var order = isNaN(Number(x)) || isNaN(Number(y)) ? x.localeCompare(y) : Number(x) - Number(y);
+                    return descending ? -order : order;
+                });
+                rows.forEach(function (row) { table.tBodies[0].appendChild(row); });
+            };
+        });
+    }
+
+    Array.prototype.forEach.call(document.querySelectorAll('#matrix th[data-name]'), function (header) {
+        header.onclick = function () { select('base', header.getAttribute('data-name')); };
+    });
+    document.getElementById('search').oninput = renderTree;
+    document.getElementById('show-external').onchange = renderGraph;
+    Array.prototype.forEach.call(document.querySelectorAll('table.sortable'), makeSortable);
+    renderTree();
+    renderGraph();
+})();
+`;
+
+function createLibraryTables(data: HtmlReportData): string {
+    let html = '<section id="libraries">\n<h2>Specific Library Counts</h2>\n';
+    html += '<table class="sortable"><thead><tr><th>Library</th><th>Count (Unique Classes)</th></tr></thead><tbody>\n';
+    Object.keys(data.libraryCounts).forEach(library => {
+        html += `<tr><td>${escapeHtml(library.charAt(0).toUpperCase() + library.slice(1))}</td><td class="number">${data.libraryCounts[library]}</td></tr>\n`;
+    });
+    html += '</tbody></table>\n';
+
+    html += '<h2>External Libraries</h2>\n';
+    if (data.externalLibraries.length === 0) {
+        html += '<p>No known libraries are called from internal code.</p>\n';
+    } else {
+        html += '<table class="sortable"><thead><tr><th>Library</th><th>Coordinates</th><th>License</th><th>Classes</th><th>Call Sites</th><th>Calls</th></tr></thead><tbody>\n';
+        data.externalLibraries.forEach(library => {
+            html += `<tr><td>${escapeHtml(library.name)}</td><td>${escapeHtml(library.coordinates)}</td><td>${escapeHtml(library.license)}</td>` +
+                `<td class="number">${library.classes.length}</td><td class="number">${library.callSites}</td><td class="number">${library.callCount}</td></tr>\n`;
+        });
+        html += '</tbody></table>\n';
+    }
+    return html + '</section>\n';
+}
+
+// Generate the report as a single HTML page without external resources, so it can be opened offline
+export function createHtmlReport(result: PackageDependencyResult, title?: string): string {
+    const data = createHtmlReportData(result, title);
+    const internalCount = data.basePackages.filter(basePackage => basePackage.type === 'internal').length;
+
+    let html = '<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n';
+    html += `<title>${escapeHtml(data.title)}</title>\n<style>${STYLE}${DSM_STYLE}</style>\n</head>\n<body>\n`;
+    html += `<header><h1>${escapeHtml(data.title)}</h1><p>${data.basePackages.length} base packages (${internalCount} internal), ` +
+        `${data.dependencies.length} dependencies between them${data.inputSummary ? `. ${escapeHtml(formatInputSummary(data.inputSummary))}` : ''}</p></header>\n`;
+    if (data.inputSummary && data.inputSummary.rejectedLines > 0) {
+        html += `<div class="warning">${data.inputSummary.rejectedLines} input lines could not be read, so this report may be incomplete.</div>\n`;
+    }
+
+    html += '<main>\n';
+    html += '<section><h2>Packages</h2><input type="search" id="search" placeholder="Search packages and classes"><div id="tree"></div></section>\n';
+    html += '<section><h2>Base Package Graph</h2><label><input type="checkbox" id="show-external" checked> Show external packages</label>' +
+        '<svg id="graph" xmlns="http://www.w3.org/2000/svg"></svg></section>\n';
+    html += '<section id="details"><h2>Details</h2><p>Select a package in the tree or the graph.</p></section>\n';
+    html += '</main>\n';
+    html += '<section id="matrix"><h2>Dependency Structure Matrix</h2><p>Each row lists the dependency records of a base package on the ' +
+        'column packages. Dependencies above the diagonal are part of a cycle, shaded in red.</p>\n';
+    const matrix = computeDependencyMatrix(result);
+    html += matrix.packages.length > 0 ? createDsmHtmlTable(matrix) : '<p>No packages found.</p>\n';
+    html += '</section>\n';
+    html += createLibraryTables(data);
+
+    // "<" is escaped so package or class names can't end the script element
+    html += `<script type="application/json" id="report-data">${JSON.stringify(data).replace(/</g, '\\u003c')}</script>\n`;
+    html += `<script>${SCRIPT}</script>\n</body>\n</html>\n`;
+    return html;
+}
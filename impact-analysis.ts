@@ -0,0 +1,263 @@
+import { PackageInfo, getPackageName } from './package-dependencies';
+import { compilePackagePattern } from './classification';
+import { LibraryCatalog, libraryCoordinates } from './library-catalog';
+import { checkMaxDepth, compileQueryPattern } from './dependency-query';
+
+// Class -> classes it depends on, with the number of records
+export type ClassDependencies = ReadonlyMap<string, ReadonlyMap<string, number>>;
+
+export interface ImpactOptions {
+    // Number of class dependencies followed; 1 stops at the direct dependencies (or dependents).
+    // Without a limit the whole transitive closure is followed.
+    maxDepth?: number;
+}
+
+// A package on the far end of a chain of class dependencies
+export interface PackageReach {
+    packageName: string;
+    isExternal: boolean;
+    // Class dependencies on the shortest chain
+    depth: number;
+    // Classes of the package found by the search, sorted
+    classes: string[];
+    // Shortest chain of classes explaining the reach, each class depending on the next
+    path: string[];
+}
+
+export interface TransitiveDependencies {
+    packageName: string;
+    maxDepth?: number;
+    // Internal classes of the package (and its sub-packages) the search starts from, sorted
+    classes: string[];
+    // Packages the classes depend on, sorted by depth, then by name. Each path leads from a class
+    // of the start package to a class of the reached package.
+    packages: PackageReach[];
+}
+
+export interface ImpactAnalysis {
+    target: string;
+    // Coordinates of the catalogued library, when the target named one
+    library?: string;
+    maxDepth?: number;
+    // Classes of the target that are depended on, sorted
+    matchedClasses: string[];
+    // Internal packages affected by a change of the target, sorted by depth, then by name. Each
+    // path leads from a class of the affected package to a class of the target.
+    packages: PackageReach[];
+    // Number of affected internal classes
+    affectedClasses: number;
+}
+
+interface SearchNode {
+    depth: number;
+    // Neighbour one step closer to the start of the search
+    previous?: string;
+}
+
+// Classes of packages the result has no information on, and so no classification for, are external
+function isInternalClass(packages: ReadonlyMap<string, PackageInfo>, className: string): boolean {
+    return packages.get(getPackageName(className))?.isExternal === false;
+}
+
+// Breadth-first search from the start classes. Neighbours are visited in name order, so the chains
+// found are the alphabetically first of the shortest ones.
+function searchClasses(
+    graph: ReadonlyMap<string, ReadonlySet<string>>,
+    starts: string[],
+    include: (className: string) => boolean,
+    maxDepth: number | undefined
+): Map<string, SearchNode> {
+    const found = new Map<string, SearchNode>();
+    starts.forEach(className => found.set(className, { depth: 0 }));
+
+    let frontier = starts.slice().sort();
+    for (let depth = 1; frontier.length > 0 && (maxDepth === undefined || depth <= maxDepth); depth++) {
+        const next: string[] = [];
+        frontier.forEach(className => {
+            Array.from(graph.get(className) ?? []).sort().forEach(neighbour => {
+                if (!found.has(neighbour) && include(neighbour)) {
+                    found.set(neighbour, { depth, previous: className });
+                    next.push(neighbour);
+                }
+            });
+        });
+        frontier = next.sort();
+    }
+    return found;
+}
+
+// Follow the previous classes back to the start of the search
+function getChain(found: Map<string, SearchNode>, className: string): string[] {
+    const chain = [className];
+    let node = found.get(className);
+    while (node?.previous !== undefined) {
+        chain.push(node.previous);
+        node = found.get(node.previous);
+    }
+    return chain;
+}
+
+// Group the classes found into packages, keeping the shortest chain of each package
+function groupByPackage(
+    found: Map<string, SearchNode>,
+    packages: ReadonlyMap<string, PackageInfo>,
+    toPath: (chain: string[]) => string[]
+): PackageReach[] {
+    const reached = new Map<string, PackageReach>();
+    Array.from(found.keys()).sort().forEach(className => {
+        const node = found.get(className)!;
+        if (node.depth === 0) {
+            return;
+        }
+
+        const packageName = getPackageName(className);
+        const packageReach = reached.get(packageName);
+        if (!packageReach) {
+            reached.set(packageName, {
+                packageName,
+                isExternal: packages.get(packageName)?.isExternal ?? true,
+                depth: node.depth,
+                classes: [className],
+                path: toPath(getChain(found, className))
+            });
+        } else {
+            packageReach.classes.push(className);
+            if (node.depth < packageReach.depth) {
+                packageReach.depth = node.depth;
+                packageReach.path = toPath(getChain(found, className));
+            }
+        }
+    });
+
+    return Array.from(reached.values()).sort((a, b) => a.depth - b.depth || a.packageName.localeCompare(b.packageName));
+}
+
+// Find everything the internal classes of a package (a package pattern, see classification.ts)
+// depend on, directly or transitively. The search continues through internal classes only: the
+// external classes reached are reported, but what they depend on in turn is library code.
+export function computeTransitiveDependencies(
+    classDependencies: ClassDependencies,
+    packages: ReadonlyMap<string, PackageInfo>,
+    packageName: string,
+    options: ImpactOptions = {}
+): TransitiveDependencies {
+    checkMaxDepth(options.maxDepth);
+    const matcher = compilePackagePattern(packageName);
+    const isInternal = (className: string) => isInternalClass(packages, className);
+    const isInPackage = (className: string) => matcher.test(getPackageName(className));
+
+    const graph = new Map<string, Set<string>>();
+    classDependencies.forEach((targets, source) => {
+        if (isInternal(source)) {
+            graph.set(source, new Set(targets.keys()));
+        }
+    });
+    const starts = Array.from(graph.keys()).filter(isInPackage).sort();
+    const found = searchClasses(graph, starts, className => !isInPackage(className), options.maxDepth);
+
+    return {
+        packageName,
+        maxDepth: options.maxDepth,
+        classes: starts,
+        packages: groupByPackage(found, packages, chain => chain.reverse())
+    };
+}
+
+// Find the internal packages affected if a class, package or library were changed or removed: the
+// internal classes depending on it, directly or through other internal classes. The target is a
+// query pattern (see dependency-query.ts) or the Maven coordinates of a catalogued library.
+export function computeImpact(
+    classDependencies: ClassDependencies,
+    packages: ReadonlyMap<string, PackageInfo>,
+    catalog: LibraryCatalog,
+    target: string,
+    options: ImpactOptions = {}
+): ImpactAnalysis {
+    checkMaxDepth(options.maxDepth);
+    let isTarget: (className: string) => boolean;
+    let library: string | undefined;
+    if (target.includes(':')) {
+        const definition = catalog.findLibraryByCoordinates(target.trim());
+        if (!definition) {
+            throw new Error(`Unknown library '${target}'`);
+        }
+        library = libraryCoordinates(definition);
+        isTarget = className => catalog.findLibrary(getPackageName(className)) === definition;
+    } else {
+        const matcher = compileQueryPattern(target);
+        isTarget = className => matcher.test(className);
+    }
+    const isInternal = (className: string) => isInternalClass(packages, className);
+
+    // Dependency edges reversed: class -> classes depending on it
+    const dependents = new Map<string, Set<string>>();
+    classDependencies.forEach((targets, source) => {
+        Array.from(targets.keys()).forEach(targetClass => {
+            if (!dependents.has(targetClass)) {
+                dependents.set(targetClass, new Set());
+            }
+            dependents.get(targetClass)!.add(source);
+        });
+    });
+    const matchedClasses = Array.from(dependents.keys()).filter(isTarget).sort();
+    const found = searchClasses(
+        dependents,
+        matchedClasses,
+        className => isInternal(className) && !isTarget(className),
+        options.maxDepth
+    );
+
+    const affected = groupByPackage(found, packages, chain => chain);
+    return {
+        target,
+        library,
+        maxDepth: options.maxDepth,
+        matchedClasses,
+        packages: affected,
+        affectedClasses: affected.reduce((total, packageReach) => total + packageReach.classes.length, 0)
+    };
+}
+
+function describeDepthLimit(maxDepth: number | undefined): string {
+    return maxDepth === undefined ? 'any depth' : `up to depth ${maxDepth}`;
+}
+
+function describePackageReach(packageReach: PackageReach, showType: boolean): string {
+    const classCount = `${packageReach.classes.length} class${packageReach.classes.length === 1 ? '' : 'es'}`;
+    const type = showType ? `, ${packageReach.isExternal ? 'external' : 'internal'}` : '';
+    return `\n${packageReach.packageName} (depth ${packageReach.depth}, ${classCount}${type})\n` +
+        `  ${packageReach.path.join(' -> ')}\n`;
+}
+
+// Describe the packages reached from a package as plain text for the console
+export function createTransitiveDependenciesText(dependencies: TransitiveDependencies): string {
+    let text = `Packages reached from '${dependencies.packageName}' (${describeDepthLimit(dependencies.maxDepth)})\n`;
+    if (dependencies.classes.length === 0) {
+        return text + `\nNo internal classes with dependencies in '${dependencies.packageName}'.\n`;
+    }
+
+    const external = dependencies.packages.filter(packageReach => packageReach.isExternal).length;
+    text += `Classes in the package: ${dependencies.classes.length}\n`;
+    text += `Packages reached: ${dependencies.packages.length} ` +
+        `(${dependencies.packages.length - external} internal, ${external} external)\n`;
+    dependencies.packages.forEach(packageReach => {
+        text += describePackageReach(packageReach, true);
+    });
+    return text;
+}
+
+// Describe the blast radius of a target as plain text for the console
+export function createImpactText(impact: ImpactAnalysis): string {
+    const library = impact.library !== undefined ? ' (catalogued library)' : '';
+    let text = `Blast radius of '${impact.target}'${library} (${describeDepthLimit(impact.maxDepth)})\n`;
+    if (impact.matchedClasses.length === 0) {
+        return text + `\nNo classes of '${impact.target}' are depended on.\n`;
+    }
+
+    text += `Matched classes: ${impact.matchedClasses.length}\n`;
+    text += `Affected internal packages: ${impact.packages.length}, classes: ${impact.affectedClasses}\n`;
+    impact.packages.forEach(packageReach => {
+        text += describePackageReach(packageReach, false);
+    });
+    return text;
+}
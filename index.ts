@@ -0,0 +1,165 @@
+// Library entry point. The command line interface lives in cli.ts.
+export { DependencyRecord } from './types';
+export {
+    PackageDependencyExtractor,
+    PackageDependencyResult,
+    PackageInfo,
+    ExtractorOptions,
+    ArtifactInfo,
+    ArtifactDependency,
+    DependencyWeight,
+    MethodCallSite,
+    MethodUsage,
+    ClassMethodUsage,
+    LibraryUsage,
+    DependencyCycle,
+    DependencyCycles,
+    getPackageName,
+    getClassName,
+    formatDependencyWeight,
+    getDependencyWeight
+} from './package-dependencies';
+export {
+    DEFAULT_MAX_ERRORS,
+    InputError,
+    InputSummary,
+    ReadOptions,
+    createInputSummary,
+    createInputSummaryMarkdown,
+    formatInputSummary,
+    readJsonlRecords,
+    validateRecord
+} from './jsonl-input';
+export {
+    ClassNameOptions,
+    canonicalizeClassName,
+    getOuterClassName,
+    isPrimitiveType,
+    normalizeClassName
+} from './class-names';
+export { DependencyAnalyzer, DependencyStatistics, DependedUponClass } from './dependency-mapper';
+export { DependencyGraph, findStronglyConnectedComponents } from './graph-utils';
+export {
+    JSON_REPORT_SCHEMA_VERSION,
+    JsonReport,
+    JsonBasePackage,
+    JsonSubPackage,
+    JsonDependencyEdge,
+    JsonWeightedDependencyEdge,
+    JsonArtifact,
+    JsonDuplicateClass,
+    PackageType,
+    createJsonReport
+} from './json-report';
+export { DiagramLevel, DiagramOptions, createDotDiagram, createMermaidDiagram } from './diagrams';
+export { HtmlReportData, createHtmlReport, createHtmlReportData } from './html-report';
+export {
+    JAVAX_PACKAGES,
+    JakartaFamilySummary,
+    JakartaMigration,
+    JakartaStatus,
+    JavaxClassUsage,
+    JavaxPackage,
+    classifyJavaxPackage,
+    createJakartaMigrationMarkdown,
+    findJakartaMigration
+} from './jakarta-migration';
+export {
+    BUNDLED_JDK_API_CHANGES,
+    JdkApiChange,
+    JdkApiChangeData,
+    JdkApiFinding,
+    JdkChangeKind,
+    JdkCompatibility,
+    MIN_TARGET_JDK,
+    createJdkCompatibilityMarkdown,
+    findJdkApiChange,
+    findJdkCompatibility
+} from './jdk-compatibility';
+export {
+    BUILT_IN_CLOUD_READINESS_CATEGORIES,
+    CloudReadiness,
+    CloudReadinessCategory,
+    CloudReadinessFinding,
+    CloudReadinessRating,
+    MAX_CLASSES_PER_CATEGORY,
+    createCloudReadinessMarkdown,
+    findCloudReadiness,
+    getCloudReadinessRating
+} from './cloud-readiness';
+export {
+    DependencyQueryOptions,
+    DependencyQueryResult,
+    DependentClass,
+    DependentMethod,
+    checkMaxDepth,
+    compileQueryPattern,
+    createDependencyQueryText,
+    queryDependents
+} from './dependency-query';
+export {
+    ClassDependencies,
+    ImpactAnalysis,
+    ImpactOptions,
+    PackageReach,
+    TransitiveDependencies,
+    computeImpact,
+    computeTransitiveDependencies,
+    createImpactText,
+    createTransitiveDependenciesText
+} from './impact-analysis';
+export { DependencyMatrix, computeDependencyMatrix, createDsmCsv, createDsmHtmlPage, createDsmHtmlTable, createDsmMarkdown } from './dsm';
+export { ClassificationOptions, PackageClassifier, compilePackagePattern, isWithinPackage } from './classification';
+export { MapperConfig, loadConfig, validateConfig } from './config';
+export { GroupingOptions, PackageGrouper, BUILT_IN_DEPTHS, DEFAULT_DEPTH } from './grouping';
+export { LibraryDefinition, LibraryCatalog, BUILT_IN_LIBRARIES, libraryCoordinates } from './library-catalog';
+export {
+    Advisory,
+    AdvisoryAffected,
+    AdvisoryEvent,
+    AdvisoryFinding,
+    AdvisoryRange,
+    AffectedCode,
+    compareVersions,
+    findAdvisoryFindings,
+    isVersionAffected,
+    loadAdvisories,
+    validateAdvisories
+} from './advisories';
+export { compileGlob, resolveInputFiles } from './input-files';
+export {
+    PortfolioAnalyzer,
+    PortfolioApplication,
+    PortfolioSummary,
+    ApplicationSummary,
+    SharedDependency,
+    SharedLibrary,
+    getApplicationName
+} from './portfolio';
+export {
+    ReportDiff,
+    LibraryCountChange,
+    LibraryUsageChange,
+    ClassificationChange,
+    createDiffMarkdown,
+    diffReports,
+    hasChanges,
+    loadSnapshot
+} from './report-diff';
+export {
+    ArchitectureRule,
+    ArchitectureRuleChecker,
+    CallSiteLookup,
+    RuleLevel,
+    RuleViolation,
+    describeRule
+} from './architecture-rules';
+export {
+    METRIC_NAMES,
+    MetricName,
+    MetricsOptions,
+    PackageMetrics,
+    DependencyMetrics,
+    computeMetrics,
+    createMetricsMarkdown
+} from './metrics';
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const GLOB_CHARACTERS = /[*?[]/;
+
+// Compile a glob pattern into a regular expression matching '/'-separated paths. `*` and `?` stay
+// within one path segment, `**` matches any number of segments, `[...]` is a character class.
+export function compileGlob(pattern: string): RegExp {
+    let regex = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // `**/` also matches no directory at all
+            if (pattern[i + 2] === '/') {
+                regex += '(?:.*/)?';
+                i += 2;
+            } else {
+                regex += '.*';
+                i++;
+            }
+        } else if (char === '*') {
+            regex += '[^/]*';
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end === -1) {
+                regex += '\\[';
+            } else {
+                regex += `[${pattern.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                i = end;
+            }
+        } else {
+            regex += char.replace(/[.+^${}()|\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${regex}$`);
+}
+
+// List every file below a directory, as paths joined onto the directory
+function listFiles(directory: string): string[] {
+    const files: string[] = [];
+    fs.readdirSync(directory, { withFileTypes: true }).forEach(entry => {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...listFiles(entryPath));
+        } else if (entry.isFile()) {
+            files.push(entryPath);
+        }
+    });
+    return files;
+}
+
+// Expand a glob pattern, starting the search at its longest leading path without glob characters
+function expandGlob(pattern: string): string[] {
+    const normalized = pattern.split(path.sep).join('/');
+    const segments = normalized.split('/');
+    const firstGlobSegment = segments.findIndex(segment => GLOB_CHARACTERS.test(segment));
+    const baseDirectory = segments.slice(0, firstGlobSegment).join('/') || (normalized.startsWith('/') ? '/' : '.');
+    if (!fs.existsSync(baseDirectory) || !fs.statSync(baseDirectory).isDirectory()) {
+        return [];
+    }
+
+    const regex = compileGlob(normalized);
+    return listFiles(baseDirectory)
+        .filter(file => {
+            // Paths found from '.' have no leading './', so match the pattern without it either
+            const candidate = file.split(path.sep).join('/');
+            return regex.test(candidate) || regex.test(`./${candidate}`);
+        })
+        .sort();
+}
+
+// Expand the input arguments into the list of JSONL files to read. An argument is a file, a
+// directory (all `.jsonl` files below it) or a glob pattern such as `exports/**/*.jsonl`.
+// Each file is listed once, in the order of the arguments. Throws when an argument matches nothing.
+export function resolveInputFiles(inputs: string[]): string[] {
+    const files: string[] = [];
+    inputs.forEach(input => {
+        let matches: string[];
+        if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+            matches = listFiles(input).filter(file => file.endsWith('.jsonl')).sort();
+            if (matches.length === 0) {
+                throw new Error(`Input directory '${input}' contains no .jsonl files`);
+            }
+        } else if (fs.existsSync(input)) {
+            matches = [input];
+        } else if (GLOB_CHARACTERS.test(input)) {
+            matches = expandGlob(input);
+            if (matches.length === 0) {
+                throw new Error(`No input files match '${input}'`);
+            }
+        } else {
+            throw new Error(`Input file '${input}' does not exist`);
+        }
+
+        matches.forEach(file => {
+            if (!files.includes(file)) {
+                files.push(file);
+            }
+        });
+    });
+
+    return files;
+}
@@ -0,0 +1,217 @@
+import { PackageDependencyResult, MethodCallSite, getPackageName } from './package-dependencies';
+import { isWithinPackage } from './classification';
+
+// What happens to a javax package when moving to Jakarta EE 9+:
+// - renamed: the Jakarta EE API moved from javax.* to jakarta.*
+// - unchanged: the package belongs to the JDK and keeps its name
+// - removed: the API was dropped without a replacement (from Jakarta EE or from the JDK)
+// - unknown: not in the built-in table, e.g. a third-party javax package, so it needs to be checked manually
+export type JakartaStatus = 'renamed' | 'unchanged' | 'removed' | 'unknown';
+
+export interface JavaxPackage {
+    // Package prefix, e.g. `javax.servlet`
+    package: string;
+    status: Exclude<JakartaStatus, 'unknown'>;
+    // API family the package belongs to, e.g. `Servlet`
+    family: string;
+}
+
+// Built-in classification of the javax packages. Sub-packages belong to the longest matching prefix,
+// e.g. `javax.annotation.processing` stays in the JDK while `javax.annotation` is renamed.
+export const JAVAX_PACKAGES: JavaxPackage[] = [
+    { package: 'javax.activation', status: 'renamed', family: 'Activation' },
+    { package: 'javax.annotation', status: 'renamed', family: 'Annotations' },
+    { package: 'javax.batch', status: 'renamed', family: 'Batch' },
+    { package: 'javax.decorator', status: 'renamed', family: 'Contexts and Dependency Injection' },
+    { package: 'javax.ejb', status: 'renamed', family: 'Enterprise Beans' },
+    { package: 'javax.el', status: 'renamed', family: 'Expression Language' },
+    { package: 'javax.enterprise', status: 'renamed', family: 'Contexts and Dependency Injection' },
+    { package: 'javax.enterprise.concurrent', status: 'renamed', family: 'Concurrency' },
+    { package: 'javax.faces', status: 'renamed', family: 'Faces' },
+    { package: 'javax.inject', status: 'renamed', family: 'Dependency Injection' },
+    { package: 'javax.interceptor', status: 'renamed', family: 'Interceptors' },
+    { package: 'javax.jms', status: 'renamed', family: 'Messaging' },
+    { package: 'javax.json', status: 'renamed', family: 'JSON Processing' },
+    { package: 'javax.json.bind', status: 'renamed', family: 'JSON Binding' },
+    { package: 'javax.jws', status: 'renamed', family: 'XML Web Services' },
+    { package: 'javax.mail', status: 'renamed', family: 'Mail' },
+    { package: 'javax.persistence', status: 'renamed', family: 'Persistence' },
+    { package: 'javax.resource', status: 'renamed', family: 'Connectors' },
+    { package: 'javax.security.auth.message', status: 'renamed', family: 'Authentication' },
+    { package: 'javax.security.enterprise', status: 'renamed', family: 'Security' },
+    { package: 'javax.security.jacc', status: 'renamed', family: 'Authorization' },
+    { package: 'javax.servlet', status: 'renamed', family: 'Servlet' },
+    { package: 'javax.servlet.jsp', status: 'renamed', family: 'Server Pages' },
+    { package: 'javax.servlet.jsp.jstl', status: 'renamed', family: 'Standard Tag Library' },
+    { package: 'javax.transaction', status: 'renamed', family: 'Transactions' },
+    { package: 'javax.validation', status: 'renamed', family: 'Bean Validation' },
+    { package: 'javax.websocket', status: 'renamed', family: 'WebSocket' },
+    { package: 'javax.ws.rs', status: 'renamed', family: 'RESTful Web Services' },
+    { package: 'javax.xml.bind', status: 'renamed', family: 'XML Binding' },
+    { package: 'javax.xml.soap', status: 'renamed', family: 'SOAP with Attachments' },
+    { package: 'javax.xml.ws', status: 'renamed', family: 'XML Web Services' },
+
+    { package: 'javax.activity', status: 'removed', family: 'CORBA' },
+    { package: 'javax.enterprise.deploy', status: 'removed', family: 'Deployment' },
+    { package: 'javax.management.j2ee', status: 'removed', family: 'Management' },
+    { package: 'javax.rmi', status: 'removed', family: 'CORBA' },
+    { package: 'javax.xml.registry', status: 'removed', family: 'XML Registries' },
+    { package: 'javax.xml.rpc', status: 'removed', family: 'XML-based RPC' },
+
+    { package: 'javax.accessibility', status: 'unchanged', family: 'JDK: Desktop' },
+    { package: 'javax.annotation.processing', status: 'unchanged', family: 'JDK: Compiler' },
+    { package: 'javax.crypto', status: 'unchanged', family: 'JDK: Security' },
+    { package: 'javax.imageio', status: 'unchanged', family: 'JDK: Desktop' },
+    { package: 'javax.lang.model', status: 'unchanged', family: 'JDK: Compiler' },
+    { package: 'javax.management', status: 'unchanged', family: 'JDK: Management' },
+    { package: 'javax.naming', status: 'unchanged', family: 'JDK: Naming' },
+    { package: 'javax.net', status: 'unchanged', family: 'JDK: Networking' },
+    { package: 'javax.print', status: 'unchanged', family: 'JDK: Desktop' },
+    { package: 'javax.rmi.ssl', status: 'unchanged', family: 'JDK: Networking' },
+    { package: 'javax.script', status: 'unchanged', family: 'JDK: Scripting' },
+    { package: 'javax.security.auth', status: 'unchanged', family: 'JDK: Security' },
+    { package: 'javax.security.cert', status: 'unchanged', family: 'JDK: Security' },
+    { package: 'javax.security.sasl', status: 'unchanged', family: 'JDK: Security' },
+    { package: 'javax.smartcardio', status: 'unchanged', family: 'JDK: Security' },
+    { package: 'javax.sound', status: 'unchanged', family: 'JDK: Desktop' },
+    { package: 'javax.sql', status: 'unchanged', family: 'JDK: JDBC' },
+    { package: 'javax.swing', status: 'unchanged', family: 'JDK: Desktop' },
+    { package: 'javax.tools', status: 'unchanged', family: 'JDK: Compiler' },
+    { package: 'javax.transaction.xa', status: 'unchanged', family: 'JDK: XA Transactions' },
+    { package: 'javax.xml', status: 'unchanged', family: 'JDK: XML Processing' }
+];
+
+// A javax class called from internal code
+export interface JavaxClassUsage {
+    className: string;
+    status: JakartaStatus;
+    family: string;
+    // Name of the class after the rename, for renamed packages only
+    jakartaClassName?: string;
+    // Internal call sites, sorted
+    callSites: MethodCallSite[];
+}
+
+export interface JakartaFamilySummary {
+    family: string;
+    status: JakartaStatus;
+    classes: number;
+    callSites: number;
+    // Number of dependency records
+    calls: number;
+}
+
+export interface JakartaMigration {
+    // javax classes called from internal code, sorted by name
+    classes: JavaxClassUsage[];
+    // Usage per API family; removed and unknown first, then renamed and unchanged
+    families: JakartaFamilySummary[];
+}
+
+const STATUS_ORDER: JakartaStatus[] = ['removed', 'unknown', 'renamed', 'unchanged'];
+
+// Find the built-in entry of a javax package. Other javax packages are unknown; non-javax packages are undefined.
+export function classifyJavaxPackage(packageName: string): { status: JakartaStatus; family: string } | undefined {
+    if (!isWithinPackage(packageName, 'javax')) {
+        return undefined;
+    }
+    let match: JavaxPackage | undefined;
+    JAVAX_PACKAGES.forEach(entry => {
+        if (isWithinPackage(packageName, entry.package) && (!match || entry.package.length > match.package.length)) {
+            match = entry;
+        }
+    });
+    return match ? { status: match.status, family: match.family } : { status: 'unknown', family: 'Unknown' };
+}
+
+// Classify the javax classes called from internal code and count their usage per API family
+export function findJakartaMigration(result: PackageDependencyResult): JakartaMigration {
+    const classes: JavaxClassUsage[] = [];
+    result.externalMethodUsage.forEach(classUsage => {
+        const classification = classifyJavaxPackage(getPackageName(classUsage.className));
+        if (!classification) {
+            return;
+        }
+        const callSites: MethodCallSite[] = [];
+        classUsage.methods.forEach(method => callSites.push(...method.callers));
+        classes.push({
+            className: classUsage.className,
+            ...classification,
+            jakartaClassName: classification.status === 'renamed' ? `jakarta${classUsage.className.substring('javax'.length)}` : undefined,
+            callSites: callSites.sort((a, b) =>
+                a.sourceClass.localeCompare(b.sourceClass) ||
+                a.sourceMethod.localeCompare(b.sourceMethod) ||
+                a.targetMethod.localeCompare(b.targetMethod))
+        });
+    });
+    classes.sort((a, b) => a.className.localeCompare(b.className));
+
+    const families = new Map<string, JakartaFamilySummary>();
+    classes.forEach(usage => {
+        const key = `${usage.status}:${usage.family}`;
+        if (!families.has(key)) {
+            families.set(key, { family: usage.family, status: usage.status, classes: 0, callSites: 0, calls: 0 });
+        }
+        const summary = families.get(key)!;
+        summary.classes++;
+        summary.callSites += usage.callSites.length;
+        usage.callSites.forEach(callSite => summary.calls += callSite.callCount);
+    });
+
+    return {
+        classes,
+        families: Array.from(families.values()).sort((a, b) =>
+            STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.family.localeCompare(b.family))
+    };
+}
+
+// Generate the "Jakarta EE Migration" section of a report. Usages of unchanged JDK packages are only counted.
+export function createJakartaMigrationMarkdown(migration: JakartaMigration): string {
+    let markdownContent = '## Jakarta EE Migration\n\n';
+    if (migration.classes.length === 0) {
+        return markdownContent + '*No javax classes are called from internal code.*\n\n';
+    }
+    markdownContent += 'The `javax` APIs called from internal code: renamed APIs moved to `jakarta.*` in Jakarta EE 9, ' +
+        'unchanged APIs belong to the JDK and keep their names, removed APIs have no replacement, and unknown packages ' +
+        'are not in the built-in table and need to be checked manually.\n\n';
+
+    markdownContent += '| API Family | Status | Classes | Call Sites | Calls |\n';
+    markdownContent += '|------------|--------|---------|------------|-------|\n';
+    migration.families.forEach(family => {
+        markdownContent += `| ${family.family} | ${family.status} | ${family.classes} | ${family.callSites} | ${family.calls} |\n`;
+    });
+    markdownContent += '\n';
+
+    // Internal class -> internal method -> usages needing a change
+    const affectedClasses = new Map<string, Map<string, string[]>>();
+    migration.classes.filter(usage => usage.status !== 'unchanged').forEach(usage => {
+        const change = usage.status === 'renamed' ? `renamed to \`${usage.jakartaClassName}\`` : usage.status;
+        usage.callSites.forEach(callSite => {
+            if (!affectedClasses.has(callSite.sourceClass)) {
+                affectedClasses.set(callSite.sourceClass, new Map());
+            }
+            const methods = affectedClasses.get(callSite.sourceClass)!;
+            if (!methods.has(callSite.sourceMethod)) {
+                methods.set(callSite.sourceMethod, []);
+            }
+            methods.get(callSite.sourceMethod)!.push(`\`${callSite.targetClass}#${callSite.targetMethod}\` (${callSite.callCount}): ${change}`);
+        });
+    });
+
+    if (affectedClasses.size === 0) {
+        return markdownContent + '*Internal code only calls javax APIs that stay in the JDK.*\n\n';
+    }
+    markdownContent += `${affectedClasses.size} internal classes call javax APIs that are renamed, removed or unknown:\n\n`;
+    Array.from(affectedClasses.keys()).sort().forEach(className => {
+        markdownContent += `### \`${className}\`\n\n`;
+        const methods = affectedClasses.get(className)!;
+        Array.from(methods.keys()).sort().forEach(methodName => {
+            markdownContent += `- \`${methodName}\`\n`;
+            methods.get(methodName)!.sort().forEach(usage => {
+                markdownContent += `  - ${usage}\n`;
+            });
+        });
+        markdownContent += '\n';
+    });
+    return markdownContent;
+}
@@ -0,0 +1,195 @@
+import { PackageDependencyResult, MethodCallSite, getPackageName } from './package-dependencies';
+import { isWithinPackage } from './classification';
+import BUNDLED_JDK_API_CHANGES_DATA from './jdk-api-changes.json';
+
+// How an API changes in a newer JDK:
+// - removed: gone (or always throwing) from the `since` release on
+// - encapsulated: a JDK internal that can't be accessed from the `since` release on without --add-exports/--add-opens
+// - unsupported: a JDK internal that stays accessible (jdk.unsupported) but has no compatibility guarantees
+// - deprecated-for-removal: still there, but marked for removal in a future release
+export type JdkChangeKind = 'removed' | 'encapsulated' | 'unsupported' | 'deprecated-for-removal';
+
+// One entry of the data file. Exactly one of package, class and method names the API.
+export interface JdkApiChange {
+    // Package prefix, e.g. `javax.xml.bind`
+    package?: string;
+    // Fully qualified class name
+    class?: string;
+    // Method as `Class#method`, with `<init>` for constructors
+    method?: string;
+    change: JdkChangeKind;
+    // First JDK release with the change
+    since: number;
+    // Area of the JDK, e.g. `CORBA`, used to group the findings
+    component: string;
+    replacement?: string;
+    note?: string;
+}
+
+export interface JdkApiChangeData {
+    // Incremented whenever entries are added or changed, and shown in the report
+    version: number;
+    changes: JdkApiChange[];
+}
+
+// The data file shipped with the tool
+export const BUNDLED_JDK_API_CHANGES: JdkApiChangeData = BUNDLED_JDK_API_CHANGES_DATA as JdkApiChangeData;
+
+// The lowest target release: the analysis looks for what breaks when moving off Java 8
+export const MIN_TARGET_JDK = 9;
+
+// An API change that affects internal code, with the calls it affects
+export interface JdkApiFinding {
+    // The entry's package (as `package.*`), class or method
+    api: string;
+    change: JdkChangeKind;
+    since: number;
+    component: string;
+    replacement?: string;
+    note?: string;
+    // Called classes the change applies to, sorted
+    classes: string[];
+    // Internal call sites, sorted
+    callSites: MethodCallSite[];
+}
+
+export interface JdkCompatibility {
+    targetJdk: number;
+    // Version of the data file used
+    dataVersion: number;
+    // Findings sorted by change (removed first), then by API
+    findings: JdkApiFinding[];
+}
+
+const CHANGE_ORDER: JdkChangeKind[] = ['removed', 'encapsulated', 'unsupported', 'deprecated-for-removal'];
+
+function describeApi(change: JdkApiChange): string {
+    return change.method ?? change.class ?? `${change.package}.*`;
+}
+
+// Find the change that applies to a method when moving to the target release. The most specific
+// entries (method, then class, then the longest package) decide; of those, the latest release up
+// to the target wins. A specific entry that doesn't apply yet hides the more general ones.
+export function findJdkApiChange(
+    className: string,
+    methodName: string,
+    targetJdk: number,
+    data: JdkApiChangeData = BUNDLED_JDK_API_CHANGES
+): JdkApiChange | undefined {
+    const packageName = getPackageName(className);
+    const specificity = (change: JdkApiChange): number => {
+        if (change.method !== undefined) {
+            return change.method === `${className}#${methodName}` ? Number.MAX_SAFE_INTEGER : -1;
+        }
+        if (change.class !== undefined) {
+            return change.class === className ? Number.MAX_SAFE_INTEGER - 1 : -1;
+        }
+        return change.package !== undefined && isWithinPackage(packageName, change.package) ? change.package.length : -1;
+    };
+
+    let bestSpecificity = -1;
+    let matches: JdkApiChange[] = [];
+    data.changes.forEach(change => {
+        const value = specificity(change);
+        if (value > bestSpecificity) {
+            bestSpecificity = value;
+            matches = [change];
+        } else if (value === bestSpecificity && value >= 0) {
+            matches.push(change);
+        }
+    });
+
+    return matches
+        .filter(change => change.since <= targetJdk)
+        .sort((a, b) => b.since - a.since)[0];
+}
+
+// Check the called external methods against the API changes up to the target release
+export function findJdkCompatibility(
+    result: PackageDependencyResult,
+    targetJdk: number,
+    data: JdkApiChangeData = BUNDLED_JDK_API_CHANGES
+): JdkCompatibility {
+    const findings = new Map<JdkApiChange, JdkApiFinding>();
+    result.externalMethodUsage.forEach(classUsage => {
+        classUsage.methods.forEach(method => {
+            const change = findJdkApiChange(classUsage.className, method.methodName, targetJdk, data);
+            if (!change) {
+                return;
+            }
+
+            if (!findings.has(change)) {
+                findings.set(change, {
+                    api: describeApi(change),
+                    change: change.change,
+                    since: change.since,
+                    component: change.component,
+                    replacement: change.replacement,
+                    note: change.note,
+                    classes: [],
+                    callSites: []
+                });
+            }
+            const finding = findings.get(change)!;
+            if (!finding.classes.includes(classUsage.className)) {
+                finding.classes.push(classUsage.className);
+            }
+            finding.callSites.push(...method.callers);
+        });
+    });
+
+    findings.forEach(finding => {
+        finding.classes.sort();
+        finding.callSites.sort((a, b) =>
+            a.sourceClass.localeCompare(b.sourceClass) ||
+            a.sourceMethod.localeCompare(b.sourceMethod) ||
+            a.targetClass.localeCompare(b.targetClass) ||
+            a.targetMethod.localeCompare(b.targetMethod));
+    });
+
+    return {
+        targetJdk,
+        dataVersion: data.version,
+        findings: Array.from(findings.values()).sort((a, b) =>
+            CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change) || a.api.localeCompare(b.api))
+    };
+}
+
+// Generate the "JDK Compatibility" section of a report
+export function createJdkCompatibilityMarkdown(compatibility: JdkCompatibility): string {
+    let markdownContent = '## JDK Compatibility\n\n';
+    markdownContent += `JDK APIs called from internal code that are removed, encapsulated, unsupported or deprecated for removal ` +
+        `in JDK ${compatibility.targetJdk} or earlier (JDK API data version ${compatibility.dataVersion}).\n\n`;
+    if (compatibility.findings.length === 0) {
+        return markdownContent + `*No calls of APIs changed up to JDK ${compatibility.targetJdk} found.*\n\n`;
+    }
+
+    markdownContent += '| API | Change | Since JDK | Component | Replacement | Classes | Call Sites |\n';
+    markdownContent += '|-----|--------|-----------|-----------|-------------|---------|------------|\n';
+    compatibility.findings.forEach(finding => {
+        markdownContent += `| \`${finding.api}\` | ${finding.change} | ${finding.since} | ${finding.component} | ` +
+            `${finding.replacement ?? ''} | ${finding.classes.length} | ${finding.callSites.length} |\n`;
+    });
+    markdownContent += '\n';
+
+    // Internal class -> calls of changed APIs
+    const callsByClass = new Map<string, string[]>();
+    compatibility.findings.forEach(finding => {
+        finding.callSites.forEach(callSite => {
+            if (!callsByClass.has(callSite.sourceClass)) {
+                callsByClass.set(callSite.sourceClass, []);
+            }
+            callsByClass.get(callSite.sourceClass)!.push(
+                `\`${callSite.sourceMethod}\` → \`${callSite.targetClass}#${callSite.targetMethod}\` (${callSite.callCount}): ` +
+                `${finding.change} in JDK ${finding.since}${finding.note ? ` (${finding.note})` : ''}`);
+        });
+    });
+    Array.from(callsByClass.keys()).sort().forEach(className => {
+        markdownContent += `### \`${className}\`\n\n`;
+        callsByClass.get(className)!.sort().forEach(call => {
+            markdownContent += `- ${call}\n`;
+        });
+        markdownContent += '\n';
+    });
+    return markdownContent;
+}
@@ -0,0 +1,152 @@
+import { AdvisoryFinding } from './advisories';
+import { RuleViolation } from './architecture-rules';
+import { InputSummary } from './jsonl-input';
+import { DependencyMetrics } from './metrics';
+import { JakartaMigration } from './jakarta-migration';
+import { JdkCompatibility } from './jdk-compatibility';
+import { CloudReadiness } from './cloud-readiness';
+import { PackageDependencyResult, DependencyCycles, DependencyWeight, ArtifactDependency, ClassMethodUsage, LibraryUsage } from './package-dependencies';
+
+// Version of the JSON report schema. Bump when fields are renamed or removed.
+export const JSON_REPORT_SCHEMA_VERSION = 1;
+
+export type PackageType = 'internal' | 'external';
+
+export interface JsonSubPackage {
+    name: string;
+    classCount: number;
+}
+
+export interface JsonBasePackage {
+    name: string;
+    type: PackageType;
+    classCount: number;
+    subPackages: JsonSubPackage[];
+    // Base packages this base package depends on
+    dependencies: string[];
+}
+
+export interface JsonDependencyEdge {
+    source: string;
+    target: string;
+}
+
+// A dependency between packages or base packages with its records and distinct source and target classes
+export interface JsonWeightedDependencyEdge extends JsonDependencyEdge, DependencyWeight {}
+
+export interface JsonArtifact {
+    artifactId: string;
+    fileName: string;
+    version: string;
+    // Number of classes contained in the artifact
+    classCount: number;
+    // Packages seen in the artifact's records (source and target packages)
+    packages: string[];
+}
+
+export interface JsonDuplicateClass {
+    className: string;
+    artifacts: string[];
+}
+
+// Machine-readable equivalent of the Markdown report
+export interface JsonReport {
+    schemaVersion: number;
+    // Files read with accepted, rejected and blank line counts; missing when the records weren't read from JSONL files
+    inputSummary?: InputSummary;
+    // Library name -> number of unique classes matched
+    libraryCounts: { [key: string]: number };
+    // Catalogued libraries called from internal code
+    externalLibraries: LibraryUsage[];
+    // Advisories whose affected code is called from internal code
+    advisoryFindings: AdvisoryFinding[];
+    // Dependencies breaking the architecture rules
+    ruleViolations: RuleViolation[];
+    // javax classes called from internal code, classified as renamed, unchanged, removed or unknown in Jakarta EE
+    jakartaMigration: JakartaMigration;
+    // Called JDK APIs changed up to the target JDK; missing without --target-jdk
+    jdkCompatibility?: JdkCompatibility;
+    // Application server and host coupling with the containerization score
+    cloudReadiness: CloudReadiness;
+    basePackages: JsonBasePackage[];
+    // Dependencies between base packages
+    dependencies: JsonWeightedDependencyEdge[];
+    // Dependencies between packages
+    packageDependencies: JsonWeightedDependencyEdge[];
+    artifacts: JsonArtifact[];
+    // Dependencies between artifacts with class dependency and call counts
+    artifactDependencies: ArtifactDependency[];
+    // Classes contained in more than one artifact
+    duplicateClasses: JsonDuplicateClass[];
+    // Methods of external classes and the internal methods that call them
+    externalMethodUsage: ClassMethodUsage[];
+    // Coupling metrics of the internal packages and base packages
+    metrics: DependencyMetrics;
+    cycles: DependencyCycles;
+}
+
+// Flatten dependency weights into edges sorted by source and target
+export function createWeightedEdges(weights: ReadonlyMap<string, ReadonlyMap<string, DependencyWeight>>): JsonWeightedDependencyEdge[] {
+    const edges: JsonWeightedDependencyEdge[] = [];
+    Array.from(weights.keys()).sort().forEach(source => {
+        const targets = weights.get(source)!;
+        Array.from(targets.keys()).sort().forEach(target => {
+            edges.push({ source, target, ...targets.get(target)! });
+        });
+    });
+    return edges;
+}
+
+// Build the JSON report from the extractor result. Every list is sorted so reports can be diffed.
+export function createJsonReport(result: PackageDependencyResult): JsonReport {
+    const basePackages: JsonBasePackage[] = Array.from(result.basePackages.keys()).sort().map(basePackage => {
+        const subPackages = Array.from(result.basePackages.get(basePackage)!).sort().map(subPackage => ({
+            name: subPackage,
+            classCount: result.packages.get(subPackage)!.classes.size
+        }));
+
+        return {
+            name: basePackage,
+            type: result.externalBasePackages.has(basePackage) ? 'external' : 'internal',
+            classCount: subPackages.reduce((total, subPackage) => total + subPackage.classCount, 0),
+            subPackages,
+            dependencies: Array.from(result.basePackageDependencies.get(basePackage) ?? []).sort()
+        };
+    });
+
+    const artifacts: JsonArtifact[] = Array.from(result.artifacts.keys()).sort().map(artifactId => {
+        const info = result.artifactInfo.get(artifactId)!;
+
+        return {
+            artifactId,
+            fileName: info.fileName,
+            version: info.version,
+            classCount: info.classes.size,
+            packages: Array.from(result.artifacts.get(artifactId)!).sort()
+        };
+    });
+
+    const duplicateClasses: JsonDuplicateClass[] = Array.from(result.duplicateClasses.entries())
+        .map(([className, artifactIds]) => ({ className, artifacts: artifactIds }));
+
+    return {
+        schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+        inputSummary: result.inputSummary,
+        libraryCounts: result.libraryCounts,
+        externalLibraries: result.externalLibraries,
+        advisoryFindings: result.advisoryFindings,
+        ruleViolations: result.ruleViolations,
+        jakartaMigration: result.jakartaMigration,
+        jdkCompatibility: result.jdkCompatibility,
+        cloudReadiness: result.cloudReadiness,
+        basePackages,
+        dependencies: createWeightedEdges(result.basePackageDependencyWeights),
+        packageDependencies: createWeightedEdges(result.dependencyWeights),
+        artifacts,
+        artifactDependencies: result.artifactDependencyCounts,
+        duplicateClasses,
+        externalMethodUsage: result.externalMethodUsage,
+        metrics: result.metrics,
+        cycles: result.cycles
+    };
+}
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { DependencyRecord } from './types';
+
+// Number of invalid lines printed (and kept in the summary) before the rest are only counted
+export const DEFAULT_MAX_ERRORS = 20;
+
+// Fields holding class names, and the other fields of a DependencyRecord. All of them are required.
+const CLASS_FIELDS = ['sourceClass', 'targetClass'];
+const STRING_FIELDS = [
+    'appSetName',
+    'applicationName',
+    'artifactFileName',
+    'artifactId',
+    'artifactGroup',
+    'artifactVersion',
+    'sourceMethod',
+    'targetMethod'
+];
+
+// Dot-separated names without whitespace or empty segments. Descriptors such as `[Lcom.example.Foo;`
+// and slash-separated names pass and are normalized later.
+const CLASS_NAME_PATTERN = /^[^\s.]+(\.[^\s.]+)*$/;
+
+// An input line that was rejected
+export interface InputError {
+    file: string;
+    // 1-based line number
+    line: number;
+    message: string;
+}
+
+// What was read from the input files. Rejected lines mean the report is built from part of the
+// data only, e.g. because an export was truncated.
+export interface InputSummary {
+    files: string[];
+    acceptedLines: number;
+    rejectedLines: number;
+    blankLines: number;
+    // The first rejected lines, up to the error limit
+    errors: InputError[];
+}
+
+export interface ReadOptions {
+    // Abort at the first invalid line instead of skipping it
+    strict?: boolean;
+    // Number of invalid lines printed, default DEFAULT_MAX_ERRORS
+    maxErrors?: number;
+    // Summary the counts are added to, to share one summary between several files
+    summary?: InputSummary;
+}
+
+export function createInputSummary(): InputSummary {
+    return { files: [], acceptedLines: 0, rejectedLines: 0, blankLines: 0, errors: [] };
+}
+
+// Check a parsed line against the DependencyRecord schema, returning the problems found
+export function validateRecord(value: unknown): string[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return ['Record must be a JSON object'];
+    }
+
+    const record = value as Record<string, unknown>;
+    const problems: string[] = [];
+    [...CLASS_FIELDS, ...STRING_FIELDS].forEach(field => {
+        const fieldValue = record[field];
+        if (fieldValue === undefined || fieldValue === null) {
+            problems.push(`'${field}' is missing`);
+        } else if (typeof fieldValue !== 'string') {
+            problems.push(`'${field}' must be a string`);
+        } else if (CLASS_FIELDS.includes(field) && !CLASS_NAME_PATTERN.test(fieldValue)) {
+            problems.push(`'${field}' is not a class name: '${fieldValue}'`);
+        }
+    });
+    return problems;
+}
+
+// Describe the summary in one line, e.g. "Read 2 files: 1200 lines accepted, 3 rejected, 1 blank"
+export function formatInputSummary(summary: InputSummary): string {
+    const files = `${summary.files.length} file${summary.files.length === 1 ? '' : 's'}`;
+    return `Read ${files}: ${summary.acceptedLines} lines accepted, ${summary.rejectedLines} rejected, ${summary.blankLines} blank`;
+}
+
+// Generate the "Input" section of a report. Rejected lines are listed with a warning that the report may be incomplete.
+export function createInputSummaryMarkdown(summary: InputSummary): string {
+    let markdownContent = '## Input\n\n';
+    markdownContent += '| Files | Accepted Lines | Rejected Lines | Blank Lines |\n';
+    markdownContent += '|-------|----------------|----------------|-------------|\n';
+    markdownContent += `| ${summary.files.map(file => `\`${file}\``).join(', ')} | ${summary.acceptedLines} | ${summary.rejectedLines} | ${summary.blankLines} |\n\n`;
+
+    if (summary.rejectedLines > 0) {
+        markdownContent += `**Warning:** ${summary.rejectedLines} lines could not be read, so this report may be incomplete.\n\n`;
+        summary.errors.forEach(error => {
+            markdownContent += `- \`${error.file}\` line ${error.line}: ${error.message}\n`;
+        });
+        if (summary.errors.length < summary.rejectedLines) {
+            markdownContent += `- ...and ${summary.rejectedLines - summary.errors.length} more\n`;
+        }
+        markdownContent += '\n';
+    }
+    return markdownContent;
+}
+
+// Read the dependency records of a JSONL file one at a time. Blank lines are skipped. Invalid lines
+// are reported with their line number and skipped, or abort the read in strict mode.
+export async function* readJsonlRecords(filePath: string, options: ReadOptions = {}): AsyncGenerator<DependencyRecord> {
+    const summary = options.summary ?? createInputSummary();
+    const maxErrors = options.maxErrors ?? DEFAULT_MAX_ERRORS;
+    summary.files.push(filePath);
+
+    const fileStream = fs.createReadStream(filePath);
+    const rl = readline.createInterface({
+        input: fileStream,
+        crlfDelay: Infinity
+    });
+
+    let lineNumber = 0;
+    for await (const line of rl) {
+        lineNumber++;
+        if (!line.trim()) {
+            summary.blankLines++;
+            continue;
+        }
+
+        let record: unknown;
+        let problems: string[];
+        try {
+            record = JSON.parse(line);
+            problems = validateRecord(record);
+        } catch (error) {
+            problems = [`Invalid JSON: ${error instanceof Error ? error.message : error}`];
+        }
+
+        if (problems.length > 0) {
+            const message = problems.join('; ');
+            if (options.strict) {
+                fileStream.destroy();
+                throw new Error(`${filePath}:${lineNumber}: ${message}`);
+            }
+
+            summary.rejectedLines++;
+            if (summary.errors.length < maxErrors) {
+                summary.errors.push({ file: filePath, line: lineNumber, message });
+                console.error(`${filePath}:${lineNumber}: ${message}`);
+            } else if (summary.rejectedLines === summary.errors.length + 1) {
+                console.error(`More than ${maxErrors} invalid lines, further errors are only counted`);
+            }
+            continue;
+        }
+
+        summary.acceptedLines++;
+        yield record as DependencyRecord;
+    }
+}
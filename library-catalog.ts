@@ -0,0 +1,106 @@
+import { isWithinPackage } from './classification';
+
+// A known library and the packages its classes live in
+export interface LibraryDefinition {
+    groupId: string;
+    artifactId: string;
+    name: string;
+    // SPDX license identifier
+    license: string;
+    // Package prefixes owned by the library
+    packages: string[];
+}
+
+// Libraries commonly found in Java EE applications. Where a vendor's packages are split across
+// several artifacts (e.g. Spring), each artifact gets its own entry with the more specific prefix.
+export const BUILT_IN_LIBRARIES: LibraryDefinition[] = [
+    { groupId: 'org.apache.struts', artifactId: 'struts-core', name: 'Apache Struts 1', license: 'Apache-2.0', packages: ['org.apache.struts'] },
+    { groupId: 'org.apache.struts', artifactId: 'struts2-core', name: 'Apache Struts 2', license: 'Apache-2.0', packages: ['org.apache.struts2', 'com.opensymphony.xwork2'] },
+    { groupId: 'org.apache.tiles', artifactId: 'tiles-core', name: 'Apache Tiles', license: 'Apache-2.0', packages: ['org.apache.tiles'] },
+    { groupId: 'log4j', artifactId: 'log4j', name: 'Apache Log4j 1', license: 'Apache-2.0', packages: ['org.apache.log4j'] },
+    { groupId: 'org.apache.logging.log4j', artifactId: 'log4j-api', name: 'Apache Log4j 2 API', license: 'Apache-2.0', packages: ['org.apache.logging.log4j'] },
+    { groupId: 'org.apache.logging.log4j', artifactId: 'log4j-core', name: 'Apache Log4j 2 Core', license: 'Apache-2.0', packages: ['org.apache.logging.log4j.core'] },
+    { groupId: 'commons-lang', artifactId: 'commons-lang', name: 'Apache Commons Lang 2', license: 'Apache-2.0', packages: ['org.apache.commons.lang'] },
+    { groupId: 'org.apache.commons', artifactId: 'commons-lang3', name: 'Apache Commons Lang 3', license: 'Apache-2.0', packages: ['org.apache.commons.lang3'] },
+    { groupId: 'org.apache.commons', artifactId: 'commons-text', name: 'Apache Commons Text', license: 'Apache-2.0', packages: ['org.apache.commons.text'] },
+    { groupId: 'commons-io', artifactId: 'commons-io', name: 'Apache Commons IO', license: 'Apache-2.0', packages: ['org.apache.commons.io'] },
+    { groupId: 'commons-collections', artifactId: 'commons-collections', name: 'Apache Commons Collections 3', license: 'Apache-2.0', packages: ['org.apache.commons.collections'] },
+    { groupId: 'org.apache.commons', artifactId: 'commons-collections4', name: 'Apache Commons Collections 4', license: 'Apache-2.0', packages: ['org.apache.commons.collections4'] },
+    { groupId: 'commons-logging', artifactId: 'commons-logging', name: 'Apache Commons Logging', license: 'Apache-2.0', packages: ['org.apache.commons.logging'] },
+    { groupId: 'commons-beanutils', artifactId: 'commons-beanutils', name: 'Apache Commons BeanUtils', license: 'Apache-2.0', packages: ['org.apache.commons.beanutils'] },
+    { groupId: 'commons-codec', artifactId: 'commons-codec', name: 'Apache Commons Codec', license: 'Apache-2.0', packages: ['org.apache.commons.codec'] },
+    { groupId: 'commons-fileupload', artifactId: 'commons-fileupload', name: 'Apache Commons FileUpload', license: 'Apache-2.0', packages: ['org.apache.commons.fileupload'] },
+    { groupId: 'commons-digester', artifactId: 'commons-digester', name: 'Apache Commons Digester', license: 'Apache-2.0', packages: ['org.apache.commons.digester'] },
+    { groupId: 'commons-validator', artifactId: 'commons-validator', name: 'Apache Commons Validator', license: 'Apache-2.0', packages: ['org.apache.commons.validator'] },
+    { groupId: 'commons-dbcp', artifactId: 'commons-dbcp', name: 'Apache Commons DBCP', license: 'Apache-2.0', packages: ['org.apache.commons.dbcp'] },
+    { groupId: 'commons-pool', artifactId: 'commons-pool', name: 'Apache Commons Pool', license: 'Apache-2.0', packages: ['org.apache.commons.pool'] },
+    { groupId: 'commons-httpclient', artifactId: 'commons-httpclient', name: 'Apache Commons HttpClient 3', license: 'Apache-2.0', packages: ['org.apache.commons.httpclient'] },
+    { groupId: 'org.apache.httpcomponents', artifactId: 'httpclient', name: 'Apache HttpClient 4', license: 'Apache-2.0', packages: ['org.apache.http'] },
+    { groupId: 'org.apache.poi', artifactId: 'poi', name: 'Apache POI', license: 'Apache-2.0', packages: ['org.apache.poi'] },
+    { groupId: 'xerces', artifactId: 'xercesImpl', name: 'Apache Xerces', license: 'Apache-2.0', packages: ['org.apache.xerces'] },
+    { groupId: 'xalan', artifactId: 'xalan', name: 'Apache Xalan', license: 'Apache-2.0', packages: ['org.apache.xalan', 'org.apache.xpath'] },
+    { groupId: 'axis', artifactId: 'axis', name: 'Apache Axis 1', license: 'Apache-2.0', packages: ['org.apache.axis'] },
+    { groupId: 'org.apache.cxf', artifactId: 'cxf-core', name: 'Apache CXF', license: 'Apache-2.0', packages: ['org.apache.cxf'] },
+    { groupId: 'org.apache.velocity', artifactId: 'velocity', name: 'Apache Velocity', license: 'Apache-2.0', packages: ['org.apache.velocity'] },
+    { groupId: 'org.freemarker', artifactId: 'freemarker', name: 'FreeMarker', license: 'Apache-2.0', packages: ['freemarker'] },
+    { groupId: 'org.mybatis', artifactId: 'mybatis', name: 'MyBatis', license: 'Apache-2.0', packages: ['org.apache.ibatis'] },
+    { groupId: 'org.springframework', artifactId: 'spring-core', name: 'Spring Core', license: 'Apache-2.0', packages: ['org.springframework.core', 'org.springframework.util'] },
+    { groupId: 'org.springframework', artifactId: 'spring-beans', name: 'Spring Beans', license: 'Apache-2.0', packages: ['org.springframework.beans'] },
+    { groupId: 'org.springframework', artifactId: 'spring-context', name: 'Spring Context', license: 'Apache-2.0', packages: ['org.springframework.context', 'org.springframework.stereotype', 'org.springframework.scheduling'] },
+    { groupId: 'org.springframework', artifactId: 'spring-aop', name: 'Spring AOP', license: 'Apache-2.0', packages: ['org.springframework.aop'] },
+    { groupId: 'org.springframework', artifactId: 'spring-jdbc', name: 'Spring JDBC', license: 'Apache-2.0', packages: ['org.springframework.jdbc'] },
+    { groupId: 'org.springframework', artifactId: 'spring-orm', name: 'Spring ORM', license: 'Apache-2.0', packages: ['org.springframework.orm'] },
+    { groupId: 'org.springframework', artifactId: 'spring-tx', name: 'Spring Transaction', license: 'Apache-2.0', packages: ['org.springframework.transaction', 'org.springframework.dao'] },
+    { groupId: 'org.springframework', artifactId: 'spring-web', name: 'Spring Web', license: 'Apache-2.0', packages: ['org.springframework.web', 'org.springframework.http'] },
+    { groupId: 'org.springframework', artifactId: 'spring-webmvc', name: 'Spring Web MVC', license: 'Apache-2.0', packages: ['org.springframework.web.servlet'] },
+    { groupId: 'org.hibernate', artifactId: 'hibernate-core', name: 'Hibernate ORM', license: 'LGPL-2.1-only', packages: ['org.hibernate'] },
+    { groupId: 'com.fasterxml.jackson.core', artifactId: 'jackson-core', name: 'Jackson Core', license: 'Apache-2.0', packages: ['com.fasterxml.jackson.core'] },
+    { groupId: 'com.fasterxml.jackson.core', artifactId: 'jackson-databind', name: 'Jackson Databind', license: 'Apache-2.0', packages: ['com.fasterxml.jackson.databind'] },
+    { groupId: 'com.fasterxml.jackson.core', artifactId: 'jackson-annotations', name: 'Jackson Annotations', license: 'Apache-2.0', packages: ['com.fasterxml.jackson.annotation'] },
+    { groupId: 'org.codehaus.jackson', artifactId: 'jackson-mapper-asl', name: 'Jackson 1', license: 'Apache-2.0', packages: ['org.codehaus.jackson'] },
+    { groupId: 'com.google.code.gson', artifactId: 'gson', name: 'Gson', license: 'Apache-2.0', packages: ['com.google.gson'] },
+    { groupId: 'com.google.guava', artifactId: 'guava', name: 'Guava', license: 'Apache-2.0', packages: ['com.google.common'] },
+    { groupId: 'org.slf4j', artifactId: 'slf4j-api', name: 'SLF4J API', license: 'MIT', packages: ['org.slf4j'] },
+    { groupId: 'ch.qos.logback', artifactId: 'logback-core', name: 'Logback Core', license: 'EPL-1.0', packages: ['ch.qos.logback.core'] },
+    { groupId: 'ch.qos.logback', artifactId: 'logback-classic', name: 'Logback Classic', license: 'EPL-1.0', packages: ['ch.qos.logback.classic'] },
+    { groupId: 'joda-time', artifactId: 'joda-time', name: 'Joda-Time', license: 'Apache-2.0', packages: ['org.joda.time'] },
+    { groupId: 'org.quartz-scheduler', artifactId: 'quartz', name: 'Quartz Scheduler', license: 'Apache-2.0', packages: ['org.quartz'] },
+    { groupId: 'net.sf.ehcache', artifactId: 'ehcache', name: 'Ehcache 2', license: 'Apache-2.0', packages: ['net.sf.ehcache'] },
+    { groupId: 'org.bouncycastle', artifactId: 'bcprov-jdk18on', name: 'Bouncy Castle Provider', license: 'MIT', packages: ['org.bouncycastle'] },
+    { groupId: 'junit', artifactId: 'junit', name: 'JUnit 4', license: 'EPL-1.0', packages: ['org.junit', 'junit.framework'] }
+];
+
+// Maven coordinates of a library, e.g. `log4j:log4j`
+export function libraryCoordinates(library: LibraryDefinition): string {
+    return `${library.groupId}:${library.artifactId}`;
+}
+
+export class LibraryCatalog {
+    private libraries: Map<string, LibraryDefinition> = new Map();
+    // [package prefix, library], longest prefixes first so the first match is the most specific one
+    private prefixes: Array<[string, LibraryDefinition]> = [];
+
+    // Additional libraries extend the built-in catalog. An additional library with the same
+    // coordinates as a built-in one replaces it.
+    constructor(additionalLibraries: LibraryDefinition[] = [], builtInLibraries: LibraryDefinition[] = BUILT_IN_LIBRARIES) {
+        [...builtInLibraries, ...additionalLibraries].forEach(library => {
+            this.libraries.set(libraryCoordinates(library), library);
+        });
+
+        this.libraries.forEach(library => {
+            library.packages.forEach(prefix => this.prefixes.push([prefix, library]));
+        });
+        this.prefixes.sort((a, b) => b[0].split('.').length - a[0].split('.').length);
+    }
+
+    // Find the library that owns a package, if any
+    findLibrary(packageName: string): LibraryDefinition | undefined {
+        const match = this.prefixes.find(([prefix]) => isWithinPackage(packageName, prefix));
+        return match ? match[1] : undefined;
+    }
+
+    // Find a library by its Maven coordinates, e.g. `log4j:log4j`
+    findLibraryByCoordinates(coordinates: string): LibraryDefinition | undefined {
+        return this.libraries.get(coordinates);
+    }
+}
@@ -0,0 +1,120 @@
+import { PackageDependencyResult } from './package-dependencies';
+
+// Metrics the tables can be sorted by. All sort in descending order.
+export type MetricName = 'afferent' | 'efferent' | 'instability' | 'external-ratio';
+
+export const METRIC_NAMES: MetricName[] = ['afferent', 'efferent', 'instability', 'external-ratio'];
+
+export interface MetricsOptions {
+    // Default: efferent
+    sortBy?: MetricName;
+    // Number of hotspots listed, default 10
+    top?: number;
+}
+
+// Package design metrics of an internal package or base package
+export interface PackageMetrics {
+    name: string;
+    // Afferent coupling (Ca): packages depending on this package
+    afferentCoupling: number;
+    // Efferent coupling (Ce): packages this package depends on
+    efferentCoupling: number;
+    // Ce / (Ca + Ce): 0 for packages that are only depended upon, 1 for packages nothing depends on
+    instability: number;
+    // Share of the efferent dependencies that are external packages
+    externalDependencyRatio: number;
+}
+
+export interface DependencyMetrics {
+    sortBy: MetricName;
+    // Internal packages and base packages, sorted by the metric (descending) and then by name
+    packages: PackageMetrics[];
+    basePackages: PackageMetrics[];
+    // The first packages of the sorted list
+    hotspots: PackageMetrics[];
+}
+
+const DEFAULT_TOP = 10;
+
+const METRIC_VALUES: { [metric in MetricName]: (metrics: PackageMetrics) => number } = {
+    'afferent': metrics => metrics.afferentCoupling,
+    'efferent': metrics => metrics.efferentCoupling,
+    'instability': metrics => metrics.instability,
+    'external-ratio': metrics => metrics.externalDependencyRatio
+};
+
+// Compute the metrics of the internal nodes of one dependency graph
+function computeGraphMetrics(
+    names: Iterable<string>,
+    dependencies: ReadonlyMap<string, ReadonlySet<string>>,
+    isExternal: (name: string) => boolean
+): PackageMetrics[] {
+    const dependents = new Map<string, number>();
+    dependencies.forEach(targets => {
+        targets.forEach(target => dependents.set(target, (dependents.get(target) ?? 0) + 1));
+    });
+
+    return Array.from(names).filter(name => !isExternal(name)).map(name => {
+        const targets = Array.from(dependencies.get(name) ?? []);
+        const afferentCoupling = dependents.get(name) ?? 0;
+        const efferentCoupling = targets.length;
+        const externalCount = targets.filter(isExternal).length;
+        return {
+            name,
+            afferentCoupling,
+            efferentCoupling,
+            instability: afferentCoupling + efferentCoupling > 0 ? efferentCoupling / (afferentCoupling + efferentCoupling) : 0,
+            externalDependencyRatio: efferentCoupling > 0 ? externalCount / efferentCoupling : 0
+        };
+    });
+}
+
+// Compute coupling metrics for every internal package and base package
+export function computeMetrics(result: PackageDependencyResult, options: MetricsOptions = {}): DependencyMetrics {
+    const sortBy = options.sortBy ?? 'efferent';
+    const value = METRIC_VALUES[sortBy];
+    const byMetric = (a: PackageMetrics, b: PackageMetrics) => value(b) - value(a) || a.name.localeCompare(b.name);
+
+    const packages = computeGraphMetrics(
+        Array.from(result.packages.keys()).filter(name => name !== ''),
+        result.dependencies,
+        name => result.packages.get(name)?.isExternal ?? true
+    ).sort(byMetric);
+    const basePackages = computeGraphMetrics(
+        result.basePackages.keys(),
+        result.basePackageDependencies,
+        name => result.externalBasePackages.has(name)
+    ).sort(byMetric);
+
+    return { sortBy, packages, basePackages, hotspots: packages.slice(0, options.top ?? DEFAULT_TOP) };
+}
+
+function createMetricsTable(metrics: PackageMetrics[]): string {
+    let markdownContent = '| Package | Ca | Ce | Instability | External Ratio |\n';
+    markdownContent += '|---------|----|----|-------------|----------------|\n';
+    metrics.forEach(packageMetrics => {
+        markdownContent += `| \`${packageMetrics.name}\` | ${packageMetrics.afferentCoupling} | ${packageMetrics.efferentCoupling} | ` +
+            `${packageMetrics.instability.toFixed(2)} | ${packageMetrics.externalDependencyRatio.toFixed(2)} |\n`;
+    });
+    return markdownContent + '\n';
+}
+
+// Generate the "Metrics" section of a report
+export function createMetricsMarkdown(metrics: DependencyMetrics): string {
+    let markdownContent = '## Metrics\n\n';
+    markdownContent += 'Coupling of the internal packages: afferent coupling (Ca) is the number of packages depending on a package, ' +
+        'efferent coupling (Ce) the number of packages it depends on, instability is Ce / (Ca + Ce) and the external ratio ' +
+        `is the share of its dependencies that are external. Tables are sorted by ${metrics.sortBy}.\n\n`;
+
+    markdownContent += '### Base Packages\n\n';
+    markdownContent += metrics.basePackages.length > 0 ? createMetricsTable(metrics.basePackages) : '*No internal base packages found.*\n\n';
+
+    markdownContent += '### Hotspots\n\n';
+    if (metrics.hotspots.length === 0) {
+        markdownContent += '*No internal packages found.*\n\n';
+    } else {
+        markdownContent += `The top ${metrics.hotspots.length} of ${metrics.packages.length} internal packages. The JSON report lists all of them.\n\n`;
+        markdownContent += createMetricsTable(metrics.hotspots);
+    }
+    return markdownContent;
+}
@@ -1,45 +1,251 @@
-#!/usr/bin/env node
-
 import * as fs from 'fs';
-import * as readline from 'readline';
-import * as path from 'path';
-
-// Interface for dependency data in JSONL
-interface DependencyRecord {
-    appSetName: string;
-    applicationName: string;
-    artifactFileName: string;
+import { DependencyRecord } from './types';
+import { findStronglyConnectedComponents } from './graph-utils';
+import { createJsonReport } from './json-report';
+import { DiagramOptions, createDotDiagram, createMermaidDiagram } from './diagrams';
+import { createHtmlReport } from './html-report';
+import { DependencyMatrix, computeDependencyMatrix, createDsmCsv, createDsmHtmlPage, createDsmMarkdown } from './dsm';
+import { ClassificationOptions, PackageClassifier } from './classification';
+import { GroupingOptions, PackageGrouper } from './grouping';
+import { LibraryCatalog, LibraryDefinition, libraryCoordinates } from './library-catalog';
+import { Advisory, AdvisoryFinding, findAdvisoryFindings } from './advisories';
+import { ArchitectureRule, ArchitectureRuleChecker, RuleViolation } from './architecture-rules';
+import { DependencyMetrics, MetricsOptions, computeMetrics, createMetricsMarkdown } from './metrics';
+import { JakartaMigration, createJakartaMigrationMarkdown, findJakartaMigration } from './jakarta-migration';
+import { JdkCompatibility, createJdkCompatibilityMarkdown, findJdkCompatibility } from './jdk-compatibility';
+import { CloudReadiness, createCloudReadinessMarkdown, findCloudReadiness } from './cloud-readiness';
+import { DependencyQueryOptions, DependencyQueryResult, queryDependents } from './dependency-query';
+import { ImpactAnalysis, ImpactOptions, TransitiveDependencies, computeImpact, computeTransitiveDependencies } from './impact-analysis';
+import { ClassNameOptions, canonicalizeClassName, normalizeClassName } from './class-names';
+import { InputSummary, ReadOptions, createInputSummary, createInputSummaryMarkdown, readJsonlRecords } from './jsonl-input';
+
+export interface PackageInfo {
+    name: string;
+    classes: Set<string>;
+    isExternal: boolean;
+}
+
+// Options for how the extractor interprets the records
+export interface ExtractorOptions {
+    // Patterns overriding which packages are internal or external
+    classification?: ClassificationOptions;
+    // Rules for grouping packages into base packages
+    grouping?: GroupingOptions;
+    // Libraries added to (or replacing entries of) the built-in library catalog
+    libraries?: LibraryDefinition[];
+    // Advisories to match against the called external classes and methods
+    advisories?: Advisory[];
+    // Dependency rules to check
+    rules?: ArchitectureRule[];
+    // Keep nested classes apart from their outer class (see ClassNameOptions)
+    keepInnerClasses?: boolean;
+    // How the coupling metrics are sorted and how many hotspots are listed
+    metrics?: MetricsOptions;
+    // JDK release to check the called JDK APIs against (see jdk-compatibility.ts)
+    targetJdk?: number;
+}
+
+// Interface for tracking specific library counts
+interface LibraryCounts {
+    [key: string]: Set<string>;
+}
+
+// An artifact (JAR/WAR inside the EAR) and the classes it contains
+export interface ArtifactInfo {
     artifactId: string;
-    artifactGroup: string;
-    artifactVersion: string;
+    // File name and version from the first record seen for the artifact
+    fileName: string;
+    version: string;
+    // Fully qualified names of the classes that appear as source classes in the artifact's records
+    classes: Set<string>;
+}
+
+// How strongly one package (or base package) depends on another
+export interface DependencyWeight {
+    // Number of dependency records
+    records: number;
+    // Number of distinct classes making and receiving the calls
+    sourceClasses: number;
+    targetClasses: number;
+}
+
+// Calls from classes in one artifact into classes contained in another artifact
+export interface ArtifactDependency {
+    source: string;
+    target: string;
+    // Number of distinct source class -> target class pairs
+    classDependencies: number;
+    // Number of dependency records
+    callCount: number;
+}
+
+// A method that calls a target method, with the number of records for the call
+export interface MethodCallSite {
     sourceClass: string;
     sourceMethod: string;
     targetClass: string;
     targetMethod: string;
+    callCount: number;
 }
 
-interface PackageInfo {
+// A method of an external class and the internal methods that call it
+export interface MethodUsage {
+    methodName: string;
+    callCount: number;
+    callers: MethodCallSite[];
+}
+
+// The methods of an external class that are called
+export interface ClassMethodUsage {
+    className: string;
+    callCount: number;
+    methods: MethodUsage[];
+}
+
+// A catalogued library and how the internal code uses it
+export interface LibraryUsage {
+    // Maven coordinates, e.g. `log4j:log4j`
+    coordinates: string;
     name: string;
-    classes: Set<string>;
-    isExternal: boolean;
+    license: string;
+    // Library classes called from internal code, sorted
+    classes: string[];
+    // Number of distinct internal method -> library method calls
+    callSites: number;
+    // Number of dependency records behind those calls
+    callCount: number;
 }
 
-// Interface for tracking specific library counts
-interface LibraryCounts {
-    [key: string]: Set<string>;
+// A cycle (strongly connected component) in one of the dependency graphs
+export interface DependencyCycle {
+    nodes: string[];
+    edges: Array<[string, string]>;
+    // True when every node in the cycle is an internal package
+    isInternal: boolean;
+}
+
+// Cycles found at each level of the dependency graph
+export interface DependencyCycles {
+    packages: DependencyCycle[];
+    basePackages: DependencyCycle[];
+    artifacts: DependencyCycle[];
+}
+
+// Everything the extractor has built from the parsed records
+export interface PackageDependencyResult {
+    // Package name -> classes in the package
+    packages: ReadonlyMap<string, PackageInfo>;
+    // Package -> packages it depends on
+    dependencies: ReadonlyMap<string, ReadonlySet<string>>;
+    // Base package -> sub-packages grouped under it
+    basePackages: ReadonlyMap<string, ReadonlySet<string>>;
+    // Base packages containing at least one external sub-package
+    externalBasePackages: ReadonlySet<string>;
+    // Base package -> base packages it depends on
+    basePackageDependencies: ReadonlyMap<string, ReadonlySet<string>>;
+    // Records and distinct source and target classes behind each package and base package dependency
+    dependencyWeights: ReadonlyMap<string, ReadonlyMap<string, DependencyWeight>>;
+    basePackageDependencyWeights: ReadonlyMap<string, ReadonlyMap<string, DependencyWeight>>;
+    // Artifact ID -> packages seen in its records
+    artifacts: ReadonlyMap<string, ReadonlySet<string>>;
+    // Artifact ID -> artifact IDs it depends on
+    artifactDependencies: ReadonlyMap<string, ReadonlySet<string>>;
+    artifactInfo: ReadonlyMap<string, ArtifactInfo>;
+    artifactDependencyCounts: ArtifactDependency[];
+    // Class -> artifact IDs, for classes contained in more than one artifact
+    duplicateClasses: ReadonlyMap<string, string[]>;
+    // Methods of external classes and their internal callers
+    externalMethodUsage: ClassMethodUsage[];
+    // Library name -> number of unique classes matched
+    libraryCounts: { [key: string]: number };
+    // Catalogued libraries used by internal code, most used first
+    externalLibraries: LibraryUsage[];
+    // Advisories whose affected code is called from internal code
+    advisoryFindings: AdvisoryFinding[];
+    // Dependencies breaking the architecture rules
+    ruleViolations: RuleViolation[];
+    // javax classes called from internal code and what happens to them in Jakarta EE
+    jakartaMigration: JakartaMigration;
+    // Called JDK APIs changed up to the target JDK, when one was given
+    jdkCompatibility?: JdkCompatibility;
+    // Coupling to the application server or host, scored for containerization
+    cloudReadiness: CloudReadiness;
+    // Coupling metrics of the internal packages and base packages
+    metrics: DependencyMetrics;
+    cycles: DependencyCycles;
+    // What was read, when the records came from JSONL files
+    inputSummary?: InputSummary;
+}
+
+// Get the package name of a class name in any descriptor form (see canonicalizeClassName)
+export function getPackageName(className: string): string {
+    const canonicalName = canonicalizeClassName(className);
+    const lastDotIndex = canonicalName.lastIndexOf('.');
+    return lastDotIndex > 0 ? canonicalName.substring(0, lastDotIndex) : '';
+}
+
+// Get the simple class name of a class name in any descriptor form (see canonicalizeClassName)
+export function getClassName(className: string): string {
+    const canonicalName = canonicalizeClassName(className);
+    const lastDotIndex = canonicalName.lastIndexOf('.');
+    return lastDotIndex > 0 ? canonicalName.substring(lastDotIndex + 1) : canonicalName;
+}
+
+// Look up the weight of a dependency; a dependency without a recorded weight weighs nothing
+export function getDependencyWeight(weights: ReadonlyMap<string, ReadonlyMap<string, DependencyWeight>>, source: string, target: string): DependencyWeight {
+    return weights.get(source)?.get(target) ?? { records: 0, sourceClasses: 0, targetClasses: 0 };
+}
+
+// Describe a dependency weight, e.g. "12 records, 3 source classes, 1 target class"
+export function formatDependencyWeight(weight: DependencyWeight): string {
+    const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 'es'}`;
+    return `${weight.records} record${weight.records === 1 ? '' : 's'}, ${plural(weight.sourceClasses, 'source class')}, ${plural(weight.targetClasses, 'target class')}`;
 }
 
-class PackageDependencyExtractor {
+export class PackageDependencyExtractor {
     private packageMap: Map<string, PackageInfo> = new Map();
     private dependencyMap: Map<string, Set<string>> = new Map();
     private artifactMap: Map<string, Set<string>> = new Map();
     private basePackageDependencyMap: Map<string, Set<string>> = new Map();
+    // Class-level dependencies (with record counts) and the artifacts each class belongs to,
+    // used to build the artifact dependencies
+    private classDependencyMap: Map<string, Map<string, number>> = new Map();
+    private classArtifactMap: Map<string, Set<string>> = new Map();
+    private artifactInfoMap: Map<string, ArtifactInfo> = new Map();
+    private artifactDependencyMap: Map<string, Set<string>> = new Map();
+    private artifactDependencyCounts: Map<string, Map<string, ArtifactDependency>> = new Map();
+    // Target class -> target method -> "sourceClass#sourceMethod" -> number of records
+    private methodCallMap: Map<string, Map<string, Map<string, number>>> = new Map();
     // Add property to track library counts
     private libraryCounts: LibraryCounts = {};
     private librariesToCount: string[] = ['struts', 'commons', 'log4j', 'cryptix']; // Default libraries
+    // Artifact groups of all analyzed artifacts, used to classify packages as internal or external
+    private artifactGroups: Set<string> = new Set();
+    private classifier: PackageClassifier;
+    private grouper: PackageGrouper;
+    private catalog: LibraryCatalog;
+    private advisories: Advisory[];
+    private ruleChecker: ArchitectureRuleChecker;
+    private ruleCount: number;
+    private classNameOptions: ClassNameOptions;
+    private metricsOptions: MetricsOptions;
+    private targetJdk?: number;
+    private inputSummary?: InputSummary;
+    // The result built by getResult, kept until records are finished or the input summary is set
+    private result?: PackageDependencyResult;
 
-    // Constructor that allows setting libraries to count
-    constructor(librariesToCount?: string) {
+    // Constructor that allows setting libraries to count and other options
+    constructor(librariesToCount?: string, options: ExtractorOptions = {}) {
+        this.classifier = new PackageClassifier(options.classification);
+        this.grouper = new PackageGrouper(options.grouping);
+        this.catalog = new LibraryCatalog(options.libraries);
+        this.advisories = options.advisories ?? [];
+        this.ruleChecker = new ArchitectureRuleChecker(options.rules);
+        this.ruleCount = options.rules?.length ?? 0;
+        this.classNameOptions = { keepInnerClasses: options.keepInnerClasses };
+        this.metricsOptions = options.metrics ?? {};
+        this.targetJdk = options.targetJdk;
+        
         if (librariesToCount) {
             this.librariesToCount = librariesToCount.split(',').map(lib => lib.trim().toLowerCase());
         }
@@ -50,44 +256,88 @@ class PackageDependencyExtractor {
         });
     }
 
-    async parseJsonlFile(filePath: string): Promise<void> {
-        const fileStream = fs.createReadStream(filePath);
-        const rl = readline.createInterface({
-            input: fileStream,
-            crlfDelay: Infinity
-        });
+    // Read the records of a JSONL file. Reading several files adds up their input summaries.
+    async parseJsonlFile(filePath: string, options: ReadOptions = {}): Promise<void> {
+        this.inputSummary = options.summary ?? this.inputSummary ?? createInputSummary();
+        for await (const record of readJsonlRecords(filePath, { ...options, summary: this.inputSummary })) {
+            this.processRecord(record);
+        }
 
-        for await (const line of rl) {
-            if (line.trim()) {
-                try {
-                    const record: DependencyRecord = JSON.parse(line);
-                    this.processRecord(record);
-                } catch (error) {
-                    console.error(`Error parsing line: ${line}`, error);
-                }
-            }
+        this.finishRecords();
+    }
+
+    // Set the summary of the input the records were read from, when they were read by someone else
+    setInputSummary(summary: InputSummary): void {
+        this.inputSummary = summary;
+        this.result = undefined;
+    }
+
+    // Add records that were obtained some other way than from a JSONL file
+    addRecords(records: Iterable<DependencyRecord>): void {
+        for (const record of records) {
+            this.processRecord(record);
         }
+        
+        this.finishRecords();
+    }
+
+    // Add a record without finishing it, for callers that feed records one at a time; call
+    // finishRecords once all records are added
+    addRecord(record: DependencyRecord): void {
+        this.processRecord(record);
+    }
 
-        // After processing all records, build base package dependency map
+    // After processing records, classify packages and build base package and artifact dependency maps
+    finishRecords(): void {
+        this.result = undefined;
+        this.classifyPackages();
         this.buildBasePackageDependencies();
+        this.buildArtifactDependencies();
     }
 
     private processRecord(record: DependencyRecord): void {
-        // Extract packages from source and target classes
-        const sourceClass = record.sourceClass;
-        const targetClass = record.targetClass;
+        // Every descriptor form of a class is counted as the same class; primitive types
+        // (e.g. calling clone() on an int[]) belong to no package and are no dependency
+        const sourceClass = normalizeClassName(record.sourceClass, this.classNameOptions);
+        const targetClass = normalizeClassName(record.targetClass, this.classNameOptions);
+        if (sourceClass === undefined) {
+            return;
+        }
         
         // Process source class package
-        const sourcePackage = this.getPackageName(sourceClass);
-        const sourceClassName = this.getClassName(sourceClass);
-        this.addPackage(sourcePackage, sourceClassName, false);
+        const sourcePackage = getPackageName(sourceClass);
+        this.addPackage(sourcePackage, getClassName(sourceClass));
+        
+        // Packages are classified once all records are in, against every artifact group seen
+        this.artifactGroups.add(record.artifactGroup);
+        
+        // Track artifact packages and the artifacts containing each source class
+        if (!this.artifactMap.has(record.artifactId)) {
+            this.artifactMap.set(record.artifactId, new Set());
+        }
+        this.artifactMap.get(record.artifactId)!.add(sourcePackage);
+        if (!this.artifactInfoMap.has(record.artifactId)) {
+            this.artifactInfoMap.set(record.artifactId, {
+                artifactId: record.artifactId,
+                fileName: record.artifactFileName,
+                version: record.artifactVersion,
+                classes: new Set()
+            });
+        }
+        this.artifactInfoMap.get(record.artifactId)!.classes.add(sourceClass);
+        if (!this.classArtifactMap.has(sourceClass)) {
+            this.classArtifactMap.set(sourceClass, new Set());
+        }
+        this.classArtifactMap.get(sourceClass)!.add(record.artifactId);
+        
+        if (targetClass === undefined) {
+            return;
+        }
         
         // Process target class package
-        const targetPackage = this.getPackageName(targetClass);
-        const targetClassName = this.getClassName(targetClass);
-        // Mark as external if it's not from the project's group
-        const isExternal = !targetClass.startsWith(record.artifactGroup);
-        this.addPackage(targetPackage, targetClassName, isExternal);
+        const targetPackage = getPackageName(targetClass);
+        this.addPackage(targetPackage, getClassName(targetClass));
+        this.artifactMap.get(record.artifactId)!.add(targetPackage);
         
         // Track dependencies between packages
         if (sourcePackage !== targetPackage) {
@@ -97,12 +347,21 @@ class PackageDependencyExtractor {
             this.dependencyMap.get(sourcePackage)!.add(targetPackage);
         }
         
-        // Track artifact packages
-        if (!this.artifactMap.has(record.artifactId)) {
-            this.artifactMap.set(record.artifactId, new Set());
+        // Track class dependencies
+        if (sourceClass !== targetClass) {
+            this.incrementCallCount(this.classDependencyMap, sourceClass, targetClass, 1);
         }
-        this.artifactMap.get(record.artifactId)!.add(sourcePackage);
-        this.artifactMap.get(record.artifactId)!.add(targetPackage);
+        
+        // Track method calls
+        if (!this.methodCallMap.has(targetClass)) {
+            this.methodCallMap.set(targetClass, new Map());
+        }
+        this.incrementCallCount(
+            this.methodCallMap.get(targetClass)!,
+            record.targetMethod,
+            `${sourceClass}#${record.sourceMethod}`,
+            1
+        );
         
         // Count specific libraries in targetClass
         this.countSpecificLibraries(targetClass);
@@ -115,64 +374,48 @@ class PackageDependencyExtractor {
         // Check for each library in the target class
         this.librariesToCount.forEach(library => {
             if (lcTargetClass.includes(library)) {
-                // Add the original targetClass to the Set for uniqueness
+                // The normalized class name makes array and nested class forms count once
                 this.libraryCounts[library].add(targetClass);
             }
         });
     }
 
-    private getPackageName(className: string): string {
-        // Handle Java array type signature with [L prefix and ; suffix
-        let processedName = className;
-        if (className.startsWith("[L") && className.endsWith(";")) {
-            processedName = className.substring(2, className.length - 1);
+    private incrementCallCount(counts: Map<string, Map<string, number>>, source: string, target: string, amount: number): void {
+        if (!counts.has(source)) {
+            counts.set(source, new Map());
         }
-        
-        const lastDotIndex = processedName.lastIndexOf('.');
-        return lastDotIndex > 0 ? processedName.substring(0, lastDotIndex) : '';
-    }
-    
-    private getClassName(className: string): string {
-        // Handle Java array type signature with [L prefix and ; suffix
-        let processedName = className;
-        if (className.startsWith("[L") && className.endsWith(";")) {
-            processedName = className.substring(2, className.length - 1);
-        }
-        
-        const lastDotIndex = processedName.lastIndexOf('.');
-        return lastDotIndex > 0 ? processedName.substring(lastDotIndex + 1) : processedName;
+        const targetCounts = counts.get(source)!;
+        targetCounts.set(target, (targetCounts.get(target) ?? 0) + amount);
     }
 
-    private addPackage(packageName: string, className: string, isExternal: boolean): void {
+    private addPackage(packageName: string, className: string): void {
         if (!this.packageMap.has(packageName)) {
             this.packageMap.set(packageName, {
                 name: packageName,
                 classes: new Set(),
-                isExternal
+                isExternal: false
             });
         }
         this.packageMap.get(packageName)!.classes.add(className);
     }
 
-    // Get base packages (first two or three segments of package name)
-    private getBasePackages(): Map<string, Set<string>> {
+    // Classify every package as internal or external. This is done after all records are processed
+    // so the result doesn't depend on which record a package was first seen in.
+    private classifyPackages(): void {
+        this.packageMap.forEach(info => {
+            info.isExternal = this.classifier.isExternal(info.name, this.artifactGroups);
+        });
+    }
+
+    // Get base packages as determined by the grouping rules (by default the first two
+    // segments for java, javax, org, com and net packages, and up to three otherwise)
+    getBasePackages(): Map<string, Set<string>> {
         const basePackages = new Map<string, Set<string>>();
         
         this.packageMap.forEach((info, packageName) => {
-            // Split package name by dots
-            const segments = packageName.split('.');
+            const basePackage = this.grouper.getBasePackage(packageName);
             
-            // For known external dependencies like java.*, use the first two segments
-            // For project dependencies, extract base package (first two or three segments)
-            let basePackage = '';
-            if (segments.length >= 2) {
-                if (["java", "javax", "org", "com", "net"].includes(segments[0])) {
-                    basePackage = segments.slice(0, 2).join('.');
-                } else {
-                    // Use up to three segments for non-standard packages
-                    basePackage = segments.slice(0, Math.min(3, segments.length)).join('.');
-                }
-                
+            if (basePackage !== undefined) {
                 if (!basePackages.has(basePackage)) {
                     basePackages.set(basePackage, new Set());
                 }
@@ -195,6 +438,9 @@ class PackageDependencyExtractor {
             });
         });
         
+        // Dependencies are rebuilt from scratch because this runs again whenever records are added
+        this.basePackageDependencyMap = new Map();
+        
         // Now build dependencies between base packages
         this.dependencyMap.forEach((targetPackages, sourcePackage) => {
             const sourceBasePackage = packageToBaseMap.get(sourcePackage);
@@ -215,13 +461,421 @@ class PackageDependencyExtractor {
         });
     }
 
-    generateMarkdownOutput(outputFile: string): void {
+    // Build dependencies between artifacts. A target class belongs to the artifacts in which it
+    // appears as a source class; targets not found in any artifact (e.g. JDK classes) are ignored.
+    // A target contained in the calling artifact itself is resolved there, otherwise the call
+    // counts towards every artifact that contains the target.
+    private buildArtifactDependencies(): void {
+        // Dependencies and counts are rebuilt from scratch because this runs again whenever records are added
+        this.artifactDependencyMap = new Map();
+        this.artifactDependencyCounts = new Map();
+        
+        this.classDependencyMap.forEach((targetClasses, sourceClass) => {
+            this.classArtifactMap.get(sourceClass)!.forEach(sourceArtifact => {
+                targetClasses.forEach((callCount, targetClass) => {
+                    const targetArtifacts = this.classArtifactMap.get(targetClass);
+                    
+                    if (!targetArtifacts || targetArtifacts.has(sourceArtifact)) {
+                        return;
+                    }
+                    
+                    targetArtifacts.forEach(targetArtifact => {
+                        if (!this.artifactDependencyMap.has(sourceArtifact)) {
+                            this.artifactDependencyMap.set(sourceArtifact, new Set());
+                        }
+                        this.artifactDependencyMap.get(sourceArtifact)!.add(targetArtifact);
+                        
+                        if (!this.artifactDependencyCounts.has(sourceArtifact)) {
+                            this.artifactDependencyCounts.set(sourceArtifact, new Map());
+                        }
+                        const counts = this.artifactDependencyCounts.get(sourceArtifact)!;
+                        if (!counts.has(targetArtifact)) {
+                            counts.set(targetArtifact, { source: sourceArtifact, target: targetArtifact, classDependencies: 0, callCount: 0 });
+                        }
+                        counts.get(targetArtifact)!.classDependencies++;
+                        counts.get(targetArtifact)!.callCount += callCount;
+                    });
+                });
+            });
+        });
+    }
+
+    // Get the dependencies between artifacts with their counts, sorted by source and target
+    getArtifactDependencies(): ArtifactDependency[] {
+        const dependencies: ArtifactDependency[] = [];
+        this.artifactDependencyCounts.forEach(counts => {
+            counts.forEach(dependency => dependencies.push({ ...dependency }));
+        });
+        
+        return dependencies.sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
+    }
+
+    // Get classes contained in more than one artifact, mapped to the sorted artifact IDs
+    getDuplicateClasses(): Map<string, string[]> {
+        const duplicates = new Map<string, string[]>();
+        Array.from(this.classArtifactMap.keys()).sort().forEach(className => {
+            const artifacts = this.classArtifactMap.get(className)!;
+            if (artifacts.size > 1) {
+                duplicates.set(className, Array.from(artifacts).sort());
+            }
+        });
+        
+        return duplicates;
+    }
+
+    // Check whether a class belongs to an internal package; unknown packages count as internal
+    private isInternalClass(className: string): boolean {
+        return !this.packageMap.get(getPackageName(className))?.isExternal;
+    }
+
+    // Get the call sites of the methods of a class, sorted by target method, source class and source method
+    private getClassCallSites(className: string): MethodCallSite[] {
+        const callSites: MethodCallSite[] = [];
+        this.methodCallMap.get(className)?.forEach((callers, targetMethod) => {
+            callers.forEach((callCount, caller) => {
+                const separatorIndex = caller.lastIndexOf('#');
+                callSites.push({
+                    sourceClass: caller.substring(0, separatorIndex),
+                    sourceMethod: caller.substring(separatorIndex + 1),
+                    targetClass: className,
+                    targetMethod,
+                    callCount
+                });
+            });
+        });
+        
+        return callSites.sort((a, b) =>
+            a.targetMethod.localeCompare(b.targetMethod) ||
+            a.sourceClass.localeCompare(b.sourceClass) ||
+            a.sourceMethod.localeCompare(b.sourceMethod));
+    }
+
+    // Find every call site of a class, or of one of its methods. The class name is normalized like
+    // the records' class names, so descriptors and nested classes resolve to the class counted.
+    findMethodCallSites(className: string, methodName?: string): MethodCallSite[] {
+        const normalizedClassName = normalizeClassName(className, this.classNameOptions);
+        if (normalizedClassName === undefined) {
+            return [];
+        }
+        
+        return this.getClassCallSites(normalizedClassName)
+            .filter(callSite => methodName === undefined || callSite.targetMethod === methodName);
+    }
+
+    // Find the calls from classes in the source packages to classes in the target packages, sorted
+    // by source class, source method, target class and target method
+    findCallSitesBetween(sourcePackages: Iterable<string>, targetPackages: Iterable<string>): MethodCallSite[] {
+        const sources = new Set(sourcePackages);
+        const targets = new Set(targetPackages);
+        const callSites: MethodCallSite[] = [];
+        this.methodCallMap.forEach((methods, className) => {
+            if (targets.has(getPackageName(className))) {
+                callSites.push(...this.getClassCallSites(className)
+                    .filter(callSite => sources.has(getPackageName(callSite.sourceClass))));
+            }
+        });
+        
+        return callSites.sort((a, b) =>
+            a.sourceClass.localeCompare(b.sourceClass) ||
+            a.sourceMethod.localeCompare(b.sourceMethod) ||
+            a.targetClass.localeCompare(b.targetClass) ||
+            a.targetMethod.localeCompare(b.targetMethod));
+    }
+
+    // Find the internal methods and classes that use the classes matching a class, package or prefix
+    // pattern, directly or transitively (see dependency-query.ts)
+    findDependents(pattern: string, options: DependencyQueryOptions = {}): DependencyQueryResult {
+        const callSites: MethodCallSite[] = [];
+        Array.from(this.methodCallMap.keys()).sort().forEach(className => {
+            callSites.push(...this.getClassCallSites(className));
+        });
+
+        return queryDependents(callSites, this.packageMap, pattern, options);
+    }
+
+    // Find every package the internal classes of a package reach through their class dependencies,
+    // with the shortest chain of classes to each (see impact-analysis.ts)
+    findTransitiveDependencies(packageName: string, options: ImpactOptions = {}): TransitiveDependencies {
+        return computeTransitiveDependencies(this.classDependencyMap, this.packageMap, packageName, options);
+    }
+
+    // Find the internal packages affected by changing or removing a class, package or catalogued
+    // library, with the shortest chain of classes from each
+    findImpact(target: string, options: ImpactOptions = {}): ImpactAnalysis {
+        return computeImpact(this.classDependencyMap, this.packageMap, this.catalog, target, options);
+    }
+
+    // Get the methods of every external class that are called, with their internal callers
+    getExternalMethodUsage(): ClassMethodUsage[] {
+        const usages: ClassMethodUsage[] = [];
+        Array.from(this.methodCallMap.keys())
+            .filter(className => !this.isInternalClass(className))
+            .sort()
+            .forEach(className => {
+                const methods: MethodUsage[] = [];
+                this.getClassCallSites(className)
+                    .filter(callSite => this.isInternalClass(callSite.sourceClass))
+                    .forEach(callSite => {
+                        let method = methods[methods.length - 1];
+                        if (!method || method.methodName !== callSite.targetMethod) {
+                            method = { methodName: callSite.targetMethod, callCount: 0, callers: [] };
+                            methods.push(method);
+                        }
+                        method.callCount += callSite.callCount;
+                        method.callers.push(callSite);
+                    });
+                
+                // Classes only called by other external code are not used by the application
+                if (methods.length > 0) {
+                    usages.push({
+                        className,
+                        callCount: methods.reduce((total, method) => total + method.callCount, 0),
+                        methods
+                    });
+                }
+            });
+        return usages;
+    }
+
+    // Get the catalogued libraries called from internal code, with the classes used and the number
+    // of calls, sorted by call count (descending) and library name
+    getExternalLibraries(): LibraryUsage[] {
+        const usages = new Map<string, LibraryUsage>();
+        this.methodCallMap.forEach((methods, className) => {
+            const library = this.catalog.findLibrary(getPackageName(className));
+            if (!library) {
+                return;
+            }
+            
+            const internalCallSites = this.getClassCallSites(className)
+                .filter(callSite => this.isInternalClass(callSite.sourceClass));
+            if (internalCallSites.length === 0) {
+                return;
+            }
+            
+            const coordinates = libraryCoordinates(library);
+            if (!usages.has(coordinates)) {
+                usages.set(coordinates, { coordinates, name: library.name, license: library.license, classes: [], callSites: 0, callCount: 0 });
+            }
+            const usage = usages.get(coordinates)!;
+            usage.classes.push(className);
+            usage.callSites += internalCallSites.length;
+            usage.callCount += internalCallSites.reduce((total, callSite) => total + callSite.callCount, 0);
+        });
+        
+        const libraries = Array.from(usages.values());
+        libraries.forEach(usage => usage.classes.sort());
+        return libraries.sort((a, b) => b.callCount - a.callCount || a.name.localeCompare(b.name));
+    }
+
+    // A base package is external if any of its sub-packages is external
+    private isExternalBasePackage(subPackages: Set<string>): boolean {
+        return Array.from(subPackages).some(pkg => this.packageMap.get(pkg)?.isExternal);
+    }
+
+    // Turn the strongly connected components of a graph into cycles with the edges involved
+    private findGraphCycles(graph: Map<string, Set<string>>, isInternal: (node: string) => boolean): DependencyCycle[] {
+        return findStronglyConnectedComponents(graph).map(nodes => {
+            const members = new Set(nodes);
+            const edges: Array<[string, string]> = [];
+            nodes.forEach(source => {
+                Array.from(graph.get(source) ?? []).sort().forEach(target => {
+                    if (members.has(target)) {
+                        edges.push([source, target]);
+                    }
+                });
+            });
+            
+            return {
+                nodes,
+                edges,
+                isInternal: nodes.every(isInternal)
+            };
+        });
+    }
+
+    // Find cycles in the package, base package and artifact dependency graphs
+    findCycles(): DependencyCycles {
         const basePackages = this.getBasePackages();
+        
+        return {
+            packages: this.findGraphCycles(this.dependencyMap, pkg => !this.packageMap.get(pkg)?.isExternal),
+            basePackages: this.findGraphCycles(
+                this.basePackageDependencyMap,
+                basePackage => !this.isExternalBasePackage(basePackages.get(basePackage) ?? new Set())
+            ),
+            artifacts: this.findGraphCycles(this.artifactDependencyMap, () => true)
+        };
+    }
+
+    // Check whether any cycle consists only of internal packages
+    hasInternalPackageCycles(): boolean {
+        const cycles = this.getResult().cycles;
+        return cycles.packages.some(cycle => cycle.isInternal) ||
+            cycles.basePackages.some(cycle => cycle.isInternal);
+    }
+
+    // Weigh the package and base package dependencies by their records and the distinct classes
+    // behind them, derived from the class dependencies
+    getDependencyWeights(): { packages: Map<string, Map<string, DependencyWeight>>; basePackages: Map<string, Map<string, DependencyWeight>> } {
+        const packageToBaseMap = new Map<string, string>();
+        this.getBasePackages().forEach((subPackages, basePackage) => {
+            subPackages.forEach(subPackage => packageToBaseMap.set(subPackage, basePackage));
+        });
+        
+        // Source -> target -> records and the source and target classes seen
+        type ClassCounts = { records: number; sourceClasses: Set<string>; targetClasses: Set<string> };
+        const packageCounts = new Map<string, Map<string, ClassCounts>>();
+        const basePackageCounts = new Map<string, Map<string, ClassCounts>>();
+        const addClassDependency = (counts: Map<string, Map<string, ClassCounts>>, source: string, target: string,
+            sourceClass: string, targetClass: string, records: number) => {
+            if (!counts.has(source)) {
+                counts.set(source, new Map());
+            }
+            if (!counts.get(source)!.has(target)) {
+                counts.get(source)!.set(target, { records: 0, sourceClasses: new Set(), targetClasses: new Set() });
+            }
+            const edgeCounts = counts.get(source)!.get(target)!;
+            edgeCounts.records += records;
+            edgeCounts.sourceClasses.add(sourceClass);
+            edgeCounts.targetClasses.add(targetClass);
+        };
+        
+        this.classDependencyMap.forEach((targetClasses, sourceClass) => {
+            const sourcePackage = getPackageName(sourceClass);
+            targetClasses.forEach((records, targetClass) => {
+                const targetPackage = getPackageName(targetClass);
+                if (sourcePackage === targetPackage) {
+                    return;
+                }
+                addClassDependency(packageCounts, sourcePackage, targetPackage, sourceClass, targetClass, records);
+                
+                const sourceBasePackage = packageToBaseMap.get(sourcePackage);
+                const targetBasePackage = packageToBaseMap.get(targetPackage);
+                if (sourceBasePackage && targetBasePackage && sourceBasePackage !== targetBasePackage) {
+                    addClassDependency(basePackageCounts, sourceBasePackage, targetBasePackage, sourceClass, targetClass, records);
+                }
+            });
+        });
+        
+        const toWeights = (counts: Map<string, Map<string, ClassCounts>>) => {
+            const weights = new Map<string, Map<string, DependencyWeight>>();
+            counts.forEach((targets, source) => {
+                weights.set(source, new Map());
+                targets.forEach((edgeCounts, target) => {
+                    weights.get(source)!.set(target, {
+                        records: edgeCounts.records,
+                        sourceClasses: edgeCounts.sourceClasses.size,
+                        targetClasses: edgeCounts.targetClasses.size
+                    });
+                });
+            });
+            return weights;
+        };
+        return { packages: toWeights(packageCounts), basePackages: toWeights(basePackageCounts) };
+    }
+
+    // Get everything built from the parsed records as a typed result object. It is built once and
+    // reused until more records are finished.
+    getResult(): PackageDependencyResult {
+        if (this.result) {
+            return this.result;
+        }
+        
+        const basePackages = this.getBasePackages();
+        const externalBasePackages = new Set<string>();
+        basePackages.forEach((subPackages, basePackage) => {
+            if (this.isExternalBasePackage(subPackages)) {
+                externalBasePackages.add(basePackage);
+            }
+        });
+        
+        const weights = this.getDependencyWeights();
+        const result: PackageDependencyResult = {
+            packages: this.packageMap,
+            dependencies: this.dependencyMap,
+            basePackages,
+            externalBasePackages,
+            basePackageDependencies: this.basePackageDependencyMap,
+            dependencyWeights: weights.packages,
+            basePackageDependencyWeights: weights.basePackages,
+            artifacts: this.artifactMap,
+            artifactDependencies: this.artifactDependencyMap,
+            artifactInfo: this.artifactInfoMap,
+            artifactDependencyCounts: this.getArtifactDependencies(),
+            duplicateClasses: this.getDuplicateClasses(),
+            externalMethodUsage: this.getExternalMethodUsage(),
+            libraryCounts: this.getLibraryCounts(),
+            externalLibraries: this.getExternalLibraries(),
+            advisoryFindings: [],
+            ruleViolations: [],
+            jakartaMigration: { classes: [], families: [] },
+            cloudReadiness: { score: 0, rating: 'none', findings: [] },
+            metrics: { sortBy: 'efferent', packages: [], basePackages: [], hotspots: [] },
+            cycles: this.findCycles(),
+            inputSummary: this.inputSummary
+        };
+        // Metrics, advisories, rules and the migration checks are computed from the rest of the result
+        result.metrics = computeMetrics(result, this.metricsOptions);
+        result.jakartaMigration = findJakartaMigration(result);
+        result.cloudReadiness = findCloudReadiness(result);
+        if (this.targetJdk !== undefined) {
+            result.jdkCompatibility = findJdkCompatibility(result, this.targetJdk);
+        }
+        result.advisoryFindings = findAdvisoryFindings(this.advisories, result, this.catalog, this.classNameOptions);
+        result.ruleViolations = this.ruleChecker.findViolations(
+            result,
+            (sourcePackages, targetPackages) => this.findCallSitesBetween(sourcePackages, targetPackages)
+        );
+        
+        this.result = result;
+        return result;
+    }
+
+    // Get the coupling metrics of the internal packages and base packages
+    getMetrics(): DependencyMetrics {
+        return this.getResult().metrics;
+    }
+
+    // Get the dependencies that break the architecture rules
+    getRuleViolations(): RuleViolation[] {
+        return this.getResult().ruleViolations;
+    }
+
+    // Get the advisories whose affected code is called from internal code, sorted by advisory ID
+    getAdvisoryFindings(): AdvisoryFinding[] {
+        return this.getResult().advisoryFindings;
+    }
+
+    // Get the javax classes called from internal code, classified for the move to Jakarta EE
+    getJakartaMigration(): JakartaMigration {
+        return this.getResult().jakartaMigration;
+    }
+
+    // Get the application server and host coupling with the containerization score
+    getCloudReadiness(): CloudReadiness {
+        return this.getResult().cloudReadiness;
+    }
+
+    // Get the called JDK APIs changed up to the target JDK, or undefined without a target JDK
+    getJdkCompatibility(): JdkCompatibility | undefined {
+        return this.getResult().jdkCompatibility;
+    }
+
+    // Generate the Markdown report as a string. Diagram options control the embedded Mermaid graph.
+    // Every section reads from the one result, which callers that already built it can pass in.
+    generateMarkdown(diagramOptions: DiagramOptions = {}, result: PackageDependencyResult = this.getResult()): string {
+        const basePackages = result.basePackages;
         const sortedBasePackages = Array.from(basePackages.keys()).sort();
         
         let markdownContent = '# Project Package Dependencies\n\n';
         markdownContent += 'This document lists all base packages that the project depends on.\n\n';
         
+        // Add the input summary, so a report built from a truncated or corrupted export is recognizable
+        if (result.inputSummary) {
+            markdownContent += createInputSummaryMarkdown(result.inputSummary);
+        }
+        
         // Add section for specific library counts
         markdownContent += '## Specific Library Counts\n\n';
         markdownContent += 'These counts represent the number of unique `targetClass` values in the JSONL data that contain each specific library name. This helps quantify how many distinct classes from these libraries your application code depends on, which is useful for identifying vulnerability exposure.\n\n';
@@ -229,11 +883,62 @@ class PackageDependencyExtractor {
         markdownContent += '|---------|------------------------|\n';
         
         // Display counts for each library dynamically
-        Object.keys(this.libraryCounts).forEach(library => {
-            markdownContent += `| ${library.charAt(0).toUpperCase() + library.slice(1)} | ${this.libraryCounts[library].size} |\n`;
+        Object.keys(result.libraryCounts).forEach(library => {
+            markdownContent += `| ${library.charAt(0).toUpperCase() + library.slice(1)} | ${result.libraryCounts[library]} |\n`;
         });
         markdownContent += '\n';
         
+        // Add section for catalogued libraries
+        markdownContent += '## External Libraries\n\n';
+        markdownContent += 'Known libraries (from the library catalog) whose classes are called from internal code. Call sites are distinct internal method → library method calls; calls are numbers of dependency records.\n\n';
+        
+        const externalLibraries = result.externalLibraries;
+        if (externalLibraries.length === 0) {
+            markdownContent += '*No known libraries found.*\n\n';
+        } else {
+            markdownContent += '| Library | Coordinates | License | Classes | Call Sites | Calls |\n';
+            markdownContent += '|---------|-------------|---------|---------|------------|-------|\n';
+            externalLibraries.forEach(library => {
+                markdownContent += `| ${library.name} | \`${library.coordinates}\` | ${library.license} | ${library.classes.length} | ${library.callSites} | ${library.callCount} |\n`;
+            });
+            markdownContent += '\n';
+        }
+        
+        // Add section for advisory findings, if advisories were given
+        if (this.advisories.length > 0) {
+            markdownContent += '## Vulnerability Findings\n\n';
+            markdownContent += `Advisories (${this.advisories.length} loaded) whose affected classes or methods are called from internal code. Library versions are taken from the analyzed artifacts; where no artifact contains the affected classes the version is unknown and the finding needs to be checked manually.\n\n`;
+            
+            const findings = result.advisoryFindings;
+            if (findings.length === 0) {
+                markdownContent += '*No internal code reaches code affected by the advisories.*\n\n';
+            }
+            findings.forEach(finding => {
+                const aliases = finding.aliases.length > 0 ? ` (${finding.aliases.join(', ')})` : '';
+                markdownContent += `### ${finding.id}${aliases}\n\n`;
+                if (finding.summary) {
+                    markdownContent += `${finding.summary}\n\n`;
+                }
+                if (finding.severity) {
+                    markdownContent += `- **Severity**: ${finding.severity}\n`;
+                }
+                markdownContent += `- **Versions**: ${finding.versions.length > 0 ? finding.versions.join(', ') : 'Unknown'}\n`;
+                markdownContent += `- **Affected classes**: ${finding.classes.map(className => `\`${className}\``).join(', ')}\n`;
+                markdownContent += '- **Call sites**:\n';
+                finding.callSites.forEach(callSite => {
+                    markdownContent += `  - \`${callSite.sourceClass}#${callSite.sourceMethod}\` → \`${callSite.targetClass}#${callSite.targetMethod}\` (${callSite.callCount})\n`;
+                });
+                markdownContent += '\n';
+            });
+        }
+        
+        // Add the migration sections: Jakarta EE, JDK compatibility (if a target JDK was given) and cloud readiness
+        markdownContent += createJakartaMigrationMarkdown(result.jakartaMigration);
+        if (result.jdkCompatibility) {
+            markdownContent += createJdkCompatibilityMarkdown(result.jdkCompatibility);
+        }
+        markdownContent += createCloudReadinessMarkdown(result.cloudReadiness);
+        
         // List all base packages
         markdownContent += '## Base Packages\n\n';
         
@@ -242,9 +947,7 @@ class PackageDependencyExtractor {
         const internalPackages: string[] = [];
         
         sortedBasePackages.forEach(basePackage => {
-            const isExternal = Array.from(basePackages.get(basePackage)!).some(
-                pkg => this.packageMap.get(pkg)?.isExternal
-            );
+            const isExternal = result.externalBasePackages.has(basePackage);
             
             if (isExternal) {
                 externalPackages.push(basePackage);
@@ -273,8 +976,9 @@ class PackageDependencyExtractor {
 
         // Add dependency relationships section
         markdownContent += '## Dependency Relationships\n\n';
+        markdownContent += 'Each dependency is weighed by its records (calls) and the distinct source and target classes involved.\n\n';
         
-        const sortedBasePackageDependencies = Array.from(this.basePackageDependencyMap.entries())
+        const sortedBasePackageDependencies = Array.from(result.basePackageDependencies.entries())
             .sort((a, b) => a[0].localeCompare(b[0]));
             
         if (sortedBasePackageDependencies.length === 0) {
@@ -284,19 +988,131 @@ class PackageDependencyExtractor {
                 markdownContent += `- \`${source}\` depends on:\n`;
                 const sortedTargets = Array.from(targets).sort();
                 sortedTargets.forEach(target => {
-                    markdownContent += `  - \`${target}\`\n`;
+                    markdownContent += `  - \`${target}\` (${formatDependencyWeight(getDependencyWeight(result.basePackageDependencyWeights, source, target))})\n`;
                 });
                 markdownContent += '\n';
             });
         }
         
+        // Add dependency graph section
+        markdownContent += '## Dependency Graph\n\n';
+        markdownContent += 'Internal packages are drawn in blue and external packages in grey with a dashed border. Edge labels are call counts (number of dependency records).\n\n';
+        markdownContent += '```mermaid\n';
+        markdownContent += createMermaidDiagram(result, diagramOptions);
+        markdownContent += '```\n\n';
+        
+        // Add metrics section
+        markdownContent += createMetricsMarkdown(result.metrics);
+        
+        // Add artifact dependencies section
+        markdownContent += '## Artifact Dependencies\n\n';
+        markdownContent += 'Artifacts are the JARs/WARs the dependency records were extracted from. A class belongs to the artifacts in whose records it appears as `sourceClass`.\n\n';
+        markdownContent += '| Artifact | File | Version | Classes |\n';
+        markdownContent += '|----------|------|---------|---------|\n';
+        Array.from(result.artifactInfo.keys()).sort().forEach(artifactId => {
+            const artifact = result.artifactInfo.get(artifactId)!;
+            markdownContent += `| \`${artifact.artifactId}\` | ${artifact.fileName} | ${artifact.version} | ${artifact.classes.size} |\n`;
+        });
+        markdownContent += '\n';
+        
+        const artifactDependencies = result.artifactDependencyCounts;
+        if (artifactDependencies.length === 0) {
+            markdownContent += '*No dependencies between artifacts found.*\n\n';
+        } else {
+            markdownContent += '| Source Artifact | Target Artifact | Class Dependencies | Calls |\n';
+            markdownContent += '|-----------------|-----------------|--------------------|-------|\n';
+            artifactDependencies.forEach(dependency => {
+                markdownContent += `| \`${dependency.source}\` | \`${dependency.target}\` | ${dependency.classDependencies} | ${dependency.callCount} |\n`;
+            });
+            markdownContent += '\n';
+        }
+        
+        const duplicateClasses = result.duplicateClasses;
+        if (duplicateClasses.size > 0) {
+            markdownContent += '### Classes in Multiple Artifacts\n\n';
+            duplicateClasses.forEach((artifacts, className) => {
+                markdownContent += `- \`${className}\`: ${artifacts.map(artifact => `\`${artifact}\``).join(', ')}\n`;
+            });
+            markdownContent += '\n';
+        }
+        
+        // Add external method usage section
+        markdownContent += '## External Method Usage\n\n';
+        markdownContent += 'The methods of each external class that are called, and the internal methods (`Class#method`) that call them. Counts are numbers of dependency records.\n\n';
+        
+        const externalMethodUsage = result.externalMethodUsage;
+        if (externalMethodUsage.length === 0) {
+            markdownContent += '*No external method calls found.*\n\n';
+        }
+        externalMethodUsage.forEach(classUsage => {
+            markdownContent += `### \`${classUsage.className}\`\n\n`;
+            classUsage.methods.forEach(method => {
+                markdownContent += `- \`${method.methodName}\` (${method.callCount} calls)\n`;
+                method.callers.forEach(caller => {
+                    markdownContent += `  - \`${caller.sourceClass}#${caller.sourceMethod}\` (${caller.callCount})\n`;
+                });
+            });
+            markdownContent += '\n';
+        });
+        
+        // Add architecture rule violations section, if rules were given
+        if (this.ruleCount > 0) {
+            markdownContent += '## Architecture Rule Violations\n\n';
+            markdownContent += `Dependencies of internal packages that break one of the ${this.ruleCount} configured rules, with the calls (\`Class#method\`) behind them.\n\n`;
+            
+            const violations = result.ruleViolations;
+            if (violations.length === 0) {
+                markdownContent += '*No violations found.*\n\n';
+            }
+            let currentRule = '';
+            violations.forEach((violation, index) => {
+                if (violation.rule !== currentRule) {
+                    currentRule = violation.rule;
+                    markdownContent += `### ${violation.rule}\n\n`;
+                }
+                markdownContent += `- \`${violation.source}\` → \`${violation.target}\`\n`;
+                violation.callSites.forEach(callSite => {
+                    markdownContent += `  - \`${callSite.sourceClass}#${callSite.sourceMethod}\` → \`${callSite.targetClass}#${callSite.targetMethod}\` (${callSite.callCount})\n`;
+                });
+                if (violations[index + 1]?.rule !== currentRule) {
+                    markdownContent += '\n';
+                }
+            });
+        }
+        
+        // Add cycles section
+        markdownContent += '## Cycles\n\n';
+        markdownContent += 'Each cycle is a group of packages (or artifacts) that directly or indirectly depend on each other. Internal cycles must be broken before the packages involved can be split into separate modules.\n\n';
+        
+        const cycles = result.cycles;
+        const cycleLevels: Array<[string, DependencyCycle[]]> = [
+            ['Base Package Cycles', cycles.basePackages],
+            ['Package Cycles', cycles.packages],
+            ['Artifact Cycles', cycles.artifacts]
+        ];
+        cycleLevels.forEach(([title, levelCycles]) => {
+            markdownContent += `### ${title}\n\n`;
+            if (levelCycles.length === 0) {
+                markdownContent += '*No cycles found.*\n\n';
+                return;
+            }
+            
+            levelCycles.forEach((cycle, index) => {
+                markdownContent += `${index + 1}. ${cycle.nodes.map(node => `\`${node}\``).join(', ')}${cycle.isInternal ? ' (internal)' : ''}\n`;
+                cycle.edges.forEach(([source, target]) => {
+                    markdownContent += `   - \`${source}\` → \`${target}\`\n`;
+                });
+            });
+            markdownContent += '\n';
+        });
+        
         // Add package details
         markdownContent += '## Package Details\n\n';
         sortedBasePackages.forEach(basePackage => {
             // Count total classes in this base package
             let totalClasses = 0;
             basePackages.get(basePackage)!.forEach(pkg => {
-                totalClasses += this.packageMap.get(pkg)!.classes.size;
+                totalClasses += result.packages.get(pkg)?.classes.size ?? 0;
             });
             
             markdownContent += `### \`${basePackage}\`\n\n`;
@@ -305,9 +1121,9 @@ class PackageDependencyExtractor {
             markdownContent += `- **Classes**: ${totalClasses}\n`;
             
             // Add dependencies for this base package
-            if (this.basePackageDependencyMap.has(basePackage)) {
-                const dependencies = this.basePackageDependencyMap.get(basePackage)!;
-                markdownContent += `- **Dependencies**: ${dependencies.size > 0 ? Array.from(dependencies).map(dep => `\`${dep}\``).join(', ') : 'None'}\n`;
+            if (result.basePackageDependencies.has(basePackage)) {
+                const dependencies = result.basePackageDependencies.get(basePackage)!;
+                markdownContent += `- **Dependencies**: ${dependencies.size > 0 ? Array.from(dependencies).map(dep => `\`${dep}\` (${formatDependencyWeight(getDependencyWeight(result.basePackageDependencyWeights, basePackage, dep))})`).join(', ') : 'None'}\n`;
             } else {
                 markdownContent += `- **Dependencies**: None\n`;
             }
@@ -324,16 +1140,54 @@ class PackageDependencyExtractor {
             }
         });
         
-        fs.writeFileSync(outputFile, markdownContent);
+        return markdownContent;
+    }
+
+    generateMarkdownOutput(outputFile: string, diagramOptions: DiagramOptions = {}, result: PackageDependencyResult = this.getResult()): void {
+        fs.writeFileSync(outputFile, this.generateMarkdown(diagramOptions, result));
         console.log(`Markdown output written to ${outputFile}`);
         
         // Log the library counts to console
         console.log('\nSpecific Library Counts:');
-        Object.keys(this.libraryCounts).forEach(library => {
-            console.log(`- ${library.charAt(0).toUpperCase() + library.slice(1)}: ${this.libraryCounts[library].size}`);
+        Object.keys(result.libraryCounts).forEach(library => {
+            console.log(`- ${library.charAt(0).toUpperCase() + library.slice(1)}: ${result.libraryCounts[library]}`);
         });
     }
     
+    generateJsonOutput(outputFile: string, result: PackageDependencyResult = this.getResult()): void {
+        fs.writeFileSync(outputFile, JSON.stringify(createJsonReport(result), null, 2) + '\n');
+        console.log(`JSON output written to ${outputFile}`);
+    }
+    
+    generateDotOutput(outputFile: string, diagramOptions: DiagramOptions = {}, result: PackageDependencyResult = this.getResult()): void {
+        fs.writeFileSync(outputFile, createDotDiagram(result, diagramOptions));
+        console.log(`DOT output written to ${outputFile}`);
+    }
+    
+    generateHtmlOutput(outputFile: string, result: PackageDependencyResult = this.getResult()): void {
+        fs.writeFileSync(outputFile, createHtmlReport(result));
+        console.log(`HTML output written to ${outputFile}`);
+    }
+    
+    // Get the dependency structure matrix of the graph the diagram options select
+    getDependencyMatrix(diagramOptions: DiagramOptions = {}, result: PackageDependencyResult = this.getResult()): DependencyMatrix {
+        return computeDependencyMatrix(result, diagramOptions);
+    }
+    
+    // Write the dependency structure matrix as CSV, HTML or Markdown, depending on the file extension
+    generateDsmOutput(outputFile: string, diagramOptions: DiagramOptions = {}, result: PackageDependencyResult = this.getResult()): void {
+        const matrix = this.getDependencyMatrix(diagramOptions, result);
+        const extension = outputFile.slice(outputFile.lastIndexOf('.') + 1).toLowerCase();
+        if (extension === 'csv') {
+            fs.writeFileSync(outputFile, createDsmCsv(matrix));
+        } else if (extension === 'html' || extension === 'htm') {
+            fs.writeFileSync(outputFile, createDsmHtmlPage(matrix));
+        } else {
+            fs.writeFileSync(outputFile, createDsmMarkdown(matrix));
+        }
+        console.log(`Dependency structure matrix of ${matrix.packages.length} packages written to ${outputFile}`);
+    }
+    
     // Method to get the library counts (Set sizes)
     getLibraryCounts(): { [key: string]: number } {
         const counts: { [key: string]: number } = {};
@@ -348,109 +1202,3 @@ class PackageDependencyExtractor {
         return [...this.librariesToCount];
     }
 }
-
-async function main() {
-    // Define usage information
-    const usage = `Usage: java-dependency-mapper <jsonl-file-path> [options]
-
-Options:
-  --output, -o <file>  Specify output file path (default: package-dependencies.md)
-  --libraries, -l <libs>  Comma-separated list of libraries to count (default: struts,commons,log4j,cryptix)
-  --help, -h           Display this help information
-`;
-    
-    // Parse command line arguments
-    const args = process.argv.slice(2);
-    
-    // Check for help flag first
-    if (args.includes('--help') || args.includes('-h')) {
-        console.log(usage);
-        process.exit(0);
-    }
-    
-    // Check command line arguments
-    if (args.length < 1) {
-        console.error('Error: Missing input file path');
-        console.error(usage);
-        process.exit(1);
-    }
-
-    // Parse command line arguments
-    let jsonlFilePath = '';
-    let outputFilePath = 'package-dependencies.md'; // Default output path
-    let librariesToCount = ''; // Default is undefined, will use defaults in the constructor
-    
-    for (let i = 0; i < args.length; i++) {
-        if (args[i] === '--output' || args[i] === '-o') {
-            if (i + 1 < args.length) {
-                outputFilePath = args[i + 1];
-                i++; // Skip the next argument as we've already processed it
-            } else {
-                console.error('Error: Missing value for --output parameter');
-                console.error(usage);
-                process.exit(1);
-            }
-        } else if (args[i] === '--libraries' || args[i] === '-l') {
-            if (i + 1 < args.length) {
-                librariesToCount = args[i + 1];
-                i++; // Skip the next argument as we've already processed it
-            } else {
-                console.error('Error: Missing value for --libraries parameter');
-                console.error(usage);
-                process.exit(1);
-            }
-        } else if (!jsonlFilePath) {
-            // The first non-flag argument is the input file
-            jsonlFilePath = args[i];
-        }
-    }
-    
-    // Validate input file path
-    if (!jsonlFilePath) {
-        console.error('Error: Missing input file path');
-        console.error(usage);
-        process.exit(1);
-    }
-    
-    try {
-        if (!fs.existsSync(jsonlFilePath)) {
-            console.error(`Error: Input file '${jsonlFilePath}' does not exist`);
-            process.exit(1);
-        }
-    } catch (error) {
-        console.error(`Error checking input file: ${error}`);
-        process.exit(1);
-    }
-    
-    // Create output directory if it doesn't exist
-    const outputDir = path.dirname(outputFilePath);
-    if (outputDir !== '.' && outputDir !== '') {
-        try {
-            fs.mkdirSync(outputDir, { recursive: true });
-        } catch (error) {
-            console.error(`Error creating output directory '${outputDir}': ${error}`);
-            process.exit(1);
-        }
-    }
-    
-    // Create extractor with libraries to count (if specified)
-    const extractor = new PackageDependencyExtractor(librariesToCount);
-    
-    console.log(`Parsing dependencies from ${jsonlFilePath}...`);
-    await extractor.parseJsonlFile(jsonlFilePath);
-    
-    console.log(`Generating Markdown output to ${outputFilePath}...`);
-    extractor.generateMarkdownOutput(outputFilePath);
-    
-    // Log which libraries were counted
-    console.log(`\nCounted the following libraries: ${extractor.getLibrariesToCount().join(', ')}`);
-    
-    // Log the library counts to console
-    console.log('\nSpecific Library Counts:');
-    const libraryCounts = extractor.getLibraryCounts();
-    Object.keys(libraryCounts).forEach(library => {
-        console.log(`- ${library.charAt(0).toUpperCase() + library.slice(1)}: ${libraryCounts[library]}`);
-    });
-}
-
-main().catch(error => console.error('Error:', error)); 
\ No newline at end of file
@@ -0,0 +1,247 @@
+import { DependencyRecord } from './types';
+import { ExtractorOptions, PackageDependencyExtractor } from './package-dependencies';
+import { InputSummary, ReadOptions, createInputSummary, createInputSummaryMarkdown, readJsonlRecords } from './jsonl-input';
+import { JSON_REPORT_SCHEMA_VERSION } from './json-report';
+import { CloudReadinessRating } from './cloud-readiness';
+
+// One application of the portfolio with the extractor analyzing its records
+export interface PortfolioApplication {
+    // `applicationName`, prefixed with `appSetName/` when the two differ
+    name: string;
+    appSetName: string;
+    applicationName: string;
+    extractor: PackageDependencyExtractor;
+}
+
+// Per-application figures in the portfolio summary
+export interface ApplicationSummary {
+    name: string;
+    appSetName: string;
+    applicationName: string;
+    artifactCount: number;
+    packageCount: number;
+    externalBasePackageCount: number;
+    libraryCount: number;
+    // Containerization effort, see CloudReadiness
+    cloudReadinessScore: number;
+    cloudReadinessRating: CloudReadinessRating;
+}
+
+// An external base package or library and the applications that use it
+export interface SharedDependency {
+    name: string;
+    // Names of the applications using it, sorted
+    applications: string[];
+}
+
+export interface SharedLibrary extends SharedDependency {
+    coordinates: string;
+    license: string;
+    // Calls into the library summed over all applications
+    callCount: number;
+}
+
+// What the applications of a portfolio have in common. Lists are sorted by the number of
+// applications (descending) and then by name.
+export interface PortfolioSummary {
+    schemaVersion: number;
+    // Missing when the records weren't read from JSONL files
+    inputSummary?: InputSummary;
+    applications: ApplicationSummary[];
+    externalBasePackages: SharedDependency[];
+    libraries: SharedLibrary[];
+}
+
+// Name identifying the application a record belongs to
+export function getApplicationName(record: DependencyRecord): string {
+    return record.appSetName && record.appSetName !== record.applicationName
+        ? `${record.appSetName}/${record.applicationName}`
+        : record.applicationName;
+}
+
+function byApplicationCount(a: SharedDependency, b: SharedDependency): number {
+    return b.applications.length - a.applications.length || a.name.localeCompare(b.name);
+}
+
+// Analyzes the records of several applications (e.g. one JSONL export per EAR) separately,
+// with one extractor per application, and summarizes the dependencies they share
+export class PortfolioAnalyzer {
+    private applications: Map<string, PortfolioApplication> = new Map();
+    private librariesToCount?: string;
+    private options: ExtractorOptions;
+    private inputSummary?: InputSummary;
+
+    // The libraries to count and options are passed on to every application's extractor
+    constructor(librariesToCount?: string, options: ExtractorOptions = {}) {
+        this.librariesToCount = librariesToCount;
+        this.options = options;
+        
+        // Fail on invalid options now rather than when the first record is read
+        new PackageDependencyExtractor(librariesToCount, options);
+    }
+
+    // Read the records of all files into one input summary. Records are streamed to their application's
+    // extractor, so a large file doesn't have to be held in memory, and each extractor is finished once,
+    // after all files are read. When they all belong to one application, its report shows the input
+    // summary; otherwise the portfolio summary does.
+    async parseJsonlFiles(filePaths: string[], options: ReadOptions = {}): Promise<void> {
+        this.inputSummary = options.summary ?? this.inputSummary ?? createInputSummary();
+        const applications = new Set<PortfolioApplication>();
+        for (const filePath of filePaths) {
+            for await (const record of readJsonlRecords(filePath, { ...options, summary: this.inputSummary })) {
+                applications.add(this.addRecord(record));
+            }
+        }
+        applications.forEach(application => application.extractor.finishRecords());
+
+        if (this.applications.size === 1) {
+            this.getApplications()[0].extractor.setInputSummary(this.inputSummary);
+        }
+    }
+
+    // Get the summary of the files read, if any
+    getInputSummary(): InputSummary | undefined {
+        return this.inputSummary;
+    }
+
+    // Add records of any number of applications
+    addRecords(records: Iterable<DependencyRecord>): void {
+        const applications = new Set<PortfolioApplication>();
+        for (const record of records) {
+            applications.add(this.addRecord(record));
+        }
+        applications.forEach(application => application.extractor.finishRecords());
+    }
+
+    // Hand a record to the extractor of its application without finishing it
+    private addRecord(record: DependencyRecord): PortfolioApplication {
+        const name = getApplicationName(record);
+        if (!this.applications.has(name)) {
+            this.applications.set(name, {
+                name,
+                appSetName: record.appSetName,
+                applicationName: record.applicationName,
+                extractor: new PackageDependencyExtractor(this.librariesToCount, this.options)
+            });
+        }
+        const application = this.applications.get(name)!;
+        application.extractor.addRecord(record);
+        return application;
+    }
+
+    // Get the applications sorted by name
+    getApplications(): PortfolioApplication[] {
+        return Array.from(this.applications.values()).sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // Summarize the applications and the external base packages and libraries they use
+    getSummary(): PortfolioSummary {
+        const applications: ApplicationSummary[] = [];
+        const basePackages = new Map<string, SharedDependency>();
+        const libraries = new Map<string, SharedLibrary>();
+
+        this.getApplications().forEach(application => {
+            const result = application.extractor.getResult();
+            applications.push({
+                name: application.name,
+                appSetName: application.appSetName,
+                applicationName: application.applicationName,
+                artifactCount: result.artifactInfo.size,
+                packageCount: result.packages.size,
+                externalBasePackageCount: result.externalBasePackages.size,
+                libraryCount: result.externalLibraries.length,
+                cloudReadinessScore: result.cloudReadiness.score,
+                cloudReadinessRating: result.cloudReadiness.rating
+            });
+
+            result.externalBasePackages.forEach(basePackage => {
+                if (!basePackages.has(basePackage)) {
+                    basePackages.set(basePackage, { name: basePackage, applications: [] });
+                }
+                basePackages.get(basePackage)!.applications.push(application.name);
+            });
+            result.externalLibraries.forEach(library => {
+                if (!libraries.has(library.coordinates)) {
+                    libraries.set(library.coordinates, {
+                        name: library.name,
+                        coordinates: library.coordinates,
+                        license: library.license,
+                        applications: [],
+                        callCount: 0
+                    });
+                }
+                const shared = libraries.get(library.coordinates)!;
+                shared.applications.push(application.name);
+                shared.callCount += library.callCount;
+            });
+        });
+
+        return {
+            schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+            inputSummary: this.inputSummary,
+            applications,
+            externalBasePackages: Array.from(basePackages.values()).sort(byApplicationCount),
+            libraries: Array.from(libraries.values()).sort(byApplicationCount)
+        };
+    }
+
+    // Generate the portfolio summary as Markdown
+    generateSummaryMarkdown(): string {
+        const summary = this.getSummary();
+
+        let markdownContent = '# Portfolio Dependencies\n\n';
+        markdownContent += `This document summarizes the dependencies of ${summary.applications.length} applications. Each application also has its own report.\n\n`;
+
+        if (summary.inputSummary) {
+            markdownContent += createInputSummaryMarkdown(summary.inputSummary);
+        }
+
+        markdownContent += '## Applications\n\n';
+        markdownContent += '| Application | App Set | Artifacts | Packages | External Base Packages | Known Libraries |\n';
+        markdownContent += '|-------------|---------|-----------|----------|------------------------|-----------------|\n';
+        summary.applications.forEach(application => {
+            markdownContent += `| ${application.name} | ${application.appSetName} | ${application.artifactCount} | ${application.packageCount} | ${application.externalBasePackageCount} | ${application.libraryCount} |\n`;
+        });
+        markdownContent += '\n';
+
+        markdownContent += '## Cloud Readiness\n\n';
+        markdownContent += 'Applications by containerization effort (0-100), easiest first. The Cloud Readiness section of each application report lists the coupling found.\n\n';
+        markdownContent += '| Application | Score | Effort |\n';
+        markdownContent += '|-------------|-------|--------|\n';
+        summary.applications
+            .slice()
+            .sort((a, b) => a.cloudReadinessScore - b.cloudReadinessScore || a.name.localeCompare(b.name))
+            .forEach(application => {
+                markdownContent += `| ${application.name} | ${application.cloudReadinessScore} | ${application.cloudReadinessRating} |\n`;
+            });
+        markdownContent += '\n';
+
+        markdownContent += '## Shared External Base Packages\n\n';
+        markdownContent += 'External base packages and the applications that depend on them, most widely used first.\n\n';
+        if (summary.externalBasePackages.length === 0) {
+            markdownContent += '*No external base packages found.*\n\n';
+        } else {
+            markdownContent += '| Base Package | Applications | Used By |\n';
+            markdownContent += '|--------------|--------------|---------|\n';
+            summary.externalBasePackages.forEach(basePackage => {
+                markdownContent += `| \`${basePackage.name}\` | ${basePackage.applications.length} | ${basePackage.applications.join(', ')} |\n`;
+            });
+            markdownContent += '\n';
+        }
+
+        markdownContent += '## Shared Libraries\n\n';
+        markdownContent += 'Known libraries (from the library catalog) and the applications that call them, most widely used first. Calls are numbers of dependency records summed over all applications.\n\n';
+        if (summary.libraries.length === 0) {
+            markdownContent += '*No known libraries found.*\n\n';
+        } else {
+            markdownContent += '| Library | Coordinates | License | Applications | Calls | Used By |\n';
+            markdownContent += '|---------|-------------|---------|--------------|-------|---------|\n';
+            summary.libraries.forEach(library => {
+                markdownContent += `| ${library.name} | \`${library.coordinates}\` | ${library.license} | ${library.applications.length} | ${library.callCount} | ${library.applications.join(', ')} |\n`;
+            });
+            markdownContent += '\n';
+        }
+
+        return markdownContent;
+    }
+}
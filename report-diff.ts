@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import { ExtractorOptions, PackageDependencyExtractor } from './package-dependencies';
+import { JSON_REPORT_SCHEMA_VERSION, JsonDependencyEdge, JsonReport, PackageType, createJsonReport } from './json-report';
+
+// A library count (from --libraries) or catalogued library whose numbers changed
+export interface LibraryCountChange {
+    library: string;
+    before: number;
+    after: number;
+}
+
+export interface LibraryUsageChange {
+    coordinates: string;
+    name: string;
+    // Unique classes used and calls; 0 when the library isn't used in that snapshot
+    classesBefore: number;
+    classesAfter: number;
+    callCountBefore: number;
+    callCountAfter: number;
+}
+
+// A base package present in both snapshots whose classification changed
+export interface ClassificationChange {
+    basePackage: string;
+    before: PackageType;
+    after: PackageType;
+}
+
+// What changed between two snapshots of the same application
+export interface ReportDiff {
+    schemaVersion: number;
+    // Labels of the compared snapshots, usually their file paths
+    before: string;
+    after: string;
+    addedBasePackages: string[];
+    removedBasePackages: string[];
+    addedDependencies: JsonDependencyEdge[];
+    removedDependencies: JsonDependencyEdge[];
+    libraryCountChanges: LibraryCountChange[];
+    libraryUsageChanges: LibraryUsageChange[];
+    classificationChanges: ClassificationChange[];
+}
+
+// Load a snapshot to compare: a saved JSON report, or a JSONL file that is analyzed with the given options
+export async function loadSnapshot(filePath: string, options: ExtractorOptions = {}): Promise<JsonReport> {
+    if (filePath.endsWith('.json')) {
+        let report: unknown;
+        try {
+            report = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            throw new Error(`Could not read JSON report '${filePath}': ${error instanceof Error ? error.message : error}`);
+        }
+        if (typeof report !== 'object' || report === null || typeof (report as JsonReport).schemaVersion !== 'number' ||
+            !Array.isArray((report as JsonReport).basePackages) || !Array.isArray((report as JsonReport).dependencies)) {
+            throw new Error(`'${filePath}' is not a JSON report written with --format json`);
+        }
+        return report as JsonReport;
+    }
+
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Input file '${filePath}' does not exist`);
+    }
+    const extractor = new PackageDependencyExtractor(undefined, options);
+    await extractor.parseJsonlFile(filePath);
+    return createJsonReport(extractor.getResult());
+}
+
+function edgeKey(edge: JsonDependencyEdge): string {
+    return `${edge.source}\n${edge.target}`;
+}
+
+// Compare two reports. Every list is sorted by name.
+export function diffReports(before: JsonReport, after: JsonReport, beforeLabel: string = 'before', afterLabel: string = 'after'): ReportDiff {
+    const basePackagesBefore = new Map(before.basePackages.map(basePackage => [basePackage.name, basePackage.type]));
+    const basePackagesAfter = new Map(after.basePackages.map(basePackage => [basePackage.name, basePackage.type]));
+
+    const edgesBefore = new Set(before.dependencies.map(edgeKey));
+    const edgesAfter = new Set(after.dependencies.map(edgeKey));
+    // Only the edges are compared, not their weights
+    const sortEdges = (edges: JsonDependencyEdge[]) => edges
+        .map(({ source, target }) => ({ source, target }))
+        .sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
+
+    const libraryCountChanges: LibraryCountChange[] = [];
+    const libraryNames = new Set([...Object.keys(before.libraryCounts ?? {}), ...Object.keys(after.libraryCounts ?? {})]);
+    Array.from(libraryNames).sort().forEach(library => {
+        const countBefore = before.libraryCounts?.[library] ?? 0;
+        const countAfter = after.libraryCounts?.[library] ?? 0;
+        if (countBefore !== countAfter) {
+            libraryCountChanges.push({ library, before: countBefore, after: countAfter });
+        }
+    });
+
+    // Reports written before the library catalog existed have no externalLibraries
+    const librariesBefore = new Map((before.externalLibraries ?? []).map(library => [library.coordinates, library]));
+    const librariesAfter = new Map((after.externalLibraries ?? []).map(library => [library.coordinates, library]));
+    const libraryUsageChanges: LibraryUsageChange[] = [];
+    new Set([...librariesBefore.keys(), ...librariesAfter.keys()]).forEach(coordinates => {
+        const libraryBefore = librariesBefore.get(coordinates);
+        const libraryAfter = librariesAfter.get(coordinates);
+        const change: LibraryUsageChange = {
+            coordinates,
+            name: (libraryAfter ?? libraryBefore)!.name,
+            classesBefore: libraryBefore?.classes.length ?? 0,
+            classesAfter: libraryAfter?.classes.length ?? 0,
+            callCountBefore: libraryBefore?.callCount ?? 0,
+            callCountAfter: libraryAfter?.callCount ?? 0
+        };
+        if (change.classesBefore !== change.classesAfter || change.callCountBefore !== change.callCountAfter) {
+            libraryUsageChanges.push(change);
+        }
+    });
+
+    const classificationChanges: ClassificationChange[] = [];
+    Array.from(basePackagesAfter.keys()).sort().forEach(basePackage => {
+        const typeBefore = basePackagesBefore.get(basePackage);
+        const typeAfter = basePackagesAfter.get(basePackage)!;
+        if (typeBefore !== undefined && typeBefore !== typeAfter) {
+            classificationChanges.push({ basePackage, before: typeBefore, after: typeAfter });
+        }
+    });
+
+    return {
+        schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+        before: beforeLabel,
+        after: afterLabel,
+        addedBasePackages: Array.from(basePackagesAfter.keys()).filter(name => !basePackagesBefore.has(name)).sort(),
+        removedBasePackages: Array.from(basePackagesBefore.keys()).filter(name => !basePackagesAfter.has(name)).sort(),
+        addedDependencies: sortEdges(after.dependencies.filter(edge => !edgesBefore.has(edgeKey(edge)))),
+        removedDependencies: sortEdges(before.dependencies.filter(edge => !edgesAfter.has(edgeKey(edge)))),
+        libraryCountChanges,
+        libraryUsageChanges: libraryUsageChanges.sort((a, b) => a.name.localeCompare(b.name)),
+        classificationChanges
+    };
+}
+
+// Check whether two snapshots differ in any of the compared aspects
+export function hasChanges(diff: ReportDiff): boolean {
+    return diff.addedBasePackages.length > 0 || diff.removedBasePackages.length > 0 ||
+        diff.addedDependencies.length > 0 || diff.removedDependencies.length > 0 ||
+        diff.libraryCountChanges.length > 0 || diff.libraryUsageChanges.length > 0 ||
+        diff.classificationChanges.length > 0;
+}
+
+function formatChange(before: number, after: number): string {
+    const change = after - before;
+    return change > 0 ? `+${change}` : `${change}`;
+}
+
+// Generate the diff as Markdown
+export function createDiffMarkdown(diff: ReportDiff): string {
+    let markdownContent = '# Dependency Changes\n\n';
+    markdownContent += `Changes from \`${diff.before}\` to \`${diff.after}\`.\n\n`;
+    if (!hasChanges(diff)) {
+        markdownContent += '*No changes found.*\n';
+        return markdownContent;
+    }
+
+    markdownContent += '## Base Packages\n\n';
+    if (diff.addedBasePackages.length === 0 && diff.removedBasePackages.length === 0) {
+        markdownContent += '*No base packages added or removed.*\n\n';
+    } else {
+        diff.addedBasePackages.forEach(basePackage => {
+            markdownContent += `- Added \`${basePackage}\`\n`;
+        });
+        diff.removedBasePackages.forEach(basePackage => {
+            markdownContent += `- Removed \`${basePackage}\`\n`;
+        });
+        markdownContent += '\n';
+    }
+
+    markdownContent += '## Dependency Relationships\n\n';
+    if (diff.addedDependencies.length === 0 && diff.removedDependencies.length === 0) {
+        markdownContent += '*No dependencies between base packages added or removed.*\n\n';
+    } else {
+        diff.addedDependencies.forEach(edge => {
+            markdownContent += `- Added \`${edge.source}\` → \`${edge.target}\`\n`;
+        });
+        diff.removedDependencies.forEach(edge => {
+            markdownContent += `- Removed \`${edge.source}\` → \`${edge.target}\`\n`;
+        });
+        markdownContent += '\n';
+    }
+
+    markdownContent += '## Library Counts\n\n';
+    if (diff.libraryCountChanges.length === 0 && diff.libraryUsageChanges.length === 0) {
+        markdownContent += '*No library counts changed.*\n\n';
+    }
+    if (diff.libraryCountChanges.length > 0) {
+        markdownContent += '| Library | Before | After | Change |\n';
+        markdownContent += '|---------|--------|-------|--------|\n';
+        diff.libraryCountChanges.forEach(change => {
+            markdownContent += `| ${change.library.charAt(0).toUpperCase() + change.library.slice(1)} | ${change.before} | ${change.after} | ${formatChange(change.before, change.after)} |\n`;
+        });
+        markdownContent += '\n';
+    }
+    if (diff.libraryUsageChanges.length > 0) {
+        markdownContent += '| Known Library | Coordinates | Classes Before | Classes After | Calls Before | Calls After |\n';
+        markdownContent += '|---------------|-------------|----------------|---------------|--------------|-------------|\n';
+        diff.libraryUsageChanges.forEach(change => {
+            markdownContent += `| ${change.name} | \`${change.coordinates}\` | ${change.classesBefore} | ${change.classesAfter} | ${change.callCountBefore} | ${change.callCountAfter} |\n`;
+        });
+        markdownContent += '\n';
+    }
+
+    markdownContent += '## Classification Changes\n\n';
+    if (diff.classificationChanges.length === 0) {
+        markdownContent += '*No base packages changed between internal and external.*\n\n';
+    } else {
+        diff.classificationChanges.forEach(change => {
+            markdownContent += `- \`${change.basePackage}\`: ${change.before} → ${change.after}\n`;
+        });
+        markdownContent += '\n';
+    }
+
+    return markdownContent;
+}
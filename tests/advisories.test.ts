@@ -0,0 +1,192 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Advisory, compareVersions, isVersionAffected, loadAdvisories, validateAdvisories } from '../advisories';
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { DependencyRecord } from '../types';
+import { makeRecord } from './fixtures';
+
+describe('compareVersions', () => {
+  test('should compare numeric segments numerically', () => {
+    expect(compareVersions('1.2.10', '1.2.9')).toBe(1);
+    expect(compareVersions('1.2', '1.2.0')).toBe(0);
+    expect(compareVersions('1.2', '1.2.1')).toBe(-1);
+  });
+
+  test('should sort qualifiers before the release', () => {
+    expect(compareVersions('2.0-beta9', '2.0')).toBe(-1);
+    expect(compareVersions('2.0', '2.0-rc1')).toBe(1);
+    expect(compareVersions('2.0-beta9', '2.0-rc1')).toBe(-1);
+  });
+});
+
+describe('isVersionAffected', () => {
+  const affected = {
+    ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '2.0-beta9' }, { fixed: '2.15.0' }] }],
+    versions: ['1.2.17']
+  };
+
+  test('should check ranges and explicit versions', () => {
+    expect(isVersionAffected('2.14.1', affected)).toBe(true);
+    expect(isVersionAffected('2.15.0', affected)).toBe(false);
+    expect(isVersionAffected('1.2.17', affected)).toBe(true);
+    expect(isVersionAffected('1.2.16', affected)).toBe(false);
+  });
+
+  test('should treat last_affected as inclusive and unbounded ranges as open-ended', () => {
+    expect(isVersionAffected('1.3', { ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '0' }, { last_affected: '1.3' }] }] })).toBe(true);
+    expect(isVersionAffected('1.4', { ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '0' }, { last_affected: '1.3' }] }] })).toBe(false);
+    expect(isVersionAffected('9.9', { ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '1.0' }] }] })).toBe(true);
+    expect(isVersionAffected('9.9', {})).toBe(true);
+  });
+});
+
+describe('validateAdvisories', () => {
+  test('should accept single advisories, arrays and OSV query responses', () => {
+    const advisory = { id: 'GHSA-1', affected: [] };
+
+    expect(validateAdvisories(advisory)).toEqual([advisory]);
+    expect(validateAdvisories([advisory])).toEqual([advisory]);
+    expect(validateAdvisories({ vulns: [advisory] })).toEqual([advisory]);
+  });
+
+  test('should reject invalid structures', () => {
+    expect(() => validateAdvisories('GHSA-1')).toThrow('Advisories must be an advisory object or an array of advisories');
+    expect(() => validateAdvisories([{ affected: [] }])).toThrow("Advisory 0 must be an object with a string 'id'");
+    expect(() => validateAdvisories([{ id: 'GHSA-1' }])).toThrow("Advisory 'GHSA-1' must have an 'affected' array");
+    expect(() => validateAdvisories([{ id: 'GHSA-1', affected: [{ ranges: [{ type: 'ECOSYSTEM' }] }] }]))
+      .toThrow("Advisory 'GHSA-1' has a range without an 'events' array");
+  });
+
+  test('should reject malformed affected code', () => {
+    expect(() => validateAdvisories([{ id: 'GHSA-1', affected: [{ ecosystem_specific: 'org.apache.log4j' }] }]))
+      .toThrow("Advisory 'GHSA-1' has an 'ecosystem_specific' that is not an object");
+    expect(() => validateAdvisories([{ id: 'GHSA-1', affected: [{ ecosystem_specific: { classes: 'org.apache.log4j.Logger' } }] }]))
+      .toThrow("Advisory 'GHSA-1' has an 'ecosystem_specific.classes' that is not an array of strings");
+    expect(() => validateAdvisories([{ id: 'GHSA-1', affected: [{ ecosystem_specific: { methods: [42] } }] }]))
+      .toThrow("Advisory 'GHSA-1' has an 'ecosystem_specific.methods' that is not an array of strings");
+  });
+});
+
+describe('loadAdvisories', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'advisories-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should load an advisory file', () => {
+    const advisoryFile = path.join(tempDir, 'advisories.json');
+    fs.writeFileSync(advisoryFile, JSON.stringify([{ id: 'GHSA-1', affected: [] }]));
+
+    expect(loadAdvisories(advisoryFile)).toEqual([{ id: 'GHSA-1', affected: [] }]);
+  });
+
+  test('should report unreadable and invalid files with the file name', () => {
+    const advisoryFile = path.join(tempDir, 'advisories.json');
+
+    expect(() => loadAdvisories(advisoryFile)).toThrow(`Could not read advisory file '${advisoryFile}'`);
+    fs.writeFileSync(advisoryFile, JSON.stringify([{ id: 'GHSA-1' }]));
+    expect(() => loadAdvisories(advisoryFile)).toThrow(`Invalid advisory file '${advisoryFile}'`);
+  });
+});
+
+describe('advisory findings', () => {
+  const socketServer: Advisory = {
+    id: 'GHSA-2qrg-x229-3v8q',
+    summary: 'Deserialization of untrusted data in Log4j SocketServer',
+    aliases: ['CVE-2019-17571'],
+    database_specific: { severity: 'CRITICAL' },
+    affected: [{
+      package: { ecosystem: 'Maven', name: 'log4j:log4j' },
+      ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '1.2' }, { last_affected: '1.2.17' }] }],
+      ecosystem_specific: { classes: ['org.apache.log4j.net.SocketServer'] }
+    }]
+  };
+  const lookup: Advisory = {
+    id: 'GHSA-jfh8-c2jp-5v3q',
+    aliases: ['CVE-2021-44228'],
+    affected: [{
+      package: { ecosystem: 'Maven', name: 'org.apache.logging.log4j:log4j-core' },
+      ecosystem_specific: { methods: ['org.apache.logging.log4j.core.lookup.JndiLookup#lookup'] }
+    }]
+  };
+  const commonsLang: Advisory = {
+    id: 'TEST-1',
+    affected: [{ package: { ecosystem: 'Maven', name: 'commons-lang:commons-lang' } }]
+  };
+
+  function extract(advisories: Advisory[], records: DependencyRecord[]): PackageDependencyExtractor {
+    const extractor = new PackageDependencyExtractor(undefined, { advisories });
+    extractor.addRecords(records);
+    return extractor;
+  }
+
+  test('should list the internal call sites reaching affected classes and methods', () => {
+    const extractor = extract([socketServer, lookup], [
+      makeRecord('com.example.web.Controller', 'org.apache.log4j.net.SocketServer', { sourceMethod: 'start', targetMethod: 'main' }),
+      makeRecord('com.example.web.Controller', 'org.apache.log4j.Logger', { sourceMethod: 'start', targetMethod: 'info' }),
+      makeRecord('com.example.jndi.Resolver', 'org.apache.logging.log4j.core.lookup.JndiLookup', { sourceMethod: 'resolve', targetMethod: 'lookup' }),
+      makeRecord('com.example.jndi.Resolver', 'org.apache.logging.log4j.core.lookup.JndiLookup', { sourceMethod: 'resolve', targetMethod: 'getName' })
+    ]);
+
+    const findings = extractor.getAdvisoryFindings();
+
+    expect(findings.map(finding => finding.id)).toEqual(['GHSA-2qrg-x229-3v8q', 'GHSA-jfh8-c2jp-5v3q']);
+    expect(findings[0]).toEqual({
+      id: 'GHSA-2qrg-x229-3v8q',
+      summary: 'Deserialization of untrusted data in Log4j SocketServer',
+      aliases: ['CVE-2019-17571'],
+      severity: 'CRITICAL',
+      classes: ['org.apache.log4j.net.SocketServer'],
+      versions: [],
+      callSites: [{
+        sourceClass: 'com.example.web.Controller',
+        sourceMethod: 'start',
+        targetClass: 'org.apache.log4j.net.SocketServer',
+        targetMethod: 'main',
+        callCount: 1
+      }]
+    });
+    expect(findings[1].callSites.map(callSite => callSite.targetMethod)).toEqual(['lookup']);
+  });
+
+  test('should fall back to the catalogued packages of the affected library', () => {
+    const extractor = extract([commonsLang], [
+      makeRecord('com.example.Main', 'org.apache.commons.lang.StringUtils'),
+      makeRecord('org.apache.struts.action.Action', 'org.apache.commons.lang.ArrayUtils')
+    ]);
+
+    const findings = extractor.getAdvisoryFindings();
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].classes).toEqual(['org.apache.commons.lang.StringUtils']);
+  });
+
+  test('should skip classes whose analyzed version is not affected', () => {
+    const libraryRecord = (version: string) => makeRecord('org.apache.log4j.net.SocketServer', 'java.lang.Object', {
+      artifactId: 'log4j',
+      artifactGroup: 'log4j',
+      artifactVersion: version
+    });
+    const call = makeRecord('com.example.web.Controller', 'org.apache.log4j.net.SocketServer', { targetMethod: 'main' });
+
+    expect(extract([socketServer], [call, libraryRecord('2.0')]).getAdvisoryFindings()).toEqual([]);
+    expect(extract([socketServer], [call, libraryRecord('1.2.17')]).getAdvisoryFindings()[0].versions).toEqual(['1.2.17']);
+  });
+
+  test('should add a findings section to the Markdown report only when advisories are given', () => {
+    const records = [makeRecord('com.example.web.Controller', 'org.apache.log4j.net.SocketServer', { sourceMethod: 'start', targetMethod: 'main' })];
+
+    const markdown = extract([socketServer], records).generateMarkdown();
+
+    expect(markdown).toContain('## Vulnerability Findings');
+    expect(markdown).toContain('### GHSA-2qrg-x229-3v8q (CVE-2019-17571)');
+    expect(markdown).toContain('  - `com.example.web.Controller#start` → `org.apache.log4j.net.SocketServer#main` (1)');
+    expect(extract([], records).generateMarkdown()).not.toContain('## Vulnerability Findings');
+  });
+});
@@ -0,0 +1,85 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { ArchitectureRule, ArchitectureRuleChecker, describeRule } from '../architecture-rules';
+import { makeRecord } from './fixtures';
+
+function createExtractor(rules: ArchitectureRule[]): PackageDependencyExtractor {
+  const extractor = new PackageDependencyExtractor(undefined, { rules });
+  extractor.addRecords([
+    makeRecord('com.example.web.OrderController', 'com.example.dao.OrderDao', { sourceMethod: 'list' }),
+    makeRecord('com.example.web.OrderController', 'com.example.dao.OrderDao', { sourceMethod: 'save' }),
+    makeRecord('com.example.web.OrderController', 'com.example.service.OrderService'),
+    makeRecord('com.example.service.OrderService', 'com.example.dao.OrderDao'),
+    makeRecord('com.example.service.Crypto', 'cryptix.provider.Cipher'),
+    makeRecord('com.example.infra.Locator', 'javax.ejb.EJBHome'),
+    makeRecord('com.example.service.OrderService', 'javax.ejb.SessionBean'),
+    makeRecord('org.apache.struts.action.Action', 'javax.servlet.http.HttpServlet')
+  ]);
+  return extractor;
+}
+
+describe('describeRule', () => {
+  test('should describe rules by their patterns unless they are named', () => {
+    expect(describeRule({ from: ['**.web'], to: ['**.dao'] })).toBe('`**.web` must not depend on `**.dao`');
+    expect(describeRule({ to: ['cryptix'] })).toBe('internal packages must not depend on `cryptix`');
+    expect(describeRule({ type: 'only', from: ['com.example.infra'], to: ['javax.ejb', 'javax.jms'] }))
+      .toBe('only `com.example.infra` may depend on `javax.ejb`, `javax.jms`');
+    expect(describeRule({ name: 'No DAO access from the web layer', from: ['**.web'], to: ['**.dao'] }))
+      .toBe('No DAO access from the web layer');
+  });
+});
+
+describe('ArchitectureRuleChecker', () => {
+  test('should report forbidden package dependencies with their call sites', () => {
+    const violations = createExtractor([{ from: ['**.web'], to: ['**.dao'] }]).getRuleViolations();
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      rule: '`**.web` must not depend on `**.dao`',
+      level: 'package',
+      source: 'com.example.web',
+      target: 'com.example.dao'
+    });
+    expect(violations[0].callSites.map(callSite => callSite.sourceMethod)).toEqual(['list', 'save']);
+  });
+
+  test('should apply rules without from to every internal package', () => {
+    const violations = createExtractor([{ to: ['cryptix', 'javax.servlet'] }]).getRuleViolations();
+
+    // The Struts dependency on javax.servlet is external and not checked
+    expect(violations.map(violation => [violation.source, violation.target])).toEqual([['com.example.service', 'cryptix.provider']]);
+  });
+
+  test('should report dependencies outside the allowed packages of only rules', () => {
+    const violations = createExtractor([{ type: 'only', from: ['com.example.infra'], to: ['javax.ejb'] }]).getRuleViolations();
+
+    expect(violations.map(violation => [violation.source, violation.target])).toEqual([['com.example.service', 'javax.ejb']]);
+  });
+
+  test('should check base package rules against base package dependencies', () => {
+    const violations = createExtractor([{ to: ['cryptix'], level: 'base-package' }]).getRuleViolations();
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ level: 'base-package', source: 'com.example', target: 'cryptix.provider' });
+    expect(violations[0].callSites.map(callSite => callSite.sourceClass)).toEqual(['com.example.service.Crypto']);
+  });
+
+  test('should report nothing when the rules hold', () => {
+    expect(createExtractor([{ from: ['**.dao'], to: ['**.web'] }]).getRuleViolations()).toEqual([]);
+  });
+
+  test('should reject only rules without from patterns', () => {
+    expect(() => new ArchitectureRuleChecker([{ type: 'only', to: ['javax.ejb'] }])).toThrow("needs 'from' patterns");
+  });
+
+  test('should list violations in the Markdown report', () => {
+    const markdown = createExtractor([{ from: ['**.web'], to: ['**.dao'] }]).generateMarkdown();
+
+    expect(markdown).toContain('## Architecture Rule Violations');
+    expect(markdown).toContain('### `**.web` must not depend on `**.dao`');
+    expect(markdown).toContain('`com.example.web` → `com.example.dao`');
+  });
+
+  test('should leave the section out when no rules are configured', () => {
+    expect(createExtractor([]).generateMarkdown()).not.toContain('## Architecture Rule Violations');
+  });
+});
@@ -0,0 +1,55 @@
+import { canonicalizeClassName, getOuterClassName, isPrimitiveType, normalizeClassName } from '../class-names';
+
+describe('canonicalizeClassName', () => {
+  test('should unwrap object arrays of any dimension', () => {
+    expect(canonicalizeClassName('[Ljava.lang.String;')).toBe('java.lang.String');
+    expect(canonicalizeClassName('[[Lcom.example.Matrix;')).toBe('com.example.Matrix');
+    expect(canonicalizeClassName('com.example.Matrix[][]')).toBe('com.example.Matrix');
+  });
+
+  test('should convert internal names and field descriptors to dotted names', () => {
+    expect(canonicalizeClassName('com/example/Foo')).toBe('com.example.Foo');
+    expect(canonicalizeClassName('Lcom/example/Foo;')).toBe('com.example.Foo');
+    expect(canonicalizeClassName('[Lcom/example/Foo$Bar;')).toBe('com.example.Foo$Bar');
+  });
+
+  test('should name primitive types and primitive arrays', () => {
+    expect(canonicalizeClassName('[I')).toBe('int');
+    expect(canonicalizeClassName('[[B')).toBe('byte');
+    expect(canonicalizeClassName('char[]')).toBe('char');
+    expect(isPrimitiveType('boolean')).toBe(true);
+    expect(isPrimitiveType('java.lang.Boolean')).toBe(false);
+  });
+
+  test('should keep single-letter class names outside array descriptors', () => {
+    expect(canonicalizeClassName('C')).toBe('C');
+    expect(canonicalizeClassName('S')).toBe('S');
+    expect(canonicalizeClassName('com/example/J')).toBe('com.example.J');
+    expect(normalizeClassName('C')).toBe('C');
+  });
+});
+
+describe('getOuterClassName', () => {
+  test('should fold nested and anonymous classes into their top-level class', () => {
+    expect(getOuterClassName('com.example.Outer$Inner')).toBe('com.example.Outer');
+    expect(getOuterClassName('com.example.Outer$Inner$1')).toBe('com.example.Outer');
+    expect(getOuterClassName('Outer$1')).toBe('Outer');
+  });
+
+  test('should keep a leading $ as part of the simple name', () => {
+    expect(getOuterClassName('com.sun.proxy.$Proxy12')).toBe('com.sun.proxy.$Proxy12');
+    expect(getOuterClassName('com.example.$Gen$Inner')).toBe('com.example.$Gen');
+  });
+});
+
+describe('normalizeClassName', () => {
+  test('should fold nested classes unless they are kept', () => {
+    expect(normalizeClassName('[[Lcom/example/Outer$1;')).toBe('com.example.Outer');
+    expect(normalizeClassName('[[Lcom/example/Outer$1;', { keepInnerClasses: true })).toBe('com.example.Outer$1');
+  });
+
+  test('should return undefined for primitive types', () => {
+    expect(normalizeClassName('[I')).toBeUndefined();
+    expect(normalizeClassName('void')).toBeUndefined();
+  });
+});
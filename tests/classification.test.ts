@@ -0,0 +1,67 @@
+import { PackageClassifier, compilePackagePattern, isWithinPackage } from '../classification';
+
+describe('isWithinPackage', () => {
+  test('should respect package segment boundaries', () => {
+    expect(isWithinPackage('com.example', 'com.example')).toBe(true);
+    expect(isWithinPackage('com.example.web', 'com.example')).toBe(true);
+    expect(isWithinPackage('com.examplefoo', 'com.example')).toBe(false);
+    expect(isWithinPackage('com', 'com.example')).toBe(false);
+    expect(isWithinPackage('com.example', '')).toBe(false);
+  });
+});
+
+describe('compilePackagePattern', () => {
+  test('should match a prefix and its sub-packages', () => {
+    const regex = compilePackagePattern('com.example');
+
+    expect(regex.test('com.example')).toBe(true);
+    expect(regex.test('com.example.web')).toBe(true);
+    expect(regex.test('com.examplefoo')).toBe(false);
+  });
+
+  test('should support single and multi segment wildcards', () => {
+    expect(compilePackagePattern('com.*.internal').test('com.acme.internal.util')).toBe(true);
+    expect(compilePackagePattern('com.*.internal').test('com.acme.x.internal')).toBe(false);
+    expect(compilePackagePattern('**.generated').test('com.acme.x.generated')).toBe(true);
+    expect(compilePackagePattern('**.generated').test('generated')).toBe(false);
+  });
+
+  test('should reject invalid patterns', () => {
+    expect(() => compilePackagePattern('')).toThrow("Invalid package pattern ''");
+    expect(() => compilePackagePattern('com..example')).toThrow();
+    expect(() => compilePackagePattern('com.ex*')).toThrow();
+  });
+});
+
+describe('PackageClassifier', () => {
+  test('should classify packages within an artifact group as internal', () => {
+    const classifier = new PackageClassifier();
+
+    expect(classifier.isExternal('com.example.web', ['com.example'])).toBe(false);
+    expect(classifier.isExternal('com.examplefoo.web', ['com.example'])).toBe(true);
+    expect(classifier.isExternal('com.acme.util', ['com.example', 'com.acme'])).toBe(false);
+    expect(classifier.isExternal('java.lang', ['com.example'])).toBe(true);
+  });
+
+  test('should let user patterns override artifact groups', () => {
+    const classifier = new PackageClassifier({
+      internal: ['com.acme'],
+      external: ['com.example.generated']
+    });
+
+    expect(classifier.isExternal('com.acme.util', ['com.example'])).toBe(false);
+    expect(classifier.isExternal('com.example.generated.stubs', ['com.example'])).toBe(true);
+    expect(classifier.isExternal('com.example.web', ['com.example'])).toBe(false);
+  });
+
+  test('should prefer the most specific pattern, and external on ties', () => {
+    const classifier = new PackageClassifier({
+      internal: ['org.acme.shared', 'net.acme'],
+      external: ['org.acme', 'net.acme']
+    });
+
+    expect(classifier.isExternal('org.acme.shared.util', [])).toBe(false);
+    expect(classifier.isExternal('org.acme.other', [])).toBe(true);
+    expect(classifier.isExternal('net.acme.util', [])).toBe(true);
+  });
+});
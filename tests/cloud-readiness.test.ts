@@ -0,0 +1,76 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { createJsonReport } from '../json-report';
+import { CloudReadinessCategory, findCloudReadiness, getCloudReadinessRating } from '../cloud-readiness';
+import { makeRecord } from './fixtures';
+
+function createExtractor(): PackageDependencyExtractor {
+  const extractor = new PackageDependencyExtractor();
+  extractor.addRecords([
+    makeRecord('com.example.startup.Bootstrap', 'com.ibm.websphere.management.AdminServiceFactory', { sourceMethod: 'init', targetMethod: 'getAdminService' }),
+    makeRecord('com.example.dao.OrderDao', 'javax.naming.InitialContext', { sourceMethod: 'getDataSource', targetMethod: 'lookup' }),
+    makeRecord('com.example.web.OrderServlet', 'javax.naming.InitialContext', { sourceMethod: 'init', targetMethod: 'lookup' }),
+    makeRecord('com.example.web.OrderServlet', 'javax.rmi.PortableRemoteObject', { sourceMethod: 'init', targetMethod: 'narrow' }),
+    makeRecord('com.example.export.Exporter', 'java.io.File', { sourceMethod: 'write', targetMethod: 'mkdirs' }),
+    makeRecord('com.example.export.Exporter', 'org.jboss.logging.Logger', { sourceMethod: 'write', targetMethod: 'info' }),
+    makeRecord('com.example.export.Exporter', 'java.lang.String', { sourceMethod: 'write', targetMethod: 'format' })
+  ]);
+  return extractor;
+}
+
+describe('findCloudReadiness', () => {
+  test('should find the categories used and the internal classes responsible', () => {
+    const readiness = findCloudReadiness(createExtractor().getResult());
+
+    expect(readiness.findings.map(finding => [finding.category, finding.internalClasses, finding.points])).toEqual([
+      ['server-apis', ['com.example.startup.Bootstrap'], 5],
+      ['remote-ejb', ['com.example.web.OrderServlet'], 4],
+      ['jndi', ['com.example.dao.OrderDao', 'com.example.web.OrderServlet'], 4],
+      ['file-system', ['com.example.export.Exporter'], 1]
+    ]);
+    expect(readiness.findings[2].callSites.map(callSite => `${callSite.sourceClass}#${callSite.sourceMethod}`)).toEqual([
+      'com.example.dao.OrderDao#getDataSource',
+      'com.example.web.OrderServlet#init'
+    ]);
+  });
+
+  test('should score the points as a share of the maximum', () => {
+    // 14 of 5 * (5 + 4 + 2 + 2 + 1) = 70 points
+    expect(findCloudReadiness(createExtractor().getResult())).toMatchObject({ score: 20, rating: 'medium' });
+  });
+
+  test('should count at most five classes per category', () => {
+    const categories: CloudReadinessCategory[] = [{ id: 'files', name: 'Files', description: 'Files', classes: ['java.io.File'], weight: 2 }];
+    const extractor = new PackageDependencyExtractor();
+    extractor.addRecords(['A', 'B', 'C', 'D', 'E', 'F'].map(name => makeRecord(`com.example.${name}`, 'java.io.File', { sourceMethod: 'run', targetMethod: 'delete' })));
+
+    const readiness = findCloudReadiness(extractor.getResult(), categories);
+    expect(readiness.findings[0].internalClasses).toHaveLength(6);
+    expect(readiness.findings[0].points).toBe(10);
+    expect(readiness.score).toBe(100);
+  });
+
+  test('should rate the score', () => {
+    expect(getCloudReadinessRating(0)).toBe('none');
+    expect(getCloudReadinessRating(19)).toBe('low');
+    expect(getCloudReadinessRating(20)).toBe('medium');
+    expect(getCloudReadinessRating(50)).toBe('high');
+  });
+
+  test('should add the section to the Markdown and JSON reports', () => {
+    const extractor = createExtractor();
+    const markdown = extractor.generateMarkdown();
+
+    expect(markdown).toContain('Containerization effort: **20/100 (medium)**');
+    expect(markdown).toContain('| JNDI Lookups | 2 | 2 | 4 |');
+    expect(markdown).toContain('### Remote EJBs\n\n');
+    expect(markdown).toContain('- `com.example.web.OrderServlet`: `javax.rmi.PortableRemoteObject#narrow`\n');
+    expect(createJsonReport(extractor.getResult()).cloudReadiness.score).toBe(20);
+  });
+
+  test('should say when no coupling is found', () => {
+    const extractor = new PackageDependencyExtractor();
+    extractor.addRecords([makeRecord('com.example.Foo', 'java.lang.String', { sourceMethod: 'run', targetMethod: 'valueOf' })]);
+
+    expect(extractor.generateMarkdown()).toContain('*No application server or host coupling found.*');
+  });
+});
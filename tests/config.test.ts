@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig, validateConfig } from '../config';
+
+describe('validateConfig', () => {
+  test('should accept an empty configuration', () => {
+    expect(validateConfig({})).toEqual({});
+  });
+
+  test('should accept classification patterns', () => {
+    const config = { classification: { internal: ['com.acme'], external: ['com.acme.thirdparty'] } };
+
+    expect(validateConfig(config)).toEqual(config);
+  });
+
+  test('should accept grouping rules', () => {
+    const config = { grouping: { defaultDepth: 2, depths: { 'org.apache': 3 }, aliases: { 'org.apache.commons': 'Apache Commons' } } };
+
+    expect(validateConfig(config)).toEqual(config);
+  });
+
+  test('should accept library catalog entries', () => {
+    const config = { libraries: [{ groupId: 'cryptix', artifactId: 'cryptix', name: 'Cryptix', license: 'Cryptix', packages: ['cryptix'] }] };
+
+    expect(validateConfig(config)).toEqual(config);
+  });
+
+  test('should reject invalid structures', () => {
+    expect(() => validateConfig([])).toThrow('Configuration must be a JSON object');
+    expect(() => validateConfig({ classification: 'com.acme' })).toThrow("'classification' must be an object");
+    expect(() => validateConfig({ classification: { internal: 'com.acme' } }))
+      .toThrow("'classification.internal' must be an array of strings");
+    expect(() => validateConfig({ grouping: { depths: { org: '3' } } }))
+      .toThrow("'grouping.depths' must be an object with number values");
+    expect(() => validateConfig({ grouping: { aliases: ['Apache'] } }))
+      .toThrow("'grouping.aliases' must be an object with string values");
+    expect(() => validateConfig({ libraries: {} })).toThrow("'libraries' must be an array");
+    expect(() => validateConfig({ libraries: [{ groupId: 'cryptix', artifactId: 'cryptix', name: 'Cryptix', packages: ['cryptix'] }] }))
+      .toThrow("'libraries[0].license' must be a string");
+    expect(() => validateConfig({ rules: {} })).toThrow("'rules' must be an array");
+    expect(() => validateConfig({ rules: [{ from: ['**.web'] }] })).toThrow("'rules[0].to' must be an array of strings");
+    expect(() => validateConfig({ rules: [{ type: 'allowed', to: ['**.dao'] }] })).toThrow("'rules[0].type' must be 'forbidden' or 'only'");
+    expect(() => validateConfig({ rules: [{ level: 'class', to: ['**.dao'] }] })).toThrow("'rules[0].level' must be 'package' or 'base-package'");
+  });
+});
+
+describe('loadConfig', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should load a configuration file', () => {
+    const configFile = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configFile, JSON.stringify({ classification: { internal: ['com.acme'] } }));
+
+    expect(loadConfig(configFile)).toEqual({ classification: { internal: ['com.acme'] } });
+  });
+
+  test('should report unreadable and invalid files with the file name', () => {
+    const configFile = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configFile, '{ not json');
+
+    expect(() => loadConfig(configFile)).toThrow(`Could not read configuration file '${configFile}'`);
+    expect(() => loadConfig(path.join(tempDir, 'missing.json'))).toThrow('Could not read configuration file');
+
+    fs.writeFileSync(configFile, JSON.stringify({ classification: { external: [1] } }));
+    expect(() => loadConfig(configFile)).toThrow(`Invalid configuration file '${configFile}'`);
+  });
+});
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DependencyAnalyzer } from '../dependency-mapper';
+
+// Build a JSONL line with sensible defaults for the fields the tests don't care about
+function recordLine(sourceClass: string, targetClass: string, artifactId: string = 'sampleEJB'): string {
+  return JSON.stringify({
+    appSetName: 'SampleApp',
+    applicationName: 'SampleApp',
+    artifactFileName: `${artifactId}-1.0.0.jar`,
+    artifactId,
+    artifactGroup: 'com.example.sample',
+    artifactVersion: '1.0.0',
+    sourceClass,
+    sourceMethod: 'method',
+    targetClass,
+    targetMethod: 'target'
+  });
+}
+
+describe('DependencyAnalyzer', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-mapper-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function analyze(lines: string[]): Promise<DependencyAnalyzer> {
+    const filePath = path.join(tempDir, 'dependencies.jsonl');
+    fs.writeFileSync(filePath, lines.join('\n'));
+    const analyzer = new DependencyAnalyzer();
+    await analyzer.parseJsonlFile(filePath);
+    return analyzer;
+  }
+
+  test('should compute statistics for the sample file', async () => {
+    const analyzer = new DependencyAnalyzer();
+    await analyzer.parseJsonlFile(path.join(__dirname, '..', 'sample-dependencies.jsonl'));
+
+    expect(analyzer.getStatistics()).toEqual({
+      totalComponents: 4,
+      totalArtifacts: 1,
+      totalDependencies: 3
+    });
+  });
+
+  test('should rank the most depended upon classes', async () => {
+    const analyzer = await analyze([
+      recordLine('com.example.A', 'java.lang.Object'),
+      recordLine('com.example.B', 'java.lang.Object'),
+      recordLine('com.example.B', 'com.example.A'),
+      recordLine('com.example.B', 'com.example.A')
+    ]);
+
+    const ranking = analyzer.getMostDependedUponClasses();
+    expect(ranking[0]).toEqual({ className: 'java.lang.Object', dependents: 2 });
+    expect(ranking[1]).toEqual({ className: 'com.example.A', dependents: 1 });
+    expect(ranking[2]).toEqual({ className: 'com.example.B', dependents: 0 });
+    expect(analyzer.getMostDependedUponClasses(1)).toHaveLength(1);
+  });
+
+  test('should normalize array signatures and ignore self dependencies', async () => {
+    const analyzer = await analyze([
+      recordLine('com.example.Enum', '[Lcom.example.Enum;'),
+      recordLine('com.example.A', '[Ljava.lang.String;')
+    ]);
+
+    expect(analyzer.getStatistics().totalDependencies).toBe(1);
+    expect(analyzer.getDependencies('com.example.A')).toEqual(['java.lang.String']);
+    expect(analyzer.getDependents('java.lang.String')).toEqual(['com.example.A']);
+    expect(analyzer.findCycles()).toEqual([]);
+  });
+
+  test('should summarize dependencies between artifacts', async () => {
+    const analyzer = await analyze([
+      recordLine('com.example.web.Controller', 'com.example.ejb.Service', 'web'),
+      recordLine('com.example.web.Controller', 'java.lang.Object', 'web'),
+      recordLine('com.example.ejb.Service', 'java.lang.Object', 'ejb')
+    ]);
+
+    const summary = analyzer.getArtifactDependencySummary();
+    expect(Array.from(summary.keys())).toEqual(['web']);
+    expect(Array.from(summary.get('web')!)).toEqual(['ejb']);
+  });
+
+  test('should find cycles in the class graph', async () => {
+    const analyzer = await analyze([
+      recordLine('com.example.A', 'com.example.B'),
+      recordLine('com.example.B', 'com.example.C'),
+      recordLine('com.example.C', 'com.example.A'),
+      recordLine('com.example.C', 'com.example.D')
+    ]);
+
+    expect(analyzer.findCycles()).toEqual([['com.example.A', 'com.example.B', 'com.example.C']]);
+  });
+
+  test('should report invalid lines and continue parsing', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const analyzer = await analyze([
+      'not json',
+      recordLine('com.example.A', 'java.lang.Object')
+    ]);
+
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+    expect(analyzer.getStatistics().totalDependencies).toBe(1);
+    consoleErrorSpy.mockRestore();
+  });
+});
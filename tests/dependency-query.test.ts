@@ -0,0 +1,106 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { compileQueryPattern, createDependencyQueryText } from '../dependency-query';
+import { makeRecord } from './fixtures';
+
+function createExtractor(): PackageDependencyExtractor {
+  const extractor = new PackageDependencyExtractor();
+  extractor.addRecords([
+    makeRecord('com.example.crypto.Cipher', 'cryptix.provider.cipher.Blowfish', { sourceMethod: 'encrypt', targetMethod: 'engineUpdate' }),
+    makeRecord('com.example.crypto.Cipher', 'cryptix.provider.key.RawSecretKey', { sourceMethod: 'init', targetMethod: '<init>' }),
+    makeRecord('com.example.crypto.Cipher', 'com.example.crypto.Cipher', { sourceMethod: 'encrypt', targetMethod: 'init' }),
+    makeRecord('com.example.service.PaymentService', 'com.example.crypto.Cipher', { sourceMethod: 'pay', targetMethod: 'encrypt' }),
+    makeRecord('com.example.service.PaymentService', 'com.example.crypto.Cipher', { sourceMethod: 'refund', targetMethod: 'decrypt' }),
+    makeRecord('com.example.web.PaymentAction', 'com.example.service.PaymentService', { sourceMethod: 'execute', targetMethod: 'pay' }),
+    makeRecord('com.example.web.PaymentAction', 'cryptix.util.Hex', { sourceMethod: 'execute', targetMethod: 'toString' }),
+    makeRecord('com.example.web.PaymentAction', 'com.example.service.PaymentService', { sourceMethod: 'cancel', targetMethod: 'refund' }),
+    // Library code calling itself is not an internal dependent
+    makeRecord('cryptix.provider.cipher.Blowfish', 'cryptix.util.Hex', { sourceMethod: 'engineUpdate', targetMethod: 'toString' })
+  ]);
+  return extractor;
+}
+
+describe('compileQueryPattern', () => {
+  test('should match the class or package and everything below it', () => {
+    const regex = compileQueryPattern('com.example.Foo');
+
+    expect(regex.test('com.example.Foo')).toBe(true);
+    expect(regex.test('com.example.Foo.Bar')).toBe(true);
+    expect(regex.test('com.example.FooBar')).toBe(false);
+  });
+
+  test('should support wildcards within and across segments', () => {
+    expect(compileQueryPattern('com.example.*Dao').test('com.example.OrderDao')).toBe(true);
+    expect(compileQueryPattern('com.example.*Dao').test('com.example.dao.Order')).toBe(false);
+    expect(compileQueryPattern('com.*.dao').test('com.example.dao.OrderDao')).toBe(true);
+    expect(compileQueryPattern('**.crypto').test('com.example.crypto.Cipher')).toBe(true);
+  });
+
+  test('should reject invalid patterns', () => {
+    expect(() => compileQueryPattern('')).toThrow("Invalid query pattern ''");
+    expect(() => compileQueryPattern('com..example')).toThrow("Invalid query pattern 'com..example'");
+  });
+});
+
+describe('findDependents', () => {
+  test('should find the direct and transitive internal dependents at their lowest depth', () => {
+    const result = createExtractor().findDependents('cryptix');
+
+    expect(result.matchedClasses).toEqual([
+      'cryptix.provider.cipher.Blowfish',
+      'cryptix.provider.key.RawSecretKey',
+      'cryptix.util.Hex'
+    ]);
+    expect(result.methods.map(method => [`${method.className}#${method.methodName}`, method.depth])).toEqual([
+      ['com.example.crypto.Cipher#encrypt', 1],
+      ['com.example.crypto.Cipher#init', 1],
+      ['com.example.web.PaymentAction#execute', 1],
+      ['com.example.service.PaymentService#pay', 2]
+    ]);
+    expect(result.methods[0].calls).toEqual(['cryptix.provider.cipher.Blowfish#engineUpdate']);
+    expect(result.methods[3].calls).toEqual(['com.example.crypto.Cipher#encrypt']);
+    expect(result.classes).toEqual([
+      { className: 'com.example.crypto.Cipher', depth: 1, methods: ['encrypt', 'init'] },
+      { className: 'com.example.web.PaymentAction', depth: 1, methods: ['execute'] },
+      { className: 'com.example.service.PaymentService', depth: 2, methods: ['pay'] }
+    ]);
+  });
+
+  test('should stop at the maximum depth', () => {
+    const result = createExtractor().findDependents('cryptix.provider.**', { maxDepth: 1 });
+
+    expect(result.maxDepth).toBe(1);
+    expect(result.classes.map(dependentClass => dependentClass.className)).toEqual(['com.example.crypto.Cipher']);
+  });
+
+  test('should not list code matching the pattern as its own dependent', () => {
+    const result = createExtractor().findDependents('com.example.crypto');
+
+    expect(result.methods.map(method => `${method.className}#${method.methodName}@${method.depth}`)).toEqual([
+      'com.example.service.PaymentService#pay@1',
+      'com.example.service.PaymentService#refund@1',
+      'com.example.web.PaymentAction#cancel@2',
+      'com.example.web.PaymentAction#execute@2'
+    ]);
+  });
+
+  test('should reject an invalid maximum depth', () => {
+    expect(() => createExtractor().findDependents('cryptix', { maxDepth: 0 }))
+      .toThrow('Invalid maximum depth 0, must be a positive integer');
+  });
+});
+
+describe('createDependencyQueryText', () => {
+  test('should list the dependent methods per class with the calls leading to the matched classes', () => {
+    const text = createDependencyQueryText(createExtractor().findDependents('cryptix', { maxDepth: 2 }));
+
+    expect(text).toContain("Internal code depending on 'cryptix' (up to depth 2)\n");
+    expect(text).toContain('Dependent classes: 3, methods: 4\n');
+    expect(text).toContain('\ncom.example.service.PaymentService (depth 2)\n' +
+      '  pay (depth 2) -> com.example.crypto.Cipher#encrypt\n');
+  });
+
+  test('should say when no called class matches', () => {
+    expect(createDependencyQueryText(createExtractor().findDependents('org.apache')))
+      .toContain("No called classes match 'org.apache'.");
+  });
+});
@@ -0,0 +1,71 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { createDotDiagram, createMermaidDiagram } from '../diagrams';
+import { makeRecord } from './fixtures';
+
+describe('diagrams', () => {
+  let extractor: PackageDependencyExtractor;
+
+  beforeEach(() => {
+    extractor = new PackageDependencyExtractor();
+    extractor.addRecords([
+      makeRecord('com.example.web.Controller', 'org.apache.struts.action.Action'),
+      makeRecord('com.example.web.Controller', 'org.apache.struts.action.ActionForm'),
+      makeRecord('com.example.web.Controller', 'org.apache.log4j.Logger'),
+      makeRecord('com.example.web.Controller', 'com.example.service.Service'),
+      makeRecord('com.example.service.Service', 'java.lang.String')
+    ]);
+  });
+
+  describe('createDotDiagram', () => {
+    test('should style internal and external base packages differently', () => {
+      const dot = createDotDiagram(extractor.getResult());
+
+      expect(dot).toContain('digraph dependencies {');
+      expect(dot).toContain('"com.example" [style=filled, fillcolor="#cfe2ff"];');
+      expect(dot).toContain('"org.apache" [style="filled,dashed", fillcolor="#eeeeee"];');
+    });
+
+    test('should weight base package edges by call count', () => {
+      const dot = createDotDiagram(extractor.getResult());
+
+      expect(dot).toContain('"com.example" -> "org.apache" [label="3", penwidth=1.5, tooltip="3 records, 1 source class, 3 target classes"];');
+      expect(dot).toContain('"com.example" -> "java.lang" [label="1", penwidth=1, tooltip="1 record, 1 source class, 1 target class"];');
+    });
+
+    test('should draw full packages at package level', () => {
+      const dot = createDotDiagram(extractor.getResult(), { level: 'package' });
+
+      expect(dot).toContain('"com.example.web" -> "org.apache.struts.action" [label="2"');
+      expect(dot).toContain('"com.example.web" -> "com.example.service" [label="1"');
+      expect(dot).not.toContain('"org.apache" ');
+    });
+
+    test('should leave out external packages when requested', () => {
+      const dot = createDotDiagram(extractor.getResult(), { level: 'package', includeExternal: false });
+
+      expect(dot).toContain('"com.example.web" -> "com.example.service"');
+      expect(dot).not.toContain('org.apache');
+      expect(dot).not.toContain('java.lang');
+    });
+  });
+
+  describe('createMermaidDiagram', () => {
+    test('should generate a flowchart with labelled nodes and weighted edges', () => {
+      const mermaid = createMermaidDiagram(extractor.getResult());
+
+      expect(mermaid.startsWith('flowchart LR\n')).toBe(true);
+      expect(mermaid).toContain('n0["com.example"]:::internal');
+      expect(mermaid).toContain('n2["org.apache"]:::external');
+      expect(mermaid).toContain('n0 -->|3| n2');
+      expect(mermaid).toContain('linkStyle 1 stroke-width:1.5px');
+    });
+
+    test('should be embedded in the Markdown report', () => {
+      const markdown = extractor.generateMarkdown({ includeExternal: false });
+
+      expect(markdown).toContain('## Dependency Graph');
+      expect(markdown).toContain('```mermaid\nflowchart LR\n');
+      expect(markdown).not.toContain('["org.apache"]');
+    });
+  });
+});
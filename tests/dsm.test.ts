@@ -0,0 +1,82 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { computeDependencyMatrix, createDsmCsv, createDsmHtmlTable, createDsmMarkdown } from '../dsm';
+import { makeRecord } from './fixtures';
+
+// web -> service <-> dao -> java.sql, with a cycle between service and dao
+function createExtractor(): PackageDependencyExtractor {
+  const extractor = new PackageDependencyExtractor();
+  extractor.addRecords([
+    makeRecord('com.example.web.Controller', 'com.example.service.OrderService'),
+    makeRecord('com.example.web.Controller', 'com.example.service.OrderService'),
+    makeRecord('com.example.service.OrderService', 'com.example.dao.OrderDao'),
+    makeRecord('com.example.dao.OrderDao', 'com.example.service.Callback'),
+    makeRecord('com.example.dao.OrderDao', 'java.sql.Connection')
+  ]);
+  return extractor;
+}
+
+describe('computeDependencyMatrix', () => {
+  test('should order packages after their dependencies and keep cycles together', () => {
+    const matrix = computeDependencyMatrix(createExtractor().getResult(), { level: 'package' });
+
+    expect(matrix.level).toBe('package');
+    expect(matrix.packages.map(node => node.name)).toEqual(['java.sql', 'com.example.dao', 'com.example.service', 'com.example.web']);
+    expect(matrix.packages[0].isExternal).toBe(true);
+    expect(matrix.cycles).toEqual([{ first: 1, last: 2 }]);
+  });
+
+  test('should hold the records of each dependency, with dependencies below the diagonal outside cycles', () => {
+    const matrix = computeDependencyMatrix(createExtractor().getResult(), { level: 'package' });
+
+    expect(matrix.cells).toEqual([
+      [0, 0, 0, 0],
+      [1, 0, 1, 0],
+      [0, 1, 0, 0],
+      [0, 0, 2, 0]
+    ]);
+  });
+
+  test('should use the base package graph without external packages if asked to', () => {
+    const matrix = computeDependencyMatrix(createExtractor().getResult(), { includeExternal: false });
+
+    expect(matrix.level).toBe('base-package');
+    expect(matrix.packages.map(node => node.name)).toEqual(['com.example']);
+    expect(matrix.cells).toEqual([[0]]);
+  });
+});
+
+describe('DSM output', () => {
+  test('should write CSV with empty cells for missing dependencies', () => {
+    const csv = createDsmCsv(computeDependencyMatrix(createExtractor().getResult(), { level: 'package' }));
+
+    expect(csv).toBe(
+      'Package,java.sql,com.example.dao,com.example.service,com.example.web\n' +
+      'java.sql,,,,\n' +
+      'com.example.dao,1,,1,\n' +
+      'com.example.service,,1,,\n' +
+      'com.example.web,,,2,\n'
+    );
+  });
+
+  test('should write a Markdown table that highlights dependencies above the diagonal and lists cycles', () => {
+    const markdown = createDsmMarkdown(computeDependencyMatrix(createExtractor().getResult(), { level: 'package' }));
+
+    expect(markdown).toContain('| # | Package | 1 | 2 | 3 | 4 |');
+    expect(markdown).toContain('| 1 | `java.sql` (external) | - |   |   |   |');
+    expect(markdown).toContain('| 2 | `com.example.dao` | 1 | - | **1** |   |');
+    expect(markdown).toContain('- 2-3: `com.example.dao`, `com.example.service`');
+  });
+
+  test('should mark the diagonal and cycle cells in the HTML table', () => {
+    const html = createDsmHtmlTable(computeDependencyMatrix(createExtractor().getResult(), { level: 'package' }));
+
+    expect(html).toContain('<tr><th>2</th><th data-name="com.example.dao">com.example.dao</th>' +
+      '<td>1</td><td class="diagonal"></td><td class="cycle above">1</td><td></td></tr>');
+  });
+
+  test('should say when there are no packages', () => {
+    const markdown = createDsmMarkdown(computeDependencyMatrix(new PackageDependencyExtractor().getResult()));
+
+    expect(markdown).toContain('*No packages found.*');
+  });
+});
@@ -0,0 +1,18 @@
+import { DependencyRecord } from '../types';
+
+// Build a dependency record with sensible defaults for the fields a test doesn't care about
+export function makeRecord(sourceClass: string, targetClass: string, overrides: Partial<DependencyRecord> = {}): DependencyRecord {
+  return {
+    appSetName: 'AppName',
+    applicationName: 'AppName',
+    artifactFileName: 'web.jar',
+    artifactId: 'web',
+    artifactGroup: 'com.example',
+    artifactVersion: '1.0.0',
+    sourceClass,
+    sourceMethod: 'methodName',
+    targetClass,
+    targetMethod: 'targetMethod',
+    ...overrides
+  };
+}
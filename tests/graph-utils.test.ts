@@ -0,0 +1,47 @@
+import { findStronglyConnectedComponents } from '../graph-utils';
+
+describe('findStronglyConnectedComponents', () => {
+  test('should return no components for an acyclic graph', () => {
+    const graph = new Map([
+      ['a', new Set(['b', 'c'])],
+      ['b', new Set(['c'])]
+    ]);
+
+    expect(findStronglyConnectedComponents(graph)).toEqual([]);
+  });
+
+  test('should find each cycle as a sorted component', () => {
+    const graph = new Map([
+      ['c', new Set(['a'])],
+      ['a', new Set(['b'])],
+      ['b', new Set(['c', 'd'])],
+      ['d', new Set(['e'])],
+      ['e', new Set(['d'])]
+    ]);
+
+    expect(findStronglyConnectedComponents(graph)).toEqual([
+      ['a', 'b', 'c'],
+      ['d', 'e']
+    ]);
+  });
+
+  test('should report self loops as single node components', () => {
+    const graph = new Map([
+      ['a', new Set(['a', 'b'])]
+    ]);
+
+    expect(findStronglyConnectedComponents(graph)).toEqual([['a']]);
+  });
+
+  test('should handle long chains without overflowing the stack', () => {
+    const graph = new Map<string, Set<string>>();
+    for (let i = 0; i < 20000; i++) {
+      graph.set(`n${i}`, new Set([`n${i + 1}`]));
+    }
+    graph.set('n20000', new Set(['n0']));
+
+    const components = findStronglyConnectedComponents(graph);
+    expect(components).toHaveLength(1);
+    expect(components[0]).toHaveLength(20001);
+  });
+});
@@ -0,0 +1,55 @@
+import { PackageGrouper } from '../grouping';
+
+describe('PackageGrouper', () => {
+  test('should use two segments for well-known top-level packages and three otherwise by default', () => {
+    const grouper = new PackageGrouper();
+
+    expect(grouper.getBasePackage('java.lang')).toBe('java.lang');
+    expect(grouper.getBasePackage('org.apache.commons.lang')).toBe('org.apache');
+    expect(grouper.getBasePackage('com.example.web')).toBe('com.example');
+    expect(grouper.getBasePackage('cryptix.provider.rsa.impl')).toBe('cryptix.provider.rsa');
+    expect(grouper.getBasePackage('x.y')).toBe('x.y');
+  });
+
+  test('should not group packages with fewer than two segments', () => {
+    const grouper = new PackageGrouper();
+
+    expect(grouper.getBasePackage('')).toBeUndefined();
+    expect(grouper.getBasePackage('cryptix')).toBeUndefined();
+  });
+
+  test('should apply the longest matching prefix depth', () => {
+    const grouper = new PackageGrouper({ depths: { 'org.apache': 3, 'org.apache.struts': 4 } });
+
+    expect(grouper.getBasePackage('org.apache.commons.lang')).toBe('org.apache.commons');
+    expect(grouper.getBasePackage('org.apache.struts.action.x')).toBe('org.apache.struts.action');
+    expect(grouper.getBasePackage('org.springframework.context')).toBe('org.springframework');
+    expect(grouper.getBasePackage('org.apachex.util')).toBe('org.apachex');
+  });
+
+  test('should replace built-in depths when asked to', () => {
+    const grouper = new PackageGrouper({ defaultDepth: 1, useBuiltInDepths: false, depths: { 'com.example': 3 } });
+
+    expect(grouper.getBasePackage('org.apache.commons')).toBe('org');
+    expect(grouper.getBasePackage('com.example.web.util')).toBe('com.example.web');
+  });
+
+  test('should map packages to aliases, preferring the most specific pattern', () => {
+    const grouper = new PackageGrouper({
+      aliases: {
+        'org.apache.commons.*': 'Apache Commons',
+        'org.apache': 'Apache',
+        'org.apache.struts': 'Apache Struts'
+      }
+    });
+
+    expect(grouper.getBasePackage('org.apache.commons.lang')).toBe('Apache Commons');
+    expect(grouper.getBasePackage('org.apache.struts.action')).toBe('Apache Struts');
+    expect(grouper.getBasePackage('org.apache.log4j')).toBe('Apache');
+  });
+
+  test('should reject invalid depths', () => {
+    expect(() => new PackageGrouper({ defaultDepth: 0 })).toThrow("Invalid default depth '0'");
+    expect(() => new PackageGrouper({ depths: { org: 1.5 } })).toThrow("Invalid depth for 'org' '1.5'");
+  });
+});
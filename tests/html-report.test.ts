@@ -0,0 +1,169 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { HtmlReportData, createHtmlReport, createHtmlReportData } from '../html-report';
+import { makeRecord } from './fixtures';
+
+function createExtractor(): PackageDependencyExtractor {
+  const extractor = new PackageDependencyExtractor();
+  extractor.addRecords([
+    makeRecord('com.example.web.Controller', 'com.example.service.OrderService'),
+    makeRecord('com.example.web.Controller', 'org.apache.struts.action.Action'),
+    makeRecord('com.example.web.View', 'org.apache.struts.action.Action'),
+    makeRecord('com.example.service.OrderService', 'java.lang.String')
+  ]);
+  return extractor;
+}
+
+// Pull the embedded data back out of a generated page
+function readEmbeddedData(html: string): HtmlReportData {
+  const match = html.match(/<script type="application\/json" id="report-data">([\s\S]*?)<\/script>/);
+  expect(match).not.toBeNull();
+  return JSON.parse(match![1]) as HtmlReportData;
+}
+
+// Just enough of the DOM to run the page script outside a browser
+class FakeElement {
+  children: FakeElement[] = [];
+  attributes: { [name: string]: string } = {};
+  textContent = '';
+  className = '';
+  value = '';
+  checked = true;
+  open = false;
+  classList = { toggle: () => undefined };
+  onclick?: (event: { preventDefault(): void }) => void;
+
+  set innerHTML(_html: string) {
+    this.children = [];
+  }
+
+  appendChild(child: FakeElement): FakeElement {
+    this.children.push(child);
+    return child;
+  }
+
+  setAttribute(name: string, value: unknown): void {
+    this.attributes[name] = String(value);
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+
+  querySelectorAll(): FakeElement[] {
+    return [];
+  }
+
+  // Find a clickable element by its text, depth first
+  findLink(text: string): FakeElement | undefined {
+    if (this.onclick && this.textContent === text) {
+      return this;
+    }
+    for (const child of this.children) {
+      const link = child.findLink(text);
+      if (link) {
+        return link;
+      }
+    }
+    return undefined;
+  }
+}
+
+// Run the page script against a fake document and return its elements by ID
+function runPageScript(html: string): Map<string, FakeElement> {
+  const elements = new Map<string, FakeElement>();
+  const document = {
+    getElementById: (id: string) => {
+      if (!elements.has(id)) {
+        elements.set(id, new FakeElement());
+      }
+      return elements.get(id)!;
+    },
+    createElement: () => new FakeElement(),
+    createElementNS: () => new FakeElement(),
+    querySelectorAll: () => []
+  };
+  document.getElementById('report-data').textContent = JSON.stringify(readEmbeddedData(html));
+  const script = html.match(/<script>([\s\S]*?)<\/script>/)![1];
+  new Function('document', script)(document);
+  return elements;
+}
+
+describe('createHtmlReportData', () => {
+  test('should keep class names that look like primitive descriptors', () => {
+    const extractor = new PackageDependencyExtractor();
+    extractor.addRecords([makeRecord('com.example.B', 'com.example.I')]);
+
+    const data = createHtmlReportData(extractor.getResult());
+    expect(data.basePackages[0].subPackages[0].classes).toEqual(['B', 'I']);
+  });
+
+  test('should list base packages with their sub-packages and classes', () => {
+    const data = createHtmlReportData(createExtractor().getResult());
+
+    expect(data.basePackages.map(basePackage => basePackage.name)).toEqual(['com.example', 'java.lang', 'org.apache']);
+    expect(data.basePackages[0]).toEqual({
+      name: 'com.example',
+      type: 'internal',
+      subPackages: [
+        { name: 'com.example.service', classes: ['OrderService'] },
+        { name: 'com.example.web', classes: ['Controller', 'View'] }
+      ]
+    });
+    expect(data.basePackages[2].type).toBe('external');
+  });
+
+  test('should include weighted edges at both levels', () => {
+    const data = createHtmlReportData(createExtractor().getResult());
+
+    expect(data.dependencies).toContainEqual({
+      source: 'com.example', target: 'org.apache', records: 2, sourceClasses: 2, targetClasses: 1
+    });
+    expect(data.packageDependencies).toContainEqual({
+      source: 'com.example.web', target: 'com.example.service', records: 1, sourceClasses: 1, targetClasses: 1
+    });
+  });
+});
+
+describe('createHtmlReport', () => {
+  test('should embed the report data and a script without external resources', () => {
+    const html = createHtmlReport(createExtractor().getResult());
+
+    expect(readEmbeddedData(html).basePackages).toHaveLength(3);
+    expect(html).not.toMatch(/<(script|link|img)[^>]+(src|href)=/);
+    const script = html.match(/<script>([\s\S]*?)<\/script>/)![1];
+    expect(() => new Function(script)).not.toThrow();
+  });
+
+  test('should render the library counts as a sortable table', () => {
+    const html = createHtmlReport(createExtractor().getResult());
+
+    expect(html).toContain('<table class="sortable"><thead><tr><th>Library</th><th>Count (Unique Classes)</th></tr></thead>');
+    expect(html).toContain('<tr><td>Struts</td><td class="number">1</td></tr>');
+  });
+
+  test('should escape names so they cannot break out of the page', () => {
+    const extractor = new PackageDependencyExtractor();
+    extractor.addRecords([makeRecord('com.example.Foo', 'com.example.Bar')]);
+    const html = createHtmlReport(extractor.getResult(), '<Report & "Title">');
+
+    expect(html).toContain('<title>&lt;Report &amp; &quot;Title&quot;&gt;</title>');
+    expect(html).not.toContain('<Report');
+    expect(readEmbeddedData(html).title).toBe('<Report & "Title">');
+  });
+
+  test('should show one-segment packages, which belong to no base package', () => {
+    const extractor = new PackageDependencyExtractor();
+    extractor.addRecords([makeRecord('acme.Main', 'com.example.web.Controller')]);
+    const html = createHtmlReport(extractor.getResult());
+    const elements = runPageScript(html);
+    const click = (text: string) => {
+      const link = elements.get('tree')!.findLink(text) ?? elements.get('details')!.findLink(text);
+      expect(link).toBeDefined();
+      link!.onclick!({ preventDefault: () => undefined });
+    };
+
+    click('com.example.web');
+    expect(() => click('acme')).not.toThrow();
+    expect(elements.get('details')!.children[0].textContent).toBe('acme');
+  });
+});
@@ -0,0 +1,11 @@
+import { escapeHtml } from '../html-utils';
+
+describe('escapeHtml', () => {
+  test('should escape markup and quotes', () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+  });
+
+  test('should leave plain text unchanged', () => {
+    expect(escapeHtml('com.example.web.Controller$1')).toBe('com.example.web.Controller$1');
+  });
+});
@@ -0,0 +1,120 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { LibraryCatalog } from '../library-catalog';
+import { computeImpact, createImpactText, createTransitiveDependenciesText } from '../impact-analysis';
+import { makeRecord } from './fixtures';
+
+function createExtractor(): PackageDependencyExtractor {
+  const extractor = new PackageDependencyExtractor();
+  extractor.addRecords([
+    makeRecord('com.example.web.PaymentAction', 'com.example.service.PaymentService'),
+    makeRecord('com.example.web.PaymentAction', 'org.apache.log4j.Logger'),
+    makeRecord('com.example.web.RefundAction', 'com.example.service.RefundService'),
+    makeRecord('com.example.service.PaymentService', 'com.example.crypto.Cipher'),
+    makeRecord('com.example.service.RefundService', 'com.example.crypto.Cipher'),
+    makeRecord('com.example.crypto.Cipher', 'cryptix.provider.cipher.Blowfish'),
+    makeRecord('com.example.crypto.KeyStore', 'cryptix.provider.key.RawSecretKey'),
+    makeRecord('com.example.batch.Job', 'org.apache.log4j.Logger'),
+    // Library code calling itself is not followed
+    makeRecord('cryptix.provider.cipher.Blowfish', 'cryptix.util.Hex')
+  ]);
+  return extractor;
+}
+
+describe('findTransitiveDependencies', () => {
+  test('should find every package reached with the shortest chain of classes', () => {
+    const dependencies = createExtractor().findTransitiveDependencies('com.example.web');
+
+    expect(dependencies.classes).toEqual(['com.example.web.PaymentAction', 'com.example.web.RefundAction']);
+    expect(dependencies.packages.map(reach => [reach.packageName, reach.depth, reach.isExternal])).toEqual([
+      ['com.example.service', 1, false],
+      ['org.apache.log4j', 1, true],
+      ['com.example.crypto', 2, false],
+      ['cryptix.provider.cipher', 3, true]
+    ]);
+    expect(dependencies.packages[0].classes).toEqual(['com.example.service.PaymentService', 'com.example.service.RefundService']);
+    expect(dependencies.packages[3].path).toEqual([
+      'com.example.web.PaymentAction',
+      'com.example.service.PaymentService',
+      'com.example.crypto.Cipher',
+      'cryptix.provider.cipher.Blowfish'
+    ]);
+  });
+
+  test('should stop at the maximum depth', () => {
+    const dependencies = createExtractor().findTransitiveDependencies('com.example.web', { maxDepth: 2 });
+
+    expect(dependencies.packages.map(reach => reach.packageName)).toEqual(['com.example.service', 'org.apache.log4j', 'com.example.crypto']);
+  });
+
+  test('should describe the packages reached as text', () => {
+    const text = createTransitiveDependenciesText(createExtractor().findTransitiveDependencies('com.example.web'));
+
+    expect(text).toContain("Packages reached from 'com.example.web' (any depth)\n");
+    expect(text).toContain('Packages reached: 4 (2 internal, 2 external)\n');
+    expect(text).toContain('\ncom.example.service (depth 1, 2 classes, internal)\n' +
+      '  com.example.web.PaymentAction -> com.example.service.PaymentService\n');
+    expect(createTransitiveDependenciesText(createExtractor().findTransitiveDependencies('com.example.unknown')))
+      .toContain("No internal classes with dependencies in 'com.example.unknown'.");
+  });
+});
+
+describe('findImpact', () => {
+  test('should find the affected internal packages with the chain leading to the target', () => {
+    const impact = createExtractor().findImpact('cryptix');
+
+    expect(impact.matchedClasses).toEqual([
+      'cryptix.provider.cipher.Blowfish',
+      'cryptix.provider.key.RawSecretKey',
+      'cryptix.util.Hex'
+    ]);
+    expect(impact.packages.map(reach => [reach.packageName, reach.depth, reach.classes])).toEqual([
+      ['com.example.crypto', 1, ['com.example.crypto.Cipher', 'com.example.crypto.KeyStore']],
+      ['com.example.service', 2, ['com.example.service.PaymentService', 'com.example.service.RefundService']],
+      ['com.example.web', 3, ['com.example.web.PaymentAction', 'com.example.web.RefundAction']]
+    ]);
+    expect(impact.packages[2].path).toEqual([
+      'com.example.web.PaymentAction',
+      'com.example.service.PaymentService',
+      'com.example.crypto.Cipher',
+      'cryptix.provider.cipher.Blowfish'
+    ]);
+    expect(impact.affectedClasses).toBe(6);
+  });
+
+  test('should stop at the maximum depth', () => {
+    const impact = createExtractor().findImpact('cryptix.provider.cipher.Blowfish', { maxDepth: 2 });
+
+    expect(impact.packages.map(reach => reach.packageName)).toEqual(['com.example.crypto', 'com.example.service']);
+    expect(impact.packages[0].classes).toEqual(['com.example.crypto.Cipher']);
+  });
+
+  test('should accept the coordinates of a catalogued library', () => {
+    const impact = createExtractor().findImpact('log4j:log4j');
+
+    expect(impact.library).toBe('log4j:log4j');
+    expect(impact.matchedClasses).toEqual(['org.apache.log4j.Logger']);
+    expect(impact.packages.map(reach => reach.packageName)).toEqual(['com.example.batch', 'com.example.web']);
+    expect(() => createExtractor().findImpact('com.example:unknown')).toThrow("Unknown library 'com.example:unknown'");
+  });
+
+  test('should treat classes of packages without information as external', () => {
+    const classDependencies = new Map([
+      ['com.example.crypto.Cipher', new Map([['cryptix.provider.cipher.Blowfish', 1]])],
+      ['org.unseen.Plugin', new Map([['cryptix.provider.cipher.Blowfish', 1]])]
+    ]);
+    const impact = computeImpact(classDependencies, createExtractor().getResult().packages, new LibraryCatalog(), 'cryptix');
+
+    expect(impact.packages.map(reach => reach.packageName)).toEqual(['com.example.crypto']);
+  });
+
+  test('should describe the blast radius as text', () => {
+    const text = createImpactText(createExtractor().findImpact('cryptix', { maxDepth: 1 }));
+
+    expect(text).toContain("Blast radius of 'cryptix' (up to depth 1)\n");
+    expect(text).toContain('Affected internal packages: 1, classes: 2\n');
+    expect(text).toContain('\ncom.example.crypto (depth 1, 2 classes)\n' +
+      '  com.example.crypto.Cipher -> cryptix.provider.cipher.Blowfish\n');
+    expect(createImpactText(createExtractor().findImpact('org.hibernate')))
+      .toContain("No classes of 'org.hibernate' are depended on.");
+  });
+});
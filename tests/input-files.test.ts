@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compileGlob, resolveInputFiles } from '../input-files';
+
+describe('compileGlob', () => {
+  test('should keep * and ? within one path segment', () => {
+    expect(compileGlob('exports/*.jsonl').test('exports/app.jsonl')).toBe(true);
+    expect(compileGlob('exports/*.jsonl').test('exports/sub/app.jsonl')).toBe(false);
+    expect(compileGlob('app?.jsonl').test('app1.jsonl')).toBe(true);
+  });
+
+  test('should match any number of directories with **', () => {
+    const regex = compileGlob('exports/**/*.jsonl');
+
+    expect(regex.test('exports/app.jsonl')).toBe(true);
+    expect(regex.test('exports/a/b/app.jsonl')).toBe(true);
+    expect(regex.test('other/app.jsonl')).toBe(false);
+  });
+
+  test('should support character classes and escape other characters', () => {
+    expect(compileGlob('app[12].jsonl').test('app2.jsonl')).toBe(true);
+    expect(compileGlob('app[!12].jsonl').test('app2.jsonl')).toBe(false);
+    expect(compileGlob('app+(1).jsonl').test('app+(1).jsonl')).toBe(true);
+  });
+});
+
+describe('resolveInputFiles', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'input-files-'));
+    fs.mkdirSync(path.join(tempDir, 'ears', 'billing'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'ears', 'orders.jsonl'), '');
+    fs.writeFileSync(path.join(tempDir, 'ears', 'notes.txt'), '');
+    fs.writeFileSync(path.join(tempDir, 'ears', 'billing', 'billing.jsonl'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should list the .jsonl files below a directory', () => {
+    expect(resolveInputFiles([path.join(tempDir, 'ears')])).toEqual([
+      path.join(tempDir, 'ears', 'billing', 'billing.jsonl'),
+      path.join(tempDir, 'ears', 'orders.jsonl')
+    ]);
+  });
+
+  test('should expand glob patterns', () => {
+    expect(resolveInputFiles([path.join(tempDir, 'ears', '*.jsonl')])).toEqual([path.join(tempDir, 'ears', 'orders.jsonl')]);
+    expect(resolveInputFiles([path.join(tempDir, '**', 'b*.jsonl')])).toEqual([path.join(tempDir, 'ears', 'billing', 'billing.jsonl')]);
+  });
+
+  test('should keep files in argument order and list each file once', () => {
+    const orders = path.join(tempDir, 'ears', 'orders.jsonl');
+    const notes = path.join(tempDir, 'ears', 'notes.txt');
+
+    expect(resolveInputFiles([notes, orders, path.join(tempDir, 'ears')])).toEqual([
+      notes,
+      orders,
+      path.join(tempDir, 'ears', 'billing', 'billing.jsonl')
+    ]);
+  });
+
+  test('should reject inputs that match nothing', () => {
+    const missing = path.join(tempDir, 'missing.jsonl');
+    const pattern = path.join(tempDir, '*.csv');
+
+    expect(() => resolveInputFiles([missing])).toThrow(`Input file '${missing}' does not exist`);
+    expect(() => resolveInputFiles([pattern])).toThrow(`No input files match '${pattern}'`);
+    fs.mkdirSync(path.join(tempDir, 'empty'));
+    expect(() => resolveInputFiles([path.join(tempDir, 'empty')])).toThrow('contains no .jsonl files');
+  });
+});
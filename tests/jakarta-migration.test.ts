@@ -0,0 +1,97 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { createJsonReport } from '../json-report';
+import { classifyJavaxPackage, createJakartaMigrationMarkdown, findJakartaMigration } from '../jakarta-migration';
+import { makeRecord } from './fixtures';
+
+function createExtractor(): PackageDependencyExtractor {
+  const extractor = new PackageDependencyExtractor();
+  extractor.addRecords([
+    makeRecord('com.example.web.OrderServlet', 'javax.servlet.http.HttpServletRequest', { sourceMethod: 'doGet', targetMethod: 'getParameter' }),
+    makeRecord('com.example.web.OrderServlet', 'javax.servlet.http.HttpServletRequest', { sourceMethod: 'doGet', targetMethod: 'getParameter' }),
+    makeRecord('com.example.web.OrderServlet', 'javax.servlet.http.HttpServletResponse', { sourceMethod: 'doGet', targetMethod: 'getWriter' }),
+    makeRecord('com.example.web.OrderServlet', 'javax.naming.InitialContext', { sourceMethod: 'init', targetMethod: 'lookup' }),
+    makeRecord('com.example.ejb.OrderBean', 'javax.rmi.PortableRemoteObject', { sourceMethod: 'create', targetMethod: 'narrow' }),
+    makeRecord('com.example.ejb.OrderBean', 'javax.cache.Cache', { sourceMethod: 'create', targetMethod: 'get' })
+  ]);
+  return extractor;
+}
+
+describe('classifyJavaxPackage', () => {
+  test('should use the longest matching package', () => {
+    expect(classifyJavaxPackage('javax.servlet.http')).toEqual({ status: 'renamed', family: 'Servlet' });
+    expect(classifyJavaxPackage('javax.servlet.jsp.tagext')).toEqual({ status: 'renamed', family: 'Server Pages' });
+    expect(classifyJavaxPackage('javax.annotation.processing')).toEqual({ status: 'unchanged', family: 'JDK: Compiler' });
+    expect(classifyJavaxPackage('javax.transaction.xa')).toEqual({ status: 'unchanged', family: 'JDK: XA Transactions' });
+    expect(classifyJavaxPackage('javax.xml.rpc.handler')).toEqual({ status: 'removed', family: 'XML-based RPC' });
+  });
+
+  test('should mark unlisted javax packages as unknown and ignore other packages', () => {
+    expect(classifyJavaxPackage('javax.cache')).toEqual({ status: 'unknown', family: 'Unknown' });
+    expect(classifyJavaxPackage('javaxx.servlet')).toBeUndefined();
+    expect(classifyJavaxPackage('jakarta.servlet')).toBeUndefined();
+  });
+});
+
+describe('findJakartaMigration', () => {
+  test('should classify the called javax classes with their call sites', () => {
+    const migration = findJakartaMigration(createExtractor().getResult());
+
+    expect(migration.classes.map(usage => [usage.className, usage.status])).toEqual([
+      ['javax.cache.Cache', 'unknown'],
+      ['javax.naming.InitialContext', 'unchanged'],
+      ['javax.rmi.PortableRemoteObject', 'removed'],
+      ['javax.servlet.http.HttpServletRequest', 'renamed'],
+      ['javax.servlet.http.HttpServletResponse', 'renamed']
+    ]);
+    expect(migration.classes[3]).toEqual({
+      className: 'javax.servlet.http.HttpServletRequest',
+      status: 'renamed',
+      family: 'Servlet',
+      jakartaClassName: 'jakarta.servlet.http.HttpServletRequest',
+      callSites: [{
+        sourceClass: 'com.example.web.OrderServlet',
+        sourceMethod: 'doGet',
+        targetClass: 'javax.servlet.http.HttpServletRequest',
+        targetMethod: 'getParameter',
+        callCount: 2
+      }]
+    });
+  });
+
+  test('should count usage per API family', () => {
+    const migration = findJakartaMigration(createExtractor().getResult());
+
+    expect(migration.families).toEqual([
+      { family: 'CORBA', status: 'removed', classes: 1, callSites: 1, calls: 1 },
+      { family: 'Unknown', status: 'unknown', classes: 1, callSites: 1, calls: 1 },
+      { family: 'Servlet', status: 'renamed', classes: 2, callSites: 2, calls: 3 },
+      { family: 'JDK: Naming', status: 'unchanged', classes: 1, callSites: 1, calls: 1 }
+    ]);
+  });
+
+  test('should list the usages needing a change per internal class and method in the Markdown report', () => {
+    const markdown = createExtractor().generateMarkdown();
+
+    expect(markdown).toContain('## Jakarta EE Migration');
+    expect(markdown).toContain('| Servlet | renamed | 2 | 2 | 3 |');
+    expect(markdown).toContain('2 internal classes call javax APIs that are renamed, removed or unknown:');
+    expect(markdown).toContain('### `com.example.web.OrderServlet`\n\n- `doGet`\n' +
+      '  - `javax.servlet.http.HttpServletRequest#getParameter` (2): renamed to `jakarta.servlet.http.HttpServletRequest`\n' +
+      '  - `javax.servlet.http.HttpServletResponse#getWriter` (1): renamed to `jakarta.servlet.http.HttpServletResponse`\n\n');
+    expect(markdown).toContain('  - `javax.rmi.PortableRemoteObject#narrow` (1): removed\n');
+    // Unchanged JDK usages are only counted
+    expect(createJakartaMigrationMarkdown(findJakartaMigration(createExtractor().getResult())))
+      .not.toContain('`javax.naming.InitialContext#lookup`');
+  });
+
+  test('should include the migration in the JSON report', () => {
+    expect(createJsonReport(createExtractor().getResult()).jakartaMigration.classes).toHaveLength(5);
+  });
+
+  test('should say when no javax classes are called', () => {
+    const extractor = new PackageDependencyExtractor();
+    extractor.addRecords([makeRecord('com.example.Foo', 'java.lang.String', { sourceMethod: 'run', targetMethod: 'valueOf' })]);
+
+    expect(extractor.generateMarkdown()).toContain('*No javax classes are called from internal code.*');
+  });
+});
@@ -0,0 +1,102 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { createJsonReport } from '../json-report';
+import { BUNDLED_JDK_API_CHANGES, JdkApiChangeData, findJdkApiChange, findJdkCompatibility } from '../jdk-compatibility';
+import { makeRecord } from './fixtures';
+
+function createExtractor(targetJdk?: number): PackageDependencyExtractor {
+  const extractor = new PackageDependencyExtractor(undefined, { targetJdk });
+  extractor.addRecords([
+    makeRecord('com.example.xml.OrderMarshaller', 'javax.xml.bind.JAXBContext', { sourceMethod: 'marshal', targetMethod: 'newInstance' }),
+    makeRecord('com.example.xml.OrderMarshaller', 'javax.xml.bind.Marshaller', { sourceMethod: 'marshal', targetMethod: 'marshal' }),
+    makeRecord('com.example.util.Codec', 'sun.misc.BASE64Encoder', { sourceMethod: 'encode', targetMethod: 'encode' }),
+    makeRecord('com.example.util.Codec', 'sun.misc.Unsafe', { sourceMethod: 'copy', targetMethod: 'copyMemory' }),
+    makeRecord('com.example.util.Codec', 'sun.security.x509.X500Name', { sourceMethod: 'encode', targetMethod: '<init>' }),
+    makeRecord('com.example.Main', 'java.lang.System', { sourceMethod: 'main', targetMethod: 'setSecurityManager' }),
+    makeRecord('com.example.Main', 'java.lang.String', { sourceMethod: 'main', targetMethod: 'valueOf' })
+  ]);
+  return extractor;
+}
+
+describe('findJdkApiChange', () => {
+  test('should prefer methods over classes over the longest package', () => {
+    expect(findJdkApiChange('sun.misc.BASE64Encoder', 'encode', 17)).toMatchObject({ class: 'sun.misc.BASE64Encoder', change: 'removed' });
+    expect(findJdkApiChange('sun.security.x509.X500Name', '<init>', 17)).toMatchObject({ package: 'sun', change: 'encapsulated' });
+    expect(findJdkApiChange('java.lang.Integer', '<init>', 17)).toMatchObject({ change: 'deprecated-for-removal', since: 16 });
+    expect(findJdkApiChange('java.lang.Integer', 'valueOf', 17)).toBeUndefined();
+  });
+
+  test('should take the latest change up to the target JDK', () => {
+    expect(findJdkApiChange('java.lang.System', 'setSecurityManager', 11)).toBeUndefined();
+    expect(findJdkApiChange('java.lang.System', 'setSecurityManager', 17)).toMatchObject({ change: 'deprecated-for-removal', since: 17 });
+    expect(findJdkApiChange('java.lang.System', 'setSecurityManager', 24)).toMatchObject({ change: 'removed', since: 24 });
+  });
+
+  test('should not fall back to a general entry when a specific one does not apply yet', () => {
+    const data: JdkApiChangeData = {
+      version: 1,
+      changes: [
+        { package: 'com.vendor', change: 'removed', since: 9, component: 'Vendor' },
+        { class: 'com.vendor.Kept', change: 'deprecated-for-removal', since: 21, component: 'Vendor' }
+      ]
+    };
+
+    expect(findJdkApiChange('com.vendor.Kept', 'run', 17, data)).toBeUndefined();
+    expect(findJdkApiChange('com.vendor.Other', 'run', 17, data)).toMatchObject({ change: 'removed' });
+  });
+
+  test('should bundle versioned data with valid entries', () => {
+    expect(BUNDLED_JDK_API_CHANGES.version).toBeGreaterThanOrEqual(1);
+    BUNDLED_JDK_API_CHANGES.changes.forEach(change => {
+      expect([change.package, change.class, change.method].filter(name => name !== undefined)).toHaveLength(1);
+      expect(['removed', 'encapsulated', 'unsupported', 'deprecated-for-removal']).toContain(change.change);
+      expect(Number.isInteger(change.since)).toBe(true);
+    });
+  });
+});
+
+describe('findJdkCompatibility', () => {
+  test('should group the affected call sites by API change', () => {
+    const compatibility = findJdkCompatibility(createExtractor().getResult(), 17);
+
+    expect(compatibility.targetJdk).toBe(17);
+    expect(compatibility.dataVersion).toBe(BUNDLED_JDK_API_CHANGES.version);
+    expect(compatibility.findings.map(finding => [finding.api, finding.change])).toEqual([
+      ['javax.xml.bind.*', 'removed'],
+      ['sun.misc.BASE64Encoder', 'removed'],
+      ['sun.*', 'encapsulated'],
+      ['sun.misc.Unsafe', 'unsupported'],
+      ['java.lang.System#setSecurityManager', 'deprecated-for-removal']
+    ]);
+    expect(compatibility.findings[0]).toMatchObject({
+      since: 11,
+      component: 'JAXB',
+      classes: ['javax.xml.bind.JAXBContext', 'javax.xml.bind.Marshaller']
+    });
+    expect(compatibility.findings[0].callSites.map(callSite => callSite.targetMethod)).toEqual(['newInstance', 'marshal']);
+  });
+
+  test('should only report changes up to the target JDK', () => {
+    const compatibility = findJdkCompatibility(createExtractor().getResult(), 9);
+
+    expect(compatibility.findings.map(finding => finding.api)).toEqual(['sun.misc.BASE64Encoder', 'sun.misc.Unsafe']);
+  });
+
+  test('should add a section with the call sites per internal class to the reports with a target JDK', () => {
+    const extractor = createExtractor(17);
+    const markdown = extractor.generateMarkdown();
+
+    expect(markdown).toContain('## JDK Compatibility');
+    expect(markdown).toContain(`in JDK 17 or earlier (JDK API data version ${BUNDLED_JDK_API_CHANGES.version})`);
+    expect(markdown).toContain('| `sun.misc.BASE64Encoder` | removed | 9 | JDK Internals | java.util.Base64 | 1 | 1 |');
+    expect(markdown).toContain('### `com.example.util.Codec`\n\n' +
+      '- `copy` → `sun.misc.Unsafe#copyMemory` (1): unsupported in JDK 9 (Still accessible through the jdk.unsupported module)\n');
+    expect(createJsonReport(extractor.getResult()).jdkCompatibility?.findings).toHaveLength(5);
+  });
+
+  test('should leave the section out without a target JDK', () => {
+    const extractor = createExtractor();
+
+    expect(extractor.generateMarkdown()).not.toContain('## JDK Compatibility');
+    expect(extractor.getJdkCompatibility()).toBeUndefined();
+  });
+});
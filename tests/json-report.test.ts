@@ -0,0 +1,89 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { JSON_REPORT_SCHEMA_VERSION, createJsonReport } from '../json-report';
+import { makeRecord } from './fixtures';
+
+describe('createJsonReport', () => {
+  let extractor: PackageDependencyExtractor;
+
+  beforeEach(() => {
+    extractor = new PackageDependencyExtractor('struts');
+    extractor.addRecords([
+      makeRecord('com.example.web.Controller', 'org.apache.struts.action.Action'),
+      makeRecord('com.example.web.Controller', 'com.example.service.Service'),
+      makeRecord('com.example.service.Service', 'java.lang.String', { artifactId: 'service', artifactFileName: 'service.jar' })
+    ]);
+  });
+
+  test('should include schema version and library counts', () => {
+    const report = createJsonReport(extractor.getResult());
+
+    expect(report.schemaVersion).toBe(JSON_REPORT_SCHEMA_VERSION);
+    expect(report.libraryCounts).toEqual({ struts: 1 });
+  });
+
+  test('should classify base packages and list sub-packages with class counts', () => {
+    const report = createJsonReport(extractor.getResult());
+
+    expect(report.basePackages.map(basePackage => [basePackage.name, basePackage.type])).toEqual([
+      ['com.example', 'internal'],
+      ['java.lang', 'external'],
+      ['org.apache', 'external']
+    ]);
+    expect(report.basePackages[0]).toEqual({
+      name: 'com.example',
+      type: 'internal',
+      classCount: 2,
+      subPackages: [
+        { name: 'com.example.service', classCount: 1 },
+        { name: 'com.example.web', classCount: 1 }
+      ],
+      dependencies: ['java.lang', 'org.apache']
+    });
+  });
+
+  test('should list base package and package edges and artifact membership', () => {
+    const report = createJsonReport(extractor.getResult());
+
+    expect(report.dependencies).toEqual([
+      { source: 'com.example', target: 'java.lang', records: 1, sourceClasses: 1, targetClasses: 1 },
+      { source: 'com.example', target: 'org.apache', records: 1, sourceClasses: 1, targetClasses: 1 }
+    ]);
+    expect(report.packageDependencies).toEqual([
+      { source: 'com.example.service', target: 'java.lang', records: 1, sourceClasses: 1, targetClasses: 1 },
+      { source: 'com.example.web', target: 'com.example.service', records: 1, sourceClasses: 1, targetClasses: 1 },
+      { source: 'com.example.web', target: 'org.apache.struts.action', records: 1, sourceClasses: 1, targetClasses: 1 }
+    ]);
+    expect(report.artifacts).toEqual([
+      {
+        artifactId: 'service',
+        fileName: 'service.jar',
+        version: '1.0.0',
+        classCount: 1,
+        packages: ['com.example.service', 'java.lang']
+      },
+      {
+        artifactId: 'web',
+        fileName: 'web.jar',
+        version: '1.0.0',
+        classCount: 1,
+        packages: ['com.example.service', 'com.example.web', 'org.apache.struts.action']
+      }
+    ]);
+  });
+
+  test('should list artifact dependencies and duplicate classes', () => {
+    extractor.addRecords([makeRecord('com.example.service.Service', 'java.lang.Object')]);
+    const report = createJsonReport(extractor.getResult());
+
+    expect(report.artifactDependencies).toEqual([]);
+    expect(report.duplicateClasses).toEqual([
+      { className: 'com.example.service.Service', artifacts: ['service', 'web'] }
+    ]);
+  });
+
+  test('should serialize to plain JSON', () => {
+    const report = createJsonReport(extractor.getResult());
+
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+});
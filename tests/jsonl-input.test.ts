@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DependencyRecord } from '../types';
+import {
+  InputSummary,
+  createInputSummary,
+  createInputSummaryMarkdown,
+  formatInputSummary,
+  readJsonlRecords,
+  validateRecord
+} from '../jsonl-input';
+import { makeRecord } from './fixtures';
+
+async function readAll(filePath: string, options = {}): Promise<DependencyRecord[]> {
+  const records: DependencyRecord[] = [];
+  for await (const record of readJsonlRecords(filePath, options)) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe('validateRecord', () => {
+  test('should accept complete records', () => {
+    expect(validateRecord(makeRecord('com.example.Main', 'java.lang.String'))).toEqual([]);
+    expect(validateRecord(makeRecord('com.example.Main', '[Ljava.lang.String;'))).toEqual([]);
+  });
+
+  test('should require every field of the record', () => {
+    expect(validateRecord({ sourceClass: 'com.example.Main', targetClass: 'java.lang.String' })).toEqual([
+      "'appSetName' is missing",
+      "'applicationName' is missing",
+      "'artifactFileName' is missing",
+      "'artifactId' is missing",
+      "'artifactGroup' is missing",
+      "'artifactVersion' is missing",
+      "'sourceMethod' is missing",
+      "'targetMethod' is missing"
+    ]);
+  });
+
+  test('should report missing, mistyped and malformed fields', () => {
+    expect(validateRecord([])).toEqual(['Record must be a JSON object']);
+    expect(validateRecord({ ...makeRecord('com.example.Main', 'java.lang.String'), sourceClass: undefined }))
+      .toEqual(["'sourceClass' is missing"]);
+    expect(validateRecord({ ...makeRecord('com.example.Main', 'java.lang.String'), sourceClass: 42, targetClass: '' })).toEqual([
+      "'sourceClass' must be a string",
+      "'targetClass' is not a class name: ''"
+    ]);
+    expect(validateRecord({ ...makeRecord('com..Main', 'java.lang.String'), artifactId: 7 })).toEqual([
+      "'sourceClass' is not a class name: 'com..Main'",
+      "'artifactId' must be a string"
+    ]);
+  });
+});
+
+describe('readJsonlRecords', () => {
+  let tempDir: string;
+  let inputFile: string;
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonl-input-'));
+    inputFile = path.join(tempDir, 'records.jsonl');
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should count accepted, rejected and blank lines and report errors with line numbers', async () => {
+    fs.writeFileSync(inputFile, [
+      JSON.stringify(makeRecord('com.example.Main', 'java.lang.String')),
+      '',
+      JSON.stringify({ ...makeRecord('com.example.Main', 'java.lang.String'), targetClass: undefined }),
+      // A truncated export ends in the middle of a record
+      '{"sourceClass":"com.example.Main","targ'
+    ].join('\n'));
+    const summary = createInputSummary();
+
+    const records = await readAll(inputFile, { summary });
+
+    expect(records).toHaveLength(1);
+    expect(summary).toMatchObject({ files: [inputFile], acceptedLines: 1, rejectedLines: 2, blankLines: 1 });
+    expect(summary.errors.map(error => [error.line, error.message])).toEqual([
+      [3, "'targetClass' is missing"],
+      [4, expect.stringContaining('Invalid JSON')]
+    ]);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(`${inputFile}:3: 'targetClass' is missing`);
+  });
+
+  test('should reject a record with only the class names', async () => {
+    fs.writeFileSync(inputFile, [
+      JSON.stringify(makeRecord('com.example.Main', 'java.lang.String')),
+      JSON.stringify({ sourceClass: 'com.example.Helper', targetClass: 'java.lang.String' })
+    ].join('\n'));
+    const summary = createInputSummary();
+
+    const records = await readAll(inputFile, { summary });
+
+    expect(records.map(record => record.sourceClass)).toEqual(['com.example.Main']);
+    expect(summary.errors).toEqual([{ file: inputFile, line: 2, message: expect.stringContaining("'applicationName' is missing") }]);
+    await expect(readAll(inputFile, { strict: true }))
+      .rejects.toThrow(`${inputFile}:2: 'appSetName' is missing; 'applicationName' is missing`);
+  });
+
+  test('should stop printing errors at the limit but keep counting', async () => {
+    fs.writeFileSync(inputFile, ['{', '{', '{', '{'].join('\n'));
+    const summary = createInputSummary();
+
+    await readAll(inputFile, { summary, maxErrors: 2 });
+
+    expect(summary.rejectedLines).toBe(4);
+    expect(summary.errors).toHaveLength(2);
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(3);
+    expect(consoleErrorSpy).toHaveBeenLastCalledWith('More than 2 invalid lines, further errors are only counted');
+  });
+
+  test('should abort at the first invalid line in strict mode', async () => {
+    fs.writeFileSync(inputFile, [
+      JSON.stringify(makeRecord('com.example.Main', 'java.lang.String')),
+      JSON.stringify(makeRecord('com.example.Main', 'java lang String'))
+    ].join('\n'));
+
+    await expect(readAll(inputFile, { strict: true }))
+      .rejects.toThrow(`${inputFile}:2: 'targetClass' is not a class name: 'java lang String'`);
+  });
+});
+
+describe('input summary output', () => {
+  const summary: InputSummary = {
+    files: ['a.jsonl', 'b.jsonl'],
+    acceptedLines: 10,
+    rejectedLines: 3,
+    blankLines: 1,
+    errors: [{ file: 'b.jsonl', line: 4, message: 'Invalid JSON: Unexpected end of JSON input' }]
+  };
+
+  test('should describe the summary in one line', () => {
+    expect(formatInputSummary(summary)).toBe('Read 2 files: 10 lines accepted, 3 rejected, 1 blank');
+  });
+
+  test('should warn about rejected lines in Markdown', () => {
+    const markdown = createInputSummaryMarkdown(summary);
+
+    expect(markdown).toContain('| `a.jsonl`, `b.jsonl` | 10 | 3 | 1 |');
+    expect(markdown).toContain('**Warning:** 3 lines could not be read, so this report may be incomplete.');
+    expect(markdown).toContain('- `b.jsonl` line 4: Invalid JSON: Unexpected end of JSON input');
+    expect(markdown).toContain('- ...and 2 more');
+    expect(createInputSummaryMarkdown({ ...summary, rejectedLines: 0, errors: [] })).not.toContain('Warning');
+  });
+});
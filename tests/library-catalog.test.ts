@@ -0,0 +1,43 @@
+import { BUILT_IN_LIBRARIES, LibraryCatalog, libraryCoordinates } from '../library-catalog';
+
+describe('LibraryCatalog', () => {
+  test('should find built-in libraries by package prefix', () => {
+    const catalog = new LibraryCatalog();
+
+    expect(catalog.findLibrary('org.apache.log4j')?.artifactId).toBe('log4j');
+    expect(catalog.findLibrary('org.apache.commons.lang.time')?.artifactId).toBe('commons-lang');
+    expect(catalog.findLibrary('org.apache.commons.lang3')?.artifactId).toBe('commons-lang3');
+    expect(catalog.findLibrary('com.example.web')).toBeUndefined();
+  });
+
+  test('should prefer the most specific package prefix', () => {
+    const catalog = new LibraryCatalog();
+
+    expect(catalog.findLibrary('org.springframework.web.bind')?.artifactId).toBe('spring-web');
+    expect(catalog.findLibrary('org.springframework.web.servlet.mvc')?.artifactId).toBe('spring-webmvc');
+    expect(catalog.findLibrary('org.apache.logging.log4j.core.appender')?.artifactId).toBe('log4j-core');
+  });
+
+  test('should respect package segment boundaries', () => {
+    const catalog = new LibraryCatalog();
+
+    expect(catalog.findLibrary('org.apache.strutsx')).toBeUndefined();
+    expect(catalog.findLibrary('org.apache.struts2.dispatcher')?.artifactId).toBe('struts2-core');
+  });
+
+  test('should add libraries and replace built-in ones with the same coordinates', () => {
+    const catalog = new LibraryCatalog([
+      { groupId: 'cryptix', artifactId: 'cryptix', name: 'Cryptix', license: 'Cryptix', packages: ['cryptix'] },
+      { groupId: 'log4j', artifactId: 'log4j', name: 'Log4j (patched)', license: 'Apache-2.0', packages: ['org.apache.log4j'] }
+    ]);
+
+    expect(catalog.findLibrary('cryptix.provider.rsa')?.name).toBe('Cryptix');
+    expect(catalog.findLibrary('org.apache.log4j')?.name).toBe('Log4j (patched)');
+  });
+
+  test('should have unique coordinates in the built-in catalog', () => {
+    const coordinates = BUILT_IN_LIBRARIES.map(libraryCoordinates);
+
+    expect(new Set(coordinates).size).toBe(coordinates.length);
+  });
+});
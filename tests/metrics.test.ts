@@ -0,0 +1,72 @@
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { createJsonReport } from '../json-report';
+import { MetricsOptions, computeMetrics, createMetricsMarkdown } from '../metrics';
+import { makeRecord } from './fixtures';
+
+function createExtractor(metrics: MetricsOptions = {}): PackageDependencyExtractor {
+  const extractor = new PackageDependencyExtractor(undefined, { metrics });
+  extractor.addRecords([
+    makeRecord('com.example.web.Controller', 'com.example.service.OrderService'),
+    makeRecord('com.example.web.Controller', 'org.apache.struts.action.Action'),
+    makeRecord('com.example.web.Controller', 'java.lang.String'),
+    makeRecord('com.example.batch.Job', 'com.example.service.OrderService'),
+    makeRecord('com.example.service.OrderService', 'com.example.dao.OrderDao'),
+    makeRecord('com.example.dao.OrderDao', 'java.sql.Connection')
+  ]);
+  return extractor;
+}
+
+describe('computeMetrics', () => {
+  test('should compute coupling metrics of internal packages', () => {
+    const metrics = createExtractor().getMetrics();
+    const byName = new Map(metrics.packages.map(packageMetrics => [packageMetrics.name, packageMetrics]));
+
+    expect(byName.get('com.example.web')).toEqual({
+      name: 'com.example.web',
+      afferentCoupling: 0,
+      efferentCoupling: 3,
+      instability: 1,
+      externalDependencyRatio: 2 / 3
+    });
+    expect(byName.get('com.example.service')).toMatchObject({ afferentCoupling: 2, efferentCoupling: 1, instability: 1 / 3, externalDependencyRatio: 0 });
+    expect(byName.get('com.example.dao')).toMatchObject({ afferentCoupling: 1, efferentCoupling: 1, instability: 0.5, externalDependencyRatio: 1 });
+    // External packages get no metrics
+    expect(byName.has('java.lang')).toBe(false);
+  });
+
+  test('should compute metrics of internal base packages', () => {
+    const metrics = createExtractor().getMetrics();
+
+    expect(metrics.basePackages).toEqual([
+      { name: 'com.example', afferentCoupling: 0, efferentCoupling: 3, instability: 1, externalDependencyRatio: 1 }
+    ]);
+  });
+
+  test('should sort by the chosen metric and list the top packages as hotspots', () => {
+    expect(createExtractor().getMetrics().packages.map(packageMetrics => packageMetrics.name)).toEqual([
+      'com.example.web', 'com.example.batch', 'com.example.dao', 'com.example.service'
+    ]);
+
+    const metrics = computeMetrics(createExtractor().getResult(), { sortBy: 'afferent', top: 2 });
+    expect(metrics.sortBy).toBe('afferent');
+    expect(metrics.hotspots.map(packageMetrics => packageMetrics.name)).toEqual(['com.example.service', 'com.example.dao']);
+  });
+
+  test('should include the metrics in the Markdown and JSON reports', () => {
+    const extractor = createExtractor({ sortBy: 'instability', top: 1 });
+    const markdown = extractor.generateMarkdown();
+
+    expect(markdown).toContain('## Metrics');
+    expect(markdown).toContain('Tables are sorted by instability.');
+    expect(markdown).toContain('The top 1 of 4 internal packages.');
+    expect(markdown).toContain('| `com.example.batch` | 0 | 1 | 1.00 | 0.00 |');
+    expect(createJsonReport(extractor.getResult()).metrics.packages).toHaveLength(4);
+  });
+
+  test('should say when there are no internal packages', () => {
+    const markdown = createMetricsMarkdown({ sortBy: 'efferent', packages: [], basePackages: [], hotspots: [] });
+
+    expect(markdown).toContain('*No internal base packages found.*');
+    expect(markdown).toContain('*No internal packages found.*');
+  });
+});
@@ -1,390 +1,64 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { jest } from '@jest/globals';
-
-// Copy of the class for testing
-// We're extracting the class to make it testable independently
-class PackageDependencyExtractor {
-  packageMap: Map<string, any> = new Map();
-  dependencyMap: Map<string, Set<string>> = new Map();
-  artifactMap: Map<string, Set<string>> = new Map();
-  basePackageDependencyMap: Map<string, Set<string>> = new Map();
-  // Update library counts property to use Set for uniqueness
-  libraryCounts: { [key: string]: Set<string> } = {}; // Changed from number to Set<string>
-  librariesToCount: string[] = ['struts', 'commons', 'log4j', 'cryptix']; // Default libraries
-
-  constructor(librariesToCount?: string) {
-    if (librariesToCount) {
-      this.librariesToCount = librariesToCount.split(',').map(lib => lib.trim().toLowerCase());
-    }
-    
-    // Initialize counter for each library
-    this.librariesToCount.forEach(lib => {
-      this.libraryCounts[lib] = new Set<string>(); // Initialize with an empty Set
-    });
-  }
-
-  async parseJsonlFile(filePath: string): Promise<void> {
-    // In our tests, we don't actually read from a file
-    // We'll mock the implementation instead
-    if (process.env.NODE_ENV === 'test') {
-      // Skip actual file reading in tests
-      this.buildBasePackageDependencies();
-      return;
-    }
-    
-    const fileStream = fs.createReadStream(filePath);
-    const rl = {
-      [Symbol.asyncIterator]: jest.fn()
-    };
-    
-    // Mock the line reading
-    for await (const line of rl as any) {
-      if (line.trim()) {
-        try {
-          const record = JSON.parse(line);
-          this.processRecord(record);
-        } catch (error) {
-          console.error(`Error parsing line: ${line}`, error);
-        }
-      }
-    }
-
-    // After processing all records, build base package dependency map
-    this.buildBasePackageDependencies();
-  }
-
-  processRecord(record: any): void {
-    // Extract packages from source and target classes
-    const sourceClass = record.sourceClass;
-    const targetClass = record.targetClass;
-    
-    // Process source class package
-    const sourcePackage = this.getPackageName(sourceClass);
-    const sourceClassName = this.getClassName(sourceClass);
-    this.addPackage(sourcePackage, sourceClassName, false);
-    
-    // Process target class package
-    const targetPackage = this.getPackageName(targetClass);
-    const targetClassName = this.getClassName(targetClass);
-    // Mark as external if it's not from the project's group
-    const isExternal = !targetClass.startsWith(record.artifactGroup);
-    this.addPackage(targetPackage, targetClassName, isExternal);
-    
-    // Track dependencies between packages
-    if (sourcePackage !== targetPackage) {
-      if (!this.dependencyMap.has(sourcePackage)) {
-        this.dependencyMap.set(sourcePackage, new Set());
-      }
-      this.dependencyMap.get(sourcePackage)!.add(targetPackage);
-    }
-    
-    // Track artifact packages
-    if (!this.artifactMap.has(record.artifactId)) {
-      this.artifactMap.set(record.artifactId, new Set());
-    }
-    this.artifactMap.get(record.artifactId)!.add(sourcePackage);
-    this.artifactMap.get(record.artifactId)!.add(targetPackage);
-    
-    // Count specific libraries in targetClass
-    this.countSpecificLibraries(targetClass);
-  }
-
-  getPackageName(className: string): string {
-    // Handle Java array type signature with [L prefix and ; suffix
-    let processedName = className;
-    if (className.startsWith("[L") && className.endsWith(";")) {
-      processedName = className.substring(2, className.length - 1);
-    }
-    
-    const lastDotIndex = processedName.lastIndexOf('.');
-    return lastDotIndex > 0 ? processedName.substring(0, lastDotIndex) : '';
-  }
-  
-  getClassName(className: string): string {
-    // Handle Java array type signature with [L prefix and ; suffix
-    let processedName = className;
-    if (className.startsWith("[L") && className.endsWith(";")) {
-      processedName = className.substring(2, className.length - 1);
-    }
-    
-    const lastDotIndex = processedName.lastIndexOf('.');
-    return lastDotIndex > 0 ? processedName.substring(lastDotIndex + 1) : processedName;
-  }
-
-  addPackage(packageName: string, className: string, isExternal: boolean): void {
-    if (!this.packageMap.has(packageName)) {
-      this.packageMap.set(packageName, {
-        name: packageName,
-        classes: new Set(),
-        isExternal
-      });
-    }
-    this.packageMap.get(packageName)!.classes.add(className);
-  }
-
-  // Get base packages (first two or three segments of package name)
-  getBasePackages(): Map<string, Set<string>> {
-    const basePackages = new Map<string, Set<string>>();
-    
-    this.packageMap.forEach((info, packageName) => {
-      // Split package name by dots
-      const segments = packageName.split('.');
-      
-      // For known external dependencies like java.*, use the first two segments
-      // For project dependencies, extract base package (first two or three segments)
-      let basePackage = '';
-      if (segments.length >= 2) {
-        if (["java", "javax", "org", "com", "net"].includes(segments[0])) {
-          basePackage = segments.slice(0, 2).join('.');
-        } else {
-          // Use up to three segments for non-standard packages
-          basePackage = segments.slice(0, Math.min(3, segments.length)).join('.');
-        }
-        
-        if (!basePackages.has(basePackage)) {
-          basePackages.set(basePackage, new Set());
-        }
-        basePackages.get(basePackage)!.add(packageName);
-      }
-    });
-    
-    return basePackages;
-  }
-
-  // Build dependencies between base packages
-  buildBasePackageDependencies(): void {
-    const basePackages = this.getBasePackages();
-    const packageToBaseMap = new Map<string, string>();
-    
-    // Build a map from full package to base package
-    basePackages.forEach((subPackages, basePackage) => {
-      subPackages.forEach(subPackage => {
-        packageToBaseMap.set(subPackage, basePackage);
-      });
-    });
-    
-    // Now build dependencies between base packages
-    this.dependencyMap.forEach((targetPackages, sourcePackage) => {
-      const sourceBasePackage = packageToBaseMap.get(sourcePackage);
-      
-      if (sourceBasePackage) {
-        if (!this.basePackageDependencyMap.has(sourceBasePackage)) {
-          this.basePackageDependencyMap.set(sourceBasePackage, new Set());
-        }
-        
-        targetPackages.forEach(targetPackage => {
-          const targetBasePackage = packageToBaseMap.get(targetPackage);
-          
-          if (targetBasePackage && sourceBasePackage !== targetBasePackage) {
-            this.basePackageDependencyMap.get(sourceBasePackage)!.add(targetBasePackage);
-          }
-        });
-      }
-    });
-  }
-
-  generateMarkdownOutput(outputFile: string): void {
-    const basePackages = this.getBasePackages();
-    const sortedBasePackages = Array.from(basePackages.keys()).sort();
-    
-    let markdownContent = '# Project Package Dependencies\n\n';
-    markdownContent += 'This document lists all base packages that the project depends on.\n\n';
-    
-    // Add section for specific library counts
-    markdownContent += '## Specific Library Counts\n\n';
-    markdownContent += 'These counts represent the number of dependencies where the `targetClass` field in the JSONL data contains each specific library name. This helps quantify how many times your application code depends on classes from these libraries, which is useful for identifying vulnerability exposure.\n\n';
-    markdownContent += '| Library | Count |\n';
-    markdownContent += '|---------|-------|\n';
-    
-    // Display counts for each library dynamically
-    Object.keys(this.libraryCounts).forEach(library => {
-      markdownContent += `| ${library.charAt(0).toUpperCase() + library.slice(1)} | ${this.libraryCounts[library].size} |\n`; // Use .size in tests too
-    });
-    markdownContent += '\n';
-    
-    // List all base packages
-    markdownContent += '## Base Packages\n\n';
-    
-    // Group packages by their type (external vs internal)
-    const externalPackages: string[] = [];
-    const internalPackages: string[] = [];
-    
-    sortedBasePackages.forEach(basePackage => {
-      const isExternal = Array.from(basePackages.get(basePackage)!).some(
-        pkg => this.packageMap.get(pkg)?.isExternal
-      );
-      
-      if (isExternal) {
-        externalPackages.push(basePackage);
-      } else {
-        internalPackages.push(basePackage);
-      }
-    });
-    
-    // External dependencies section
-    if (externalPackages.length > 0) {
-      markdownContent += '### External Dependencies\n\n';
-      externalPackages.forEach(pkg => {
-        markdownContent += `- \`${pkg}\`\n`;
-      });
-      markdownContent += '\n';
-    }
-    
-    // Internal dependencies section
-    if (internalPackages.length > 0) {
-      markdownContent += '### Internal Packages\n\n';
-      internalPackages.forEach(pkg => {
-        markdownContent += `- \`${pkg}\`\n`;
-      });
-      markdownContent += '\n';
-    }
-
-    // Add dependency relationships section
-    markdownContent += '## Dependency Relationships\n\n';
-    
-    const sortedBasePackageDependencies = Array.from(this.basePackageDependencyMap.entries())
-      .sort((a, b) => a[0].localeCompare(b[0]));
-        
-    if (sortedBasePackageDependencies.length === 0) {
-      markdownContent += '*No dependencies between base packages found.*\n\n';
-    } else {
-      sortedBasePackageDependencies.forEach(([source, targets]) => {
-        markdownContent += `- \`${source}\` depends on:\n`;
-        const sortedTargets = Array.from(targets).sort();
-        sortedTargets.forEach(target => {
-          markdownContent += `  - \`${target}\`\n`;
-        });
-        markdownContent += '\n';
-      });
-    }
-    
-    // Add package details
-    markdownContent += '## Package Details\n\n';
-    sortedBasePackages.forEach(basePackage => {
-      // Count total classes in this base package
-      let totalClasses = 0;
-      basePackages.get(basePackage)!.forEach(pkg => {
-        totalClasses += this.packageMap.get(pkg)!.classes.size;
-      });
-      
-      markdownContent += `### \`${basePackage}\`\n\n`;
-      markdownContent += `- **Type**: ${externalPackages.includes(basePackage) ? 'External Dependency' : 'Internal Package'}\n`;
-      markdownContent += `- **Sub-packages**: ${basePackages.get(basePackage)!.size}\n`;
-      markdownContent += `- **Classes**: ${totalClasses}\n`;
-      
-      // Add dependencies for this base package
-      if (this.basePackageDependencyMap.has(basePackage)) {
-        const dependencies = this.basePackageDependencyMap.get(basePackage)!;
-        markdownContent += `- **Dependencies**: ${dependencies.size > 0 ? Array.from(dependencies).map(dep => `\`${dep}\``).join(', ') : 'None'}\n`;
-      } else {
-        markdownContent += `- **Dependencies**: None\n`;
-      }
-      markdownContent += '\n';
-      
-      // List sub-packages
-      if (basePackages.get(basePackage)!.size > 0) {
-        markdownContent += 'Includes these sub-packages:\n\n';
-        const sortedSubPackages = Array.from(basePackages.get(basePackage)!).sort();
-        sortedSubPackages.forEach(subPackage => {
-          markdownContent += `- \`${subPackage}\`\n`;
-        });
-        markdownContent += '\n';
-      }
-    });
-    
-    // Use fs.writeFileSync to write the output
-    fs.writeFileSync(outputFile, markdownContent);
-  }
-
-  // Method to count unique classes for specific libraries (Updated for tests)
-  countSpecificLibraries(targetClass: string): void {
-    const lcTargetClass = targetClass.toLowerCase();
-    
-    this.librariesToCount.forEach(library => {
-      if (lcTargetClass.includes(library)) {
-        // Add the original targetClass to the Set for uniqueness
-        this.libraryCounts[library].add(targetClass);
-      }
-    });
-  }
-
-  // Method to get the library counts (Set sizes) for testing
-  getLibraryCounts(): { [key: string]: number } { // Return type changed to number for the size
-    const counts: { [key: string]: number } = {};
-    Object.keys(this.libraryCounts).forEach(lib => {
-      counts[lib] = this.libraryCounts[lib].size;
-    });
-    return counts;
-  }
-  
-  // Getter for libraries being counted
-  getLibrariesToCount() {
-    return [...this.librariesToCount];
-  }
-}
-
-// Create a mock for fs module
-jest.mock('fs', () => ({
-  createReadStream: jest.fn(),
-  writeFileSync: jest.fn(),
-}));
-
-// Mock readline module
-jest.mock('readline', () => ({
-  createInterface: jest.fn().mockReturnValue({
-    [Symbol.asyncIterator]: jest.fn(),
-  }),
-}));
+import { PackageDependencyExtractor, getPackageName, getClassName } from '../package-dependencies';
+import { createJsonReport } from '../json-report';
+import { makeRecord } from './fixtures';
 
 describe('PackageDependencyExtractor', () => {
   let extractor: PackageDependencyExtractor;
-  
+  let tempDir: string;
+
   beforeEach(() => {
-    jest.clearAllMocks();
     extractor = new PackageDependencyExtractor();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'package-dependencies-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
   });
 
   describe('getPackageName', () => {
     test('should return the package name from a fully qualified class name', () => {
-      expect(extractor.getPackageName('java.lang.String')).toBe('java.lang');
-      expect(extractor.getPackageName('com.example.MyClass')).toBe('com.example');
-      expect(extractor.getPackageName('NoPackage')).toBe('');
+      expect(getPackageName('java.lang.String')).toBe('java.lang');
+      expect(getPackageName('com.example.MyClass')).toBe('com.example');
+      expect(getPackageName('NoPackage')).toBe('');
     });
 
     test('should handle Java array type signatures correctly', () => {
-      expect(extractor.getPackageName('[Ljava.lang.String;')).toBe('java.lang');
-      expect(extractor.getPackageName('[Loracle.jdbc.OracleConnection$CommitOption;')).toBe('oracle.jdbc');
-      expect(extractor.getPackageName('[Lorg.apache.poi.Test;')).toBe('org.apache.poi');
+      expect(getPackageName('[Ljava.lang.String;')).toBe('java.lang');
+      expect(getPackageName('[Loracle.jdbc.OracleConnection$CommitOption;')).toBe('oracle.jdbc');
+      expect(getPackageName('[Lorg.apache.poi.Test;')).toBe('org.apache.poi');
     });
   });
 
   describe('getClassName', () => {
     test('should return the class name from a fully qualified class name', () => {
-      expect(extractor.getClassName('java.lang.String')).toBe('String');
-      expect(extractor.getClassName('com.example.MyClass')).toBe('MyClass');
-      expect(extractor.getClassName('NoPackage')).toBe('NoPackage');
+      expect(getClassName('java.lang.String')).toBe('String');
+      expect(getClassName('com.example.MyClass')).toBe('MyClass');
+      expect(getClassName('NoPackage')).toBe('NoPackage');
     });
 
     test('should handle Java array type signatures correctly', () => {
-      expect(extractor.getClassName('[Ljava.lang.String;')).toBe('String');
-      expect(extractor.getClassName('[Loracle.jdbc.OracleConnection$CommitOption;')).toBe('OracleConnection$CommitOption');
-      expect(extractor.getClassName('[Lorg.apache.poi.Test;')).toBe('Test');
+      expect(getClassName('[Ljava.lang.String;')).toBe('String');
+      expect(getClassName('[Loracle.jdbc.OracleConnection$CommitOption;')).toBe('OracleConnection$CommitOption');
+      expect(getClassName('[Lorg.apache.poi.Test;')).toBe('Test');
     });
   });
 
   describe('addPackage', () => {
     test('should add a new package to the packageMap', () => {
-      extractor.addPackage('java.lang', 'String', true);
+      extractor['addPackage']('java.lang', 'String');
       
-      expect(extractor.packageMap.has('java.lang')).toBe(true);
-      expect(extractor.packageMap.get('java.lang')?.classes.has('String')).toBe(true);
-      expect(extractor.packageMap.get('java.lang')?.isExternal).toBe(true);
+      expect(extractor['packageMap'].has('java.lang')).toBe(true);
+      expect(extractor['packageMap'].get('java.lang')?.classes.has('String')).toBe(true);
+      // Packages are classified once all records are processed
+      expect(extractor['packageMap'].get('java.lang')?.isExternal).toBe(false);
       
       // Add another class to the same package
-      extractor.addPackage('java.lang', 'Integer', true);
-      expect(extractor.packageMap.get('java.lang')?.classes.has('Integer')).toBe(true);
-      expect(extractor.packageMap.get('java.lang')?.classes.size).toBe(2);
+      extractor['addPackage']('java.lang', 'Integer');
+      expect(extractor['packageMap'].get('java.lang')?.classes.has('Integer')).toBe(true);
+      expect(extractor['packageMap'].get('java.lang')?.classes.size).toBe(2);
     });
   });
 
@@ -404,22 +78,22 @@ describe('PackageDependencyExtractor', () => {
         targetMethod: 'targetMethod'
       };
       
-      extractor.processRecord(record);
+      extractor['processRecord'](record);
       
       // Verify packageMap has been updated
-      expect(extractor.packageMap.has('com.example')).toBe(true);
-      expect(extractor.packageMap.has('java.lang')).toBe(true);
-      expect(extractor.packageMap.get('com.example')?.classes.has('SourceClass')).toBe(true);
-      expect(extractor.packageMap.get('java.lang')?.classes.has('String')).toBe(true);
+      expect(extractor['packageMap'].has('com.example')).toBe(true);
+      expect(extractor['packageMap'].has('java.lang')).toBe(true);
+      expect(extractor['packageMap'].get('com.example')?.classes.has('SourceClass')).toBe(true);
+      expect(extractor['packageMap'].get('java.lang')?.classes.has('String')).toBe(true);
       
       // Verify dependencyMap has been updated
-      expect(extractor.dependencyMap.has('com.example')).toBe(true);
-      expect(extractor.dependencyMap.get('com.example')?.has('java.lang')).toBe(true);
+      expect(extractor['dependencyMap'].has('com.example')).toBe(true);
+      expect(extractor['dependencyMap'].get('com.example')?.has('java.lang')).toBe(true);
       
       // Verify artifactMap has been updated
-      expect(extractor.artifactMap.has('exampleModule')).toBe(true);
-      expect(extractor.artifactMap.get('exampleModule')?.has('com.example')).toBe(true);
-      expect(extractor.artifactMap.get('exampleModule')?.has('java.lang')).toBe(true);
+      expect(extractor['artifactMap'].has('exampleModule')).toBe(true);
+      expect(extractor['artifactMap'].get('exampleModule')?.has('com.example')).toBe(true);
+      expect(extractor['artifactMap'].get('exampleModule')?.has('java.lang')).toBe(true);
     });
 
     test('should handle same package dependencies correctly', () => {
@@ -437,15 +111,15 @@ describe('PackageDependencyExtractor', () => {
         targetMethod: 'targetMethod'
       };
       
-      extractor.processRecord(record);
+      extractor['processRecord'](record);
       
       // Verify packageMap has been updated
-      expect(extractor.packageMap.has('com.example')).toBe(true);
-      expect(extractor.packageMap.get('com.example')?.classes.has('SourceClass')).toBe(true);
-      expect(extractor.packageMap.get('com.example')?.classes.has('TargetClass')).toBe(true);
+      expect(extractor['packageMap'].has('com.example')).toBe(true);
+      expect(extractor['packageMap'].get('com.example')?.classes.has('SourceClass')).toBe(true);
+      expect(extractor['packageMap'].get('com.example')?.classes.has('TargetClass')).toBe(true);
       
       // Verify no dependency is added (same package)
-      expect(extractor.dependencyMap.has('com.example')).toBe(false);
+      expect(extractor['dependencyMap'].has('com.example')).toBe(false);
     });
 
     test('should handle Java array type signatures in class names', () => {
@@ -463,25 +137,117 @@ describe('PackageDependencyExtractor', () => {
         targetMethod: 'clone'
       };
       
-      extractor.processRecord(record);
+      extractor['processRecord'](record);
       
-      // Verify packageMap has been updated correctly without [L prefix
-      expect(extractor.packageMap.has('com.example')).toBe(true);
-      expect(extractor.packageMap.get('com.example')?.classes.has('Enum$Value')).toBe(true);
+      // Verify packageMap has been updated correctly without [L prefix, with the nested class folded into its outer class
+      expect(extractor['packageMap'].has('com.example')).toBe(true);
+      expect(extractor['packageMap'].get('com.example')?.classes).toEqual(new Set(['Enum']));
       
       // Verify no dependency is added (same package after array signature is processed)
-      expect(extractor.dependencyMap.has('com.example')).toBe(false);
+      expect(extractor['dependencyMap'].has('com.example')).toBe(false);
+    });
+  });
+
+  describe('addRecords', () => {
+    test('should process a dependency record correctly', () => {
+      extractor.addRecords([makeRecord('com.example.SourceClass', 'java.lang.String')]);
+      const result = extractor.getResult();
+
+      // Verify packages have been recorded
+      expect(result.packages.has('com.example')).toBe(true);
+      expect(result.packages.has('java.lang')).toBe(true);
+      expect(result.packages.get('com.example')?.classes.has('SourceClass')).toBe(true);
+      expect(result.packages.get('com.example')?.isExternal).toBe(false);
+      expect(result.packages.get('java.lang')?.classes.has('String')).toBe(true);
+      expect(result.packages.get('java.lang')?.isExternal).toBe(true);
+
+      // Verify package dependencies have been recorded
+      expect(result.dependencies.get('com.example')?.has('java.lang')).toBe(true);
+
+      // Verify artifact packages have been recorded
+      expect(result.artifacts.get('web')?.has('com.example')).toBe(true);
+      expect(result.artifacts.get('web')?.has('java.lang')).toBe(true);
+    });
+
+    test('should classify packages by artifact group boundaries', () => {
+      extractor.addRecords([
+        makeRecord('com.example.web.Controller', 'com.examplefoo.Util'),
+        makeRecord('com.example.web.Controller', 'com.example.dao.Dao')
+      ]);
+      const result = extractor.getResult();
+
+      expect(result.packages.get('com.example.web')?.isExternal).toBe(false);
+      expect(result.packages.get('com.example.dao')?.isExternal).toBe(false);
+      expect(result.packages.get('com.examplefoo')?.isExternal).toBe(true);
+    });
+
+    test('should classify packages consistently across records', () => {
+      extractor.addRecords([
+        // The first record's artifact group doesn't cover com.acme, a later artifact's group does
+        makeRecord('com.example.web.Controller', 'com.acme.util.Strings'),
+        makeRecord('com.acme.util.Strings', 'java.lang.String', { artifactGroup: 'com.acme' })
+      ]);
+
+      expect(extractor.getResult().packages.get('com.acme.util')?.isExternal).toBe(false);
+    });
+
+    test('should apply user-supplied internal and external patterns', () => {
+      const configured = new PackageDependencyExtractor(undefined, {
+        classification: { internal: ['com.acme'], external: ['com.example.generated'] }
+      });
+      configured.addRecords([
+        makeRecord('com.example.web.Controller', 'com.acme.util.Strings'),
+        makeRecord('com.example.web.Controller', 'com.example.generated.Stub')
+      ]);
+      const result = configured.getResult();
+
+      expect(result.packages.get('com.acme.util')?.isExternal).toBe(false);
+      expect(result.packages.get('com.example.generated')?.isExternal).toBe(true);
+      expect(result.packages.get('com.example.web')?.isExternal).toBe(false);
+    });
+
+    test('should add classes to an existing package', () => {
+      extractor.addRecords([
+        makeRecord('com.example.SourceClass', 'java.lang.String'),
+        makeRecord('com.example.SourceClass', 'java.lang.Integer')
+      ]);
+      const result = extractor.getResult();
+
+      expect(result.packages.get('java.lang')?.classes.size).toBe(2);
+    });
+
+    test('should count every descriptor form of a class as the same class', () => {
+      extractor.addRecords([
+        makeRecord('com/example/web/Controller', '[[Lorg/apache/struts/action/Action;'),
+        makeRecord('com.example.web.Controller$1', 'org.apache.struts.action.Action$Forward'),
+        makeRecord('com.example.web.Controller', '[I', { targetMethod: 'clone' })
+      ]);
+      const result = extractor.getResult();
+
+      expect(result.packages.get('com.example.web')?.classes).toEqual(new Set(['Controller']));
+      expect(result.packages.get('org.apache.struts.action')?.classes).toEqual(new Set(['Action']));
+      expect(extractor.getLibraryCounts().struts).toBe(1);
+      expect(extractor.findMethodCallSites('org/apache/struts/action/Action$Forward').map(callSite => callSite.callCount)).toEqual([2]);
+      // Primitive arrays belong to no package
+      expect(Array.from(result.packages.keys()).sort()).toEqual(['com.example.web', 'org.apache.struts.action']);
+    });
+
+    test('should keep nested classes separate when asked to', () => {
+      extractor = new PackageDependencyExtractor(undefined, { keepInnerClasses: true });
+      extractor.addRecords([makeRecord('com.example.web.Controller$1', '[Lcom/example/web/Controller$Form;')]);
+
+      expect(extractor.getResult().packages.get('com.example.web')?.classes).toEqual(new Set(['Controller$1', 'Controller$Form']));
     });
   });
 
   describe('getBasePackages', () => {
     test('should create base package mapping correctly', () => {
       // Setup test data
-      extractor.packageMap.set('java.lang', { name: 'java.lang', classes: new Set(['String', 'Integer']), isExternal: true });
-      extractor.packageMap.set('java.util', { name: 'java.util', classes: new Set(['List', 'Map']), isExternal: true });
-      extractor.packageMap.set('com.example', { name: 'com.example', classes: new Set(['Main']), isExternal: false });
-      extractor.packageMap.set('com.example.util', { name: 'com.example.util', classes: new Set(['Helper']), isExternal: false });
-      extractor.packageMap.set('org.apache.commons', { name: 'org.apache.commons', classes: new Set(['StringUtils']), isExternal: true });
+      extractor['packageMap'].set('java.lang', { name: 'java.lang', classes: new Set(['String', 'Integer']), isExternal: true });
+      extractor['packageMap'].set('java.util', { name: 'java.util', classes: new Set(['List', 'Map']), isExternal: true });
+      extractor['packageMap'].set('com.example', { name: 'com.example', classes: new Set(['Main']), isExternal: false });
+      extractor['packageMap'].set('com.example.util', { name: 'com.example.util', classes: new Set(['Helper']), isExternal: false });
+      extractor['packageMap'].set('org.apache.commons', { name: 'org.apache.commons', classes: new Set(['StringUtils']), isExternal: true });
       
       const result = extractor.getBasePackages();
       
@@ -503,8 +269,8 @@ describe('PackageDependencyExtractor', () => {
 
     test('should handle non-standard package names', () => {
       // Setup test data with non-standard packages
-      extractor.packageMap.set('custom.package.name', { name: 'custom.package.name', classes: new Set(['CustomClass']), isExternal: true });
-      extractor.packageMap.set('x.y', { name: 'x.y', classes: new Set(['ShortPackage']), isExternal: true });
+      extractor['packageMap'].set('custom.package.name', { name: 'custom.package.name', classes: new Set(['CustomClass']), isExternal: true });
+      extractor['packageMap'].set('x.y', { name: 'x.y', classes: new Set(['ShortPackage']), isExternal: true });
       
       const result = extractor.getBasePackages();
       
@@ -515,50 +281,246 @@ describe('PackageDependencyExtractor', () => {
     });
   });
 
+  describe('grouping rules', () => {
+    test('should drive base packages and their dependencies', () => {
+      const configured = new PackageDependencyExtractor(undefined, {
+        grouping: { depths: { 'org.apache': 3 }, aliases: { 'org.apache.commons': 'Apache Commons' } }
+      });
+      configured.addRecords([
+        makeRecord('com.example.Main', 'org.apache.commons.lang.StringUtils'),
+        makeRecord('com.example.Main', 'org.apache.commons.io.FileUtils'),
+        makeRecord('com.example.Main', 'org.apache.struts.action.Action')
+      ]);
+      const result = configured.getResult();
+
+      expect(Array.from(result.basePackages.keys()).sort()).toEqual(['Apache Commons', 'com.example', 'org.apache.struts']);
+      expect(Array.from(result.basePackageDependencies.get('com.example') ?? []).sort())
+        .toEqual(['Apache Commons', 'org.apache.struts']);
+      expect(result.basePackageDependencyWeights.get('com.example')?.get('Apache Commons')?.records).toBe(2);
+      expect(configured.generateMarkdown()).toContain('### `Apache Commons`');
+    });
+  });
+
   describe('buildBasePackageDependencies', () => {
     test('should build dependencies between base packages', () => {
       // Setup test data for packageMap
-      extractor.packageMap.set('java.lang', { name: 'java.lang', classes: new Set(['String']), isExternal: true });
-      extractor.packageMap.set('java.util', { name: 'java.util', classes: new Set(['List']), isExternal: true });
-      extractor.packageMap.set('com.example', { name: 'com.example', classes: new Set(['Main']), isExternal: false });
-      extractor.packageMap.set('com.example.util', { name: 'com.example.util', classes: new Set(['Helper']), isExternal: false });
+      extractor['packageMap'].set('java.lang', { name: 'java.lang', classes: new Set(['String']), isExternal: true });
+      extractor['packageMap'].set('java.util', { name: 'java.util', classes: new Set(['List']), isExternal: true });
+      extractor['packageMap'].set('com.example', { name: 'com.example', classes: new Set(['Main']), isExternal: false });
+      extractor['packageMap'].set('com.example.util', { name: 'com.example.util', classes: new Set(['Helper']), isExternal: false });
       
       // Setup test data for dependencyMap
-      extractor.dependencyMap.set('com.example', new Set(['java.lang']));
-      extractor.dependencyMap.set('com.example.util', new Set(['java.util', 'com.example']));
+      extractor['dependencyMap'].set('com.example', new Set(['java.lang']));
+      extractor['dependencyMap'].set('com.example.util', new Set(['java.util', 'com.example']));
       
       // Execute the method
-      extractor.buildBasePackageDependencies();
+      extractor['buildBasePackageDependencies']();
       
       // Verify the results
-      expect(extractor.basePackageDependencyMap.has('com.example')).toBe(true);
-      expect(extractor.basePackageDependencyMap.get('com.example')?.has('java.lang')).toBe(true);
-      expect(extractor.basePackageDependencyMap.get('com.example')?.has('java.util')).toBe(true);
+      expect(extractor['basePackageDependencyMap'].has('com.example')).toBe(true);
+      expect(extractor['basePackageDependencyMap'].get('com.example')?.has('java.lang')).toBe(true);
+      expect(extractor['basePackageDependencyMap'].get('com.example')?.has('java.util')).toBe(true);
       
       // Internal dependencies should be filtered out (com.example.util -> com.example)
-      expect(extractor.basePackageDependencyMap.get('com.example')?.size).toBe(2);
+      expect(extractor['basePackageDependencyMap'].get('com.example')?.size).toBe(2);
+    });
+  });
+
+  describe('artifact dependencies', () => {
+    test('should link artifacts through the classes they contain', () => {
+      extractor.addRecords([
+        makeRecord('com.example.web.Controller', 'com.example.ejb.Service', { artifactId: 'web' }),
+        makeRecord('com.example.ejb.Service', 'java.lang.Object', { artifactId: 'ejb' })
+      ]);
+      const result = extractor.getResult();
+
+      expect(Array.from(result.artifactDependencies.get('web') ?? [])).toEqual(['ejb']);
+      expect(result.artifactDependencies.has('ejb')).toBe(false);
+    });
+
+    test('should count class dependencies and calls between artifact pairs', () => {
+      extractor.addRecords([
+        makeRecord('com.example.web.Controller', 'com.example.ejb.Service', { artifactId: 'web' }),
+        makeRecord('com.example.web.Controller', 'com.example.ejb.Service', { artifactId: 'web' }),
+        makeRecord('com.example.web.Controller', 'com.example.ejb.Helper', { artifactId: 'web' }),
+        makeRecord('com.example.ejb.Service', 'com.example.ejb.Helper', { artifactId: 'ejb' }),
+        makeRecord('com.example.ejb.Helper', 'java.lang.Object', { artifactId: 'ejb', artifactFileName: 'ejb-2.0.jar', artifactVersion: '2.0' })
+      ]);
+
+      expect(extractor.getArtifactDependencies()).toEqual([
+        { source: 'web', target: 'ejb', classDependencies: 2, callCount: 3 }
+      ]);
+      expect(extractor.getResult().artifactInfo.get('ejb')).toEqual({
+        artifactId: 'ejb',
+        fileName: 'web.jar',
+        version: '1.0.0',
+        classes: new Set(['com.example.ejb.Service', 'com.example.ejb.Helper'])
+      });
+    });
+
+    test('should flag classes contained in multiple artifacts', () => {
+      extractor.addRecords([
+        makeRecord('com.example.util.Strings', 'java.lang.String', { artifactId: 'web' }),
+        makeRecord('com.example.util.Strings', 'java.lang.String', { artifactId: 'ejb' }),
+        makeRecord('com.example.web.Controller', 'com.example.util.Strings', { artifactId: 'web' })
+      ]);
+
+      expect(extractor.getDuplicateClasses()).toEqual(new Map([['com.example.util.Strings', ['ejb', 'web']]]));
+      // The duplicate in the calling artifact itself is used, so no artifact dependency results
+      expect(extractor.getArtifactDependencies()).toEqual([]);
+      expect(extractor.generateMarkdown()).toContain('- `com.example.util.Strings`: `ejb`, `web`');
+    });
+  });
+
+  describe('method usage', () => {
+    beforeEach(() => {
+      extractor.addRecords([
+        makeRecord('com.example.web.Controller', 'org.apache.log4j.Logger', { sourceMethod: 'handle', targetMethod: 'info' }),
+        makeRecord('com.example.web.Controller', 'org.apache.log4j.Logger', { sourceMethod: 'handle', targetMethod: 'info' }),
+        makeRecord('com.example.dao.Dao', 'org.apache.log4j.Logger', { sourceMethod: 'load', targetMethod: 'error' }),
+        makeRecord('com.example.dao.Dao', '[Lorg.apache.log4j.Logger;', { sourceMethod: 'load', targetMethod: 'clone' }),
+        makeRecord('com.example.web.Controller', 'com.example.dao.Dao', { sourceMethod: 'handle', targetMethod: 'load' })
+      ]);
+    });
+
+    test('should list called methods of external classes with their callers', () => {
+      const usage = extractor.getExternalMethodUsage();
+
+      expect(usage.map(classUsage => classUsage.className)).toEqual(['org.apache.log4j.Logger']);
+      expect(usage[0].callCount).toBe(4);
+      expect(usage[0].methods.map(method => [method.methodName, method.callCount])).toEqual([
+        ['clone', 1],
+        ['error', 1],
+        ['info', 2]
+      ]);
+      expect(usage[0].methods[2].callers).toEqual([{
+        sourceClass: 'com.example.web.Controller',
+        sourceMethod: 'handle',
+        targetClass: 'org.apache.log4j.Logger',
+        targetMethod: 'info',
+        callCount: 2
+      }]);
+    });
+
+    test('should leave out calls made by external classes', () => {
+      // A bundled library calling another library
+      extractor.addRecords([
+        makeRecord('org.apache.struts.action.Action', 'org.apache.log4j.Logger', { sourceMethod: 'execute', targetMethod: 'debug' }),
+        makeRecord('org.apache.struts.action.Action', 'org.apache.commons.logging.Log', { sourceMethod: 'execute', targetMethod: 'debug' })
+      ]);
+
+      const usage = extractor.getExternalMethodUsage();
+      expect(usage.map(classUsage => classUsage.className)).toEqual(['org.apache.log4j.Logger']);
+      expect(usage[0].methods.map(method => method.methodName)).toEqual(['clone', 'error', 'info']);
+    });
+
+    test('should find the call sites of a class or method', () => {
+      expect(extractor.findMethodCallSites('org.apache.log4j.Logger')).toHaveLength(3);
+      expect(extractor.findMethodCallSites('org.apache.log4j.Logger', 'error').map(callSite => callSite.sourceClass))
+        .toEqual(['com.example.dao.Dao']);
+      expect(extractor.findMethodCallSites('[Lcom.example.dao.Dao;', 'load')).toHaveLength(1);
+      expect(extractor.findMethodCallSites('org.apache.log4j.Appender')).toEqual([]);
+    });
+
+    test('should include method usage in the Markdown report', () => {
+      const markdown = extractor.generateMarkdown();
+
+      expect(markdown).toContain('## External Method Usage');
+      expect(markdown).toContain('### `org.apache.log4j.Logger`');
+      expect(markdown).toContain('- `info` (2 calls)\n  - `com.example.web.Controller#handle` (2)');
+    });
+  });
+
+  describe('external libraries', () => {
+    test('should count classes and calls of catalogued libraries used by internal code', () => {
+      extractor.addRecords([
+        makeRecord('com.example.web.Controller', 'org.apache.log4j.Logger', { sourceMethod: 'handle', targetMethod: 'info' }),
+        makeRecord('com.example.web.Controller', 'org.apache.log4j.Logger', { sourceMethod: 'handle', targetMethod: 'info' }),
+        makeRecord('com.example.dao.Dao', 'org.apache.log4j.Level', { sourceMethod: 'load', targetMethod: 'toInt' }),
+        makeRecord('com.example.dao.Dao', 'org.apache.commons.lang.StringUtils', { sourceMethod: 'load', targetMethod: 'isEmpty' }),
+        // Calls between library classes are not usage by internal code
+        makeRecord('org.apache.struts.action.Action', 'org.apache.commons.lang.ArrayUtils'),
+        makeRecord('com.example.dao.Dao', 'java.lang.String')
+      ]);
+
+      expect(extractor.getExternalLibraries()).toEqual([
+        {
+          coordinates: 'log4j:log4j',
+          name: 'Apache Log4j 1',
+          license: 'Apache-2.0',
+          classes: ['org.apache.log4j.Level', 'org.apache.log4j.Logger'],
+          callSites: 2,
+          callCount: 3
+        },
+        {
+          coordinates: 'commons-lang:commons-lang',
+          name: 'Apache Commons Lang 2',
+          license: 'Apache-2.0',
+          classes: ['org.apache.commons.lang.StringUtils'],
+          callSites: 1,
+          callCount: 1
+        }
+      ]);
+      expect(extractor.generateMarkdown())
+        .toContain('| Apache Log4j 1 | `log4j:log4j` | Apache-2.0 | 2 | 2 | 3 |');
+    });
+
+    test('should use libraries added through the options', () => {
+      const configured = new PackageDependencyExtractor(undefined, {
+        libraries: [{ groupId: 'cryptix', artifactId: 'cryptix', name: 'Cryptix', license: 'Cryptix', packages: ['cryptix'] }]
+      });
+      configured.addRecords([makeRecord('com.example.Main', 'cryptix.provider.Cipher')]);
+
+      expect(configured.getExternalLibraries().map(library => library.coordinates)).toEqual(['cryptix:cryptix']);
+      expect(configured.getLibraryCounts()['cryptix']).toBe(1);
+    });
+  });
+
+  describe('findCycles', () => {
+    test('should find cycles at each graph level', () => {
+      extractor.addRecords([
+        makeRecord('com.example.web.Controller', 'com.example.dao.Dao', { artifactId: 'web' }),
+        makeRecord('com.example.dao.Dao', 'com.example.web.Controller', { artifactId: 'dao' }),
+        makeRecord('com.example.dao.Dao', 'java.lang.Object', { artifactId: 'dao' })
+      ]);
+
+      const cycles = extractor.findCycles();
+
+      expect(cycles.packages).toEqual([{
+        nodes: ['com.example.dao', 'com.example.web'],
+        edges: [['com.example.dao', 'com.example.web'], ['com.example.web', 'com.example.dao']],
+        isInternal: true
+      }]);
+      expect(cycles.basePackages).toEqual([]);
+      expect(cycles.artifacts.map(cycle => cycle.nodes)).toEqual([['dao', 'web']]);
+      expect(extractor.hasInternalPackageCycles()).toBe(true);
+    });
+
+    test('should report no cycles for an acyclic graph', () => {
+      extractor.addRecords([makeRecord('com.example.web.Controller', 'com.example.dao.Dao')]);
+
+      expect(extractor.hasInternalPackageCycles()).toBe(false);
+      expect(extractor.generateMarkdown()).toContain('*No cycles found.*');
     });
   });
 
   describe('generateMarkdownOutput', () => {
     test('should generate markdown output with the correct structure', () => {
       // Setup test data
-      extractor.packageMap.set('java.lang', { name: 'java.lang', classes: new Set(['String', 'Integer']), isExternal: true });
-      extractor.packageMap.set('java.util', { name: 'java.util', classes: new Set(['List', 'Map']), isExternal: true });
-      extractor.packageMap.set('com.example', { name: 'com.example', classes: new Set(['Main']), isExternal: false });
-      extractor.packageMap.set('com.example.util', { name: 'com.example.util', classes: new Set(['Helper']), isExternal: false });
+      extractor['packageMap'].set('java.lang', { name: 'java.lang', classes: new Set(['String', 'Integer']), isExternal: true });
+      extractor['packageMap'].set('java.util', { name: 'java.util', classes: new Set(['List', 'Map']), isExternal: true });
+      extractor['packageMap'].set('com.example', { name: 'com.example', classes: new Set(['Main']), isExternal: false });
+      extractor['packageMap'].set('com.example.util', { name: 'com.example.util', classes: new Set(['Helper']), isExternal: false });
       
-      extractor.basePackageDependencyMap.set('com.example', new Set(['java.lang', 'java.util']));
+      extractor['basePackageDependencyMap'].set('com.example', new Set(['java.lang', 'java.util']));
       
       // Call the method
-      extractor.generateMarkdownOutput('test-output.md');
-      
-      // Verify that writeFileSync was called with the correct arguments
-      expect(jest.mocked(fs.writeFileSync)).toHaveBeenCalled();
-      const outputFile = (jest.mocked(fs.writeFileSync).mock.calls[0][0] as string);
-      const outputContent = (jest.mocked(fs.writeFileSync).mock.calls[0][1] as string);
+      const outputFile = path.join(tempDir, 'test-output.md');
+      extractor.generateMarkdownOutput(outputFile);
       
-      expect(outputFile).toBe('test-output.md');
+      // Verify that the report was written to the output file
+      expect(fs.existsSync(outputFile)).toBe(true);
+      const outputContent = fs.readFileSync(outputFile, 'utf8');
       
       // Check for the expected sections in the markdown
       expect(outputContent).toContain('# Project Package Dependencies');
@@ -581,29 +543,73 @@ describe('PackageDependencyExtractor', () => {
 
     test('should handle empty dependencies', () => {
       // Setup test data with no dependencies
-      extractor.packageMap.set('com.example', { name: 'com.example', classes: new Set(['Main']), isExternal: false });
+      extractor['packageMap'].set('com.example', { name: 'com.example', classes: new Set(['Main']), isExternal: false });
       
       // No dependencies between base packages
       
       // Call the method
-      extractor.generateMarkdownOutput('test-output.md');
+      const outputFile = path.join(tempDir, 'test-output.md');
+      extractor.generateMarkdownOutput(outputFile);
       
       // Get the output content
-      const outputContent = (jest.mocked(fs.writeFileSync).mock.calls[0][1] as string);
+      const outputContent = fs.readFileSync(outputFile, 'utf8');
       
       // Check that the no dependencies message is included
       expect(outputContent).toContain('*No dependencies between base packages found.*');
     });
+
+    test('should build the result only once', () => {
+      extractor.addRecords([makeRecord('com.example.Main', 'java.lang.String')]);
+      const getResultSpy = jest.spyOn(extractor, 'getResult');
+
+      extractor.generateMarkdown();
+      expect(getResultSpy).toHaveBeenCalledTimes(1);
+
+      const result = extractor.getResult();
+      getResultSpy.mockClear();
+      extractor.generateMarkdown({}, result);
+      expect(getResultSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dependency weights', () => {
+    beforeEach(() => {
+      extractor.addRecords([
+        makeRecord('com.example.web.Controller', 'org.apache.struts.action.Action'),
+        makeRecord('com.example.web.Controller', 'org.apache.struts.action.Action'),
+        makeRecord('com.example.web.Form', 'org.apache.struts.action.ActionForm'),
+        makeRecord('com.example.web.Form', 'org.apache.commons.lang.StringUtils'),
+        makeRecord('com.example.web.Controller', 'com.example.web.Form')
+      ]);
+    });
+
+    test('should count records and distinct source and target classes per dependency', () => {
+      const result = extractor.getResult();
+
+      expect(result.dependencyWeights.get('com.example.web')?.get('org.apache.struts.action'))
+        .toEqual({ records: 3, sourceClasses: 2, targetClasses: 2 });
+      expect(result.basePackageDependencyWeights.get('com.example')?.get('org.apache'))
+        .toEqual({ records: 4, sourceClasses: 2, targetClasses: 3 });
+      // Dependencies within a package have no weight
+      expect(result.dependencyWeights.has('com.example.web')).toBe(true);
+      expect(result.dependencyWeights.get('com.example.web')?.has('com.example.web')).toBe(false);
+    });
+
+    test('should show the weights in the Markdown report', () => {
+      const markdown = extractor.generateMarkdown();
+
+      expect(markdown).toContain('  - `org.apache` (4 records, 2 source classes, 3 target classes)');
+      expect(markdown).toContain('- **Dependencies**: `org.apache` (4 records, 2 source classes, 3 target classes)');
+    });
   });
 
   describe('parseJsonlFile', () => {
     test('should parse JSONL file correctly', async () => {
-      // Setup process.env.NODE_ENV
-      const originalNodeEnv = process.env.NODE_ENV;
-      process.env.NODE_ENV = 'test';
-      
       // Spy on the buildBasePackageDependencies method
-      const buildBasePackageDependenciesSpy = jest.spyOn(extractor, 'buildBasePackageDependencies');
+      const buildBasePackageDependenciesSpy = jest.spyOn(
+        extractor as unknown as { buildBasePackageDependencies(): void },
+        'buildBasePackageDependencies'
+      );
       
       // Create mock data for processRecord
       const mockRecord1 = {
@@ -632,43 +638,66 @@ describe('PackageDependencyExtractor', () => {
         targetMethod: 'targetMethod'
       };
       
-      // Spy on processRecord method
-      const processRecordSpy = jest.spyOn(extractor, 'processRecord');
-      
-      // Mock processRecord to manually process our test records
-      processRecordSpy.mockImplementation((record) => {
-        // Do nothing in the test
-      });
+      // Write the records to a JSONL file, with a blank line between them
+      const inputFile = path.join(tempDir, 'test.jsonl');
+      fs.writeFileSync(inputFile, [JSON.stringify(mockRecord1), '', JSON.stringify(mockRecord2)].join('\n'));
       
       // Call the method
-      await extractor.parseJsonlFile('test.jsonl');
+      await extractor.parseJsonlFile(inputFile);
       
       // Verify buildBasePackageDependencies was called
       expect(buildBasePackageDependenciesSpy).toHaveBeenCalledTimes(1);
       
-      // Restore the original NODE_ENV
-      process.env.NODE_ENV = originalNodeEnv;
+      // Verify both records were processed
+      const result = extractor.getResult();
+      expect(result.packages.has('com.example.util')).toBe(true);
+      expect(result.basePackageDependencies.get('com.example')?.has('java.util')).toBe(true);
     });
     
     test('should handle errors when parsing JSON', async () => {
-      // Setup process.env.NODE_ENV
-      const originalNodeEnv = process.env.NODE_ENV;
-      process.env.NODE_ENV = 'test';
-      
       // Spy on console.error
       const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
       
+      // Write invalid lines followed by a valid record
+      const inputFile = path.join(tempDir, 'test.jsonl');
+      fs.writeFileSync(inputFile, [
+        '{not json',
+        JSON.stringify({ sourceClass: 'com.example.SourceClass' }),
+        JSON.stringify(makeRecord('com.example.SourceClass', 'java.lang.String'))
+      ].join('\n'));
+      
       // Call the method
-      await extractor.parseJsonlFile('test.jsonl');
+      await extractor.parseJsonlFile(inputFile);
       
-      // Since we're bypassing the actual parsing in test mode, console.error should not be called
-      expect(consoleErrorSpy).not.toHaveBeenCalled();
+      // The invalid lines are reported and the valid one is still processed
+      expect(consoleErrorSpy).toHaveBeenCalledTimes(2);
+      expect(extractor.getResult().packages.has('java.lang')).toBe(true);
       
       // Restore the spy
       consoleErrorSpy.mockRestore();
-      
-      // Restore the original NODE_ENV
-      process.env.NODE_ENV = originalNodeEnv;
+    });
+
+    test('should include the input summary in the reports', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const inputFile = path.join(tempDir, 'test.jsonl');
+      fs.writeFileSync(inputFile, [
+        JSON.stringify(makeRecord('com.example.SourceClass', 'java.lang.String')),
+        '{"sourceClass":"com.example.SourceClass"'
+      ].join('\n'));
+
+      await extractor.parseJsonlFile(inputFile);
+
+      expect(extractor.getResult().inputSummary).toMatchObject({ acceptedLines: 1, rejectedLines: 1, blankLines: 0 });
+      expect(extractor.generateMarkdown()).toContain('**Warning:** 1 lines could not be read');
+      expect(createJsonReport(extractor.getResult()).inputSummary?.files).toEqual([inputFile]);
+      consoleErrorSpy.mockRestore();
+    });
+
+    test('should abort in strict mode', async () => {
+      const inputFile = path.join(tempDir, 'test.jsonl');
+      fs.writeFileSync(inputFile, '{"sourceClass":"com.example.SourceClass"');
+
+      await expect(extractor.parseJsonlFile(inputFile, { strict: true })).rejects.toThrow(`${inputFile}:1: Invalid JSON`);
     });
   });
 });
@@ -682,80 +711,89 @@ describe('Specific Library Counting', () => {
   });
 
   test('should count struts in targetClass', () => {
-    extractor.countSpecificLibraries('org.apache.struts.actions.Action');
-    expect(extractor.libraryCounts['struts'].size).toBe(1); // Check size
+    extractor['countSpecificLibraries']('org.apache.struts.actions.Action');
+    expect(extractor['libraryCounts']['struts'].size).toBe(1); // Check size
   });
 
   test('should count commons in targetClass', () => {
-    extractor.countSpecificLibraries('org.apache.commons.lang.StringUtils');
-    expect(extractor.libraryCounts['commons'].size).toBe(1); // Check size
+    extractor['countSpecificLibraries']('org.apache.commons.lang.StringUtils');
+    expect(extractor['libraryCounts']['commons'].size).toBe(1); // Check size
   });
 
   test('should count log4j in targetClass', () => {
-    extractor.countSpecificLibraries('org.apache.log4j.Logger');
-    expect(extractor.libraryCounts['log4j'].size).toBe(1); // Check size
+    extractor['countSpecificLibraries']('org.apache.log4j.Logger');
+    expect(extractor['libraryCounts']['log4j'].size).toBe(1); // Check size
   });
 
   test('should count cryptix in targetClass', () => {
-    extractor.countSpecificLibraries('cryptix.provider.Cipher');
-    expect(extractor.libraryCounts['cryptix'].size).toBe(1); // Check size
+    extractor['countSpecificLibraries']('cryptix.provider.Cipher');
+    expect(extractor['libraryCounts']['cryptix'].size).toBe(1); // Check size
   });
 
   test('should handle case-insensitivity', () => {
-    extractor.countSpecificLibraries('org.apache.STRUTS.Action');
-    extractor.countSpecificLibraries('org.apache.COMMONS.FileUtils');
-    extractor.countSpecificLibraries('org.apache.LOG4J.Logger');
-    extractor.countSpecificLibraries('CRYPTIX.provider.Cipher');
-    
-    expect(extractor.libraryCounts['struts'].size).toBe(1);
-    expect(extractor.libraryCounts['commons'].size).toBe(1);
-    expect(extractor.libraryCounts['log4j'].size).toBe(1);
-    expect(extractor.libraryCounts['cryptix'].size).toBe(1);
+    extractor['countSpecificLibraries']('org.apache.STRUTS.Action');
+    extractor['countSpecificLibraries']('org.apache.COMMONS.FileUtils');
+    extractor['countSpecificLibraries']('org.apache.LOG4J.Logger');
+    extractor['countSpecificLibraries']('CRYPTIX.provider.Cipher');
+    
+    expect(extractor['libraryCounts']['struts'].size).toBe(1);
+    expect(extractor['libraryCounts']['commons'].size).toBe(1);
+    expect(extractor['libraryCounts']['log4j'].size).toBe(1);
+    expect(extractor['libraryCounts']['cryptix'].size).toBe(1);
   });
   
   test('should handle multiple libraries in one class name', () => {
     // Example: a class name containing both 'struts' and 'commons'
-    extractor.countSpecificLibraries('org.apache.struts.commons.util');
+    extractor['countSpecificLibraries']('org.apache.struts.commons.util');
     
-    expect(extractor.libraryCounts['struts'].size).toBe(1);
-    expect(extractor.libraryCounts['commons'].size).toBe(1);
-    expect(extractor.libraryCounts['log4j'].size).toBe(0);
-    expect(extractor.libraryCounts['cryptix'].size).toBe(0);
+    expect(extractor['libraryCounts']['struts'].size).toBe(1);
+    expect(extractor['libraryCounts']['commons'].size).toBe(1);
+    expect(extractor['libraryCounts']['log4j'].size).toBe(0);
+    expect(extractor['libraryCounts']['cryptix'].size).toBe(0);
   });
 
   test('should count unique classes correctly', () => {
-    extractor.countSpecificLibraries('org.apache.struts.Action');
-    extractor.countSpecificLibraries('org.apache.struts.actions.DispatchAction');
-    extractor.countSpecificLibraries('org.apache.commons.lang.StringUtils');
-    extractor.countSpecificLibraries('org.apache.commons.io.FileUtils');
+    extractor['countSpecificLibraries']('org.apache.struts.Action');
+    extractor['countSpecificLibraries']('org.apache.struts.actions.DispatchAction');
+    extractor['countSpecificLibraries']('org.apache.commons.lang.StringUtils');
+    extractor['countSpecificLibraries']('org.apache.commons.io.FileUtils');
     // Add the same classes again
-    extractor.countSpecificLibraries('org.apache.struts.Action'); // Duplicate
-    extractor.countSpecificLibraries('org.apache.commons.lang.StringUtils'); // Duplicate
+    extractor['countSpecificLibraries']('org.apache.struts.Action'); // Duplicate
+    extractor['countSpecificLibraries']('org.apache.commons.lang.StringUtils'); // Duplicate
     
-    expect(extractor.libraryCounts['struts'].size).toBe(2); // Should be 2 unique classes
-    expect(extractor.libraryCounts['commons'].size).toBe(2); // Should be 2 unique classes
+    expect(extractor['libraryCounts']['struts'].size).toBe(2); // Should be 2 unique classes
+    expect(extractor['libraryCounts']['commons'].size).toBe(2); // Should be 2 unique classes
   });
 
   test('should not count libraries not in the list', () => {
     const extractor = new PackageDependencyExtractor('spring,hibernate,tomcat');
-    extractor.countSpecificLibraries('org.springframework.context.ApplicationContext');
-    extractor.countSpecificLibraries('org.hibernate.Session');
+    extractor['countSpecificLibraries']('org.springframework.context.ApplicationContext');
+    extractor['countSpecificLibraries']('org.hibernate.Session');
     
-    expect(extractor.libraryCounts['spring'].size).toBe(1);
-    expect(extractor.libraryCounts['hibernate'].size).toBe(1);
-    expect(extractor.libraryCounts['tomcat'].size).toBe(0);
-    expect(extractor.libraryCounts['struts']).toBeUndefined();
+    expect(extractor['libraryCounts']['spring'].size).toBe(1);
+    expect(extractor['libraryCounts']['hibernate'].size).toBe(1);
+    expect(extractor['libraryCounts']['tomcat'].size).toBe(0);
+    expect(extractor['libraryCounts']['struts']).toBeUndefined();
   });
   
   test('should use custom libraries when provided', () => {
     const extractor = new PackageDependencyExtractor('spring,hibernate,tomcat');
-    extractor.countSpecificLibraries('org.springframework.context.ApplicationContext');
-    extractor.countSpecificLibraries('org.hibernate.Session');
+    extractor['countSpecificLibraries']('org.springframework.context.ApplicationContext');
+    extractor['countSpecificLibraries']('org.hibernate.Session');
     
-    expect(extractor.libraryCounts['spring'].size).toBe(1);
-    expect(extractor.libraryCounts['hibernate'].size).toBe(1);
-    expect(extractor.libraryCounts['tomcat'].size).toBe(0);
-    expect(extractor.libraryCounts['struts']).toBeUndefined();
+    expect(extractor['libraryCounts']['spring'].size).toBe(1);
+    expect(extractor['libraryCounts']['hibernate'].size).toBe(1);
+    expect(extractor['libraryCounts']['tomcat'].size).toBe(0);
+    expect(extractor['libraryCounts']['struts']).toBeUndefined();
+  });
+
+  test('should report the counts through getLibraryCounts', () => {
+    extractor.addRecords([
+      makeRecord('com.example.Main', 'org.apache.struts.Action'),
+      makeRecord('com.example.Main', 'org.apache.commons.lang.StringUtils')
+    ]);
+
+    expect(extractor.getLibraryCounts()).toEqual({ struts: 1, commons: 1, log4j: 0, cryptix: 0 });
   });
 });
 
@@ -780,8 +818,8 @@ describe('Integration with processRecord', () => {
       targetMethod: 'execute'
     };
     
-    extractor.processRecord(record);
-    expect(extractor.libraryCounts['struts'].size).toBe(1);
+    extractor['processRecord'](record);
+    expect(extractor['libraryCounts']['struts'].size).toBe(1);
   });
 
   test('should count commons library via processRecord', () => {
@@ -798,8 +836,8 @@ describe('Integration with processRecord', () => {
       targetMethod: 'execute'
     };
     
-    extractor.processRecord(record);
-    expect(extractor.libraryCounts['commons'].size).toBe(1);
+    extractor['processRecord'](record);
+    expect(extractor['libraryCounts']['commons'].size).toBe(1);
   });
 
   test('should correctly count unique classes with multiple identical records', () => {
@@ -829,13 +867,13 @@ describe('Integration with processRecord', () => {
       targetMethod: 'execute'
     };
     
-    extractor.processRecord(recordStruts);
-    extractor.processRecord(recordCommons);
-    extractor.processRecord(recordStruts);
-    extractor.processRecord(recordCommons);
+    extractor['processRecord'](recordStruts);
+    extractor['processRecord'](recordCommons);
+    extractor['processRecord'](recordStruts);
+    extractor['processRecord'](recordCommons);
 
-    expect(extractor.libraryCounts['struts'].size).toBe(1);
-    expect(extractor.libraryCounts['commons'].size).toBe(1);
+    expect(extractor['libraryCounts']['struts'].size).toBe(1);
+    expect(extractor['libraryCounts']['commons'].size).toBe(1);
   });
 });
 
@@ -848,4 +886,4 @@ test('should return default libraries when not specified', () => {
 test('should return custom libraries when specified', () => {
   const extractor = new PackageDependencyExtractor('spring,hibernate,tomcat');
   expect(extractor.getLibrariesToCount()).toEqual(['spring', 'hibernate', 'tomcat']);
-}); 
\ No newline at end of file
+}); 
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DependencyRecord } from '../types';
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { PortfolioAnalyzer, getApplicationName } from '../portfolio';
+import { makeRecord } from './fixtures';
+
+// A record of the given application, stored in an artifact named after it
+function makeApplicationRecord(applicationName: string, sourceClass: string, targetClass: string, appSetName: string = applicationName): DependencyRecord {
+  return makeRecord(sourceClass, targetClass, {
+    appSetName,
+    applicationName,
+    artifactFileName: `${applicationName}.jar`,
+    artifactId: applicationName
+  });
+}
+
+describe('getApplicationName', () => {
+  test('should prefix the application name with a different app set name', () => {
+    expect(getApplicationName(makeApplicationRecord('Orders', 'a.B', 'c.D'))).toBe('Orders');
+    expect(getApplicationName(makeApplicationRecord('Orders', 'a.B', 'c.D', 'Retail'))).toBe('Retail/Orders');
+  });
+});
+
+describe('PortfolioAnalyzer', () => {
+  let portfolio: PortfolioAnalyzer;
+
+  beforeEach(() => {
+    portfolio = new PortfolioAnalyzer();
+    portfolio.addRecords([
+      makeApplicationRecord('Orders', 'com.example.orders.OrderService', 'org.apache.log4j.Logger'),
+      makeApplicationRecord('Orders', 'com.example.orders.OrderService', 'java.lang.String'),
+      makeApplicationRecord('Billing', 'com.example.billing.Invoice', 'org.apache.log4j.Logger'),
+      makeApplicationRecord('Billing', 'com.example.billing.Invoice', 'org.apache.log4j.Logger'),
+      makeApplicationRecord('Billing', 'com.example.billing.Invoice', 'org.hibernate.Session')
+    ]);
+  });
+
+  test('should analyze every application separately', () => {
+    const applications = portfolio.getApplications();
+
+    expect(applications.map(application => application.name)).toEqual(['Billing', 'Orders']);
+    expect(applications[0].extractor.getResult().packages.has('com.example.orders')).toBe(false);
+    expect(applications[1].extractor.getResult().packages.has('com.example.orders')).toBe(true);
+  });
+
+  test('should summarize the external base packages and libraries shared by the applications', () => {
+    const summary = portfolio.getSummary();
+
+    expect(summary.applications.map(application => [application.name, application.externalBasePackageCount, application.libraryCount]))
+      .toEqual([['Billing', 2, 2], ['Orders', 2, 1]]);
+    expect(summary.externalBasePackages).toEqual([
+      { name: 'org.apache', applications: ['Billing', 'Orders'] },
+      { name: 'java.lang', applications: ['Orders'] },
+      { name: 'org.hibernate', applications: ['Billing'] }
+    ]);
+    expect(summary.libraries).toEqual([
+      { name: 'Apache Log4j 1', coordinates: 'log4j:log4j', license: 'Apache-2.0', applications: ['Billing', 'Orders'], callCount: 3 },
+      { name: 'Hibernate ORM', coordinates: 'org.hibernate:hibernate-core', license: 'LGPL-2.1-only', applications: ['Billing'], callCount: 1 }
+    ]);
+  });
+
+  test('should generate the summary as Markdown', () => {
+    const markdown = portfolio.generateSummaryMarkdown();
+
+    expect(markdown).toContain('# Portfolio Dependencies');
+    expect(markdown).toContain('| `org.apache` | 2 | Billing, Orders |');
+    expect(markdown).toContain('| Apache Log4j 1 | `log4j:log4j` | Apache-2.0 | 2 | 3 | Billing, Orders |');
+  });
+
+  test('should rank the applications by containerization effort', () => {
+    portfolio.addRecords([makeApplicationRecord('Orders', 'com.example.orders.OrderService', 'javax.naming.InitialContext')]);
+
+    expect(portfolio.getSummary().applications.map(application => [application.name, application.cloudReadinessScore, application.cloudReadinessRating]))
+      .toEqual([['Billing', 0, 'none'], ['Orders', 3, 'low']]);
+    expect(portfolio.generateSummaryMarkdown()).toContain('| Application | Score | Effort |\n|-------------|-------|--------|\n| Billing | 0 | none |\n| Orders | 3 | low |\n');
+  });
+
+  test('should read records of several applications from several files', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portfolio-'));
+    const files = [path.join(tempDir, 'a.jsonl'), path.join(tempDir, 'b.jsonl')];
+    fs.writeFileSync(files[0], [
+      JSON.stringify(makeApplicationRecord('Orders', 'com.example.orders.OrderService', 'java.lang.String')),
+      JSON.stringify(makeApplicationRecord('Billing', 'com.example.billing.Invoice', 'java.lang.String'))
+    ].join('\n'));
+    fs.writeFileSync(files[1], JSON.stringify(makeApplicationRecord('Orders', 'com.example.orders.OrderDao', 'java.util.List')));
+
+    const finishRecordsSpy = jest.spyOn(PackageDependencyExtractor.prototype, 'finishRecords');
+    const analyzer = new PortfolioAnalyzer();
+    await analyzer.parseJsonlFiles(files);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+
+    const orders = analyzer.getApplications().find(application => application.name === 'Orders')!;
+    expect(analyzer.getApplications()).toHaveLength(2);
+    expect(orders.extractor.getResult().externalBasePackages).toEqual(new Set(['java.lang', 'java.util']));
+    // Each application is finished once, after all files are read
+    expect(finishRecordsSpy).toHaveBeenCalledTimes(2);
+    finishRecordsSpy.mockRestore();
+
+    // The input summary covers all applications, so it belongs to the portfolio summary only
+    expect(analyzer.getSummary().inputSummary).toMatchObject({ files, acceptedLines: 3, rejectedLines: 0 });
+    expect(analyzer.generateSummaryMarkdown()).toContain('## Input');
+    expect(orders.extractor.getResult().inputSummary).toBeUndefined();
+  });
+
+  test('should show the input summary in the report of a single application', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portfolio-'));
+    const file = path.join(tempDir, 'a.jsonl');
+    fs.writeFileSync(file, JSON.stringify(makeApplicationRecord('Orders', 'com.example.orders.OrderService', 'java.lang.String')) + '\n\n');
+
+    const analyzer = new PortfolioAnalyzer();
+    await analyzer.parseJsonlFiles([file]);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+
+    expect(analyzer.getApplications()[0].extractor.getResult().inputSummary).toMatchObject({ acceptedLines: 1, blankLines: 1 });
+  });
+});
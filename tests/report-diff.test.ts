@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DependencyRecord } from '../types';
+import { PackageDependencyExtractor } from '../package-dependencies';
+import { JsonReport, createJsonReport } from '../json-report';
+import { createDiffMarkdown, diffReports, hasChanges, loadSnapshot } from '../report-diff';
+import { makeRecord } from './fixtures';
+
+function createReport(records: DependencyRecord[], options = {}): JsonReport {
+  const extractor = new PackageDependencyExtractor(undefined, options);
+  extractor.addRecords(records);
+  return createJsonReport(extractor.getResult());
+}
+
+describe('diffReports', () => {
+  const before = createReport([
+    makeRecord('com.example.web.Controller', 'org.apache.struts.action.Action'),
+    makeRecord('com.example.web.Controller', 'java.lang.String'),
+    makeRecord('com.example.web.Controller', 'com.acme.util.Strings')
+  ]);
+  const after = createReport([
+    makeRecord('com.example.web.Controller', 'org.springframework.web.bind.annotation.RequestMapping'),
+    makeRecord('com.example.web.Controller', 'java.lang.String'),
+    makeRecord('com.example.web.Controller', 'com.acme.util.Strings')
+  ], { classification: { internal: ['com.acme'] } });
+
+  test('should list added and removed base packages and dependencies', () => {
+    const diff = diffReports(before, after, 'v1.json', 'v2.json');
+
+    expect(diff.before).toBe('v1.json');
+    expect(diff.after).toBe('v2.json');
+    expect(diff.addedBasePackages).toEqual(['org.springframework']);
+    expect(diff.removedBasePackages).toEqual(['org.apache']);
+    expect(diff.addedDependencies).toEqual([{ source: 'com.example', target: 'org.springframework' }]);
+    expect(diff.removedDependencies).toEqual([{ source: 'com.example', target: 'org.apache' }]);
+  });
+
+  test('should list changed library counts and classifications', () => {
+    const diff = diffReports(before, after);
+
+    expect(diff.libraryCountChanges).toEqual([{ library: 'struts', before: 1, after: 0 }]);
+    expect(diff.libraryUsageChanges.map(change => [change.coordinates, change.classesBefore, change.classesAfter])).toEqual([
+      ['org.apache.struts:struts-core', 1, 0],
+      ['org.springframework:spring-web', 0, 1]
+    ]);
+    expect(diff.classificationChanges).toEqual([{ basePackage: 'com.acme', before: 'external', after: 'internal' }]);
+  });
+
+  test('should report identical snapshots as unchanged', () => {
+    const diff = diffReports(before, before);
+
+    expect(hasChanges(diff)).toBe(false);
+    expect(createDiffMarkdown(diff)).toContain('*No changes found.*');
+  });
+
+  test('should generate the diff as Markdown', () => {
+    const markdown = createDiffMarkdown(diffReports(before, after, 'v1.json', 'v2.json'));
+
+    expect(markdown).toContain('Changes from `v1.json` to `v2.json`.');
+    expect(markdown).toContain('- Removed `org.apache`');
+    expect(markdown).toContain('- Removed `com.example` → `org.apache`');
+    expect(markdown).toContain('| Struts | 1 | 0 | -1 |');
+    expect(markdown).toContain('- `com.acme`: external → internal');
+  });
+});
+
+describe('loadSnapshot', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-diff-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should load JSON reports and analyze JSONL files the same way', async () => {
+    const records = [makeRecord('com.example.web.Controller', 'org.apache.struts.action.Action')];
+    const jsonlFile = path.join(tempDir, 'records.jsonl');
+    const reportFile = path.join(tempDir, 'report.json');
+    fs.writeFileSync(jsonlFile, records.map(record => JSON.stringify(record)).join('\n'));
+    fs.writeFileSync(reportFile, JSON.stringify(createReport(records)));
+
+    expect(hasChanges(diffReports(await loadSnapshot(jsonlFile), await loadSnapshot(reportFile)))).toBe(false);
+  });
+
+  test('should reject missing files and JSON that is not a report', async () => {
+    const reportFile = path.join(tempDir, 'report.json');
+    fs.writeFileSync(reportFile, JSON.stringify({ basePackages: [] }));
+
+    await expect(loadSnapshot(path.join(tempDir, 'missing.jsonl'))).rejects.toThrow('does not exist');
+    await expect(loadSnapshot(reportFile)).rejects.toThrow('is not a JSON report written with --format json');
+  });
+});
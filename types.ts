@@ -0,0 +1,13 @@
+// Interface for dependency data in JSONL
+export interface DependencyRecord {
+    appSetName: string;
+    applicationName: string;
+    artifactFileName: string;
+    artifactId: string;
+    artifactGroup: string;
+    artifactVersion: string;
+    sourceClass: string;
+    sourceMethod: string;
+    targetClass: string;
+    targetMethod: string;
+}